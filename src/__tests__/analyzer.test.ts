@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { parseCode, analyzeBindings, formatAnalysisResult, formatSourcePosition } from '../analyzer.js';
+import { SourceMapGenerator } from 'source-map-js';
+import {
+  parseCode,
+  analyzeBindings,
+  formatAnalysisResult,
+  formatSourcePosition,
+  traceDataFlow,
+  formatTraceResult,
+} from '../analyzer.js';
 import type { SourceMap } from '../beautifier.js';
 
 // Helper to create a minimal source map for testing
@@ -46,6 +54,33 @@ describe('parseCode', () => {
     const ast = parseCode(jsxCode);
     expect(ast.type).toBe('File');
   });
+
+  it('should parse TypeScript casts without JSX for .ts files', () => {
+    const ast = parseCode('const a = <string>b; const f = <T,>(x: T) => x;', { filePath: '/src/app.ts' });
+    expect(ast.errors).toEqual([]);
+    expect(ast.program.body).toHaveLength(2);
+  });
+
+  it('should parse decorators, v8 intrinsics and import assertions', () => {
+    const code = [
+      'import data from "./data.json" assert { type: "json" };',
+      '@sealed class A { @log m() {} accessor x = 1; }',
+      '%DebugPrint(A);',
+    ].join('\n');
+    expect(parseCode(code, { filePath: '/src/app.js' }).errors).toEqual([]);
+  });
+
+  it('should retry with Flow when JSX and plain JavaScript fail', () => {
+    const ast = parseCode('function f(x: ?number): string { return String(x); }', { filePath: '/src/app.js' });
+    expect(ast.errors).toEqual([]);
+    expect(ast.program.body[0].type).toBe('FunctionDeclaration');
+  });
+
+  it('should only use the plugins given in parserOptions', () => {
+    expect(() => parseCode('let x: number = 1;', { parserOptions: { plugins: [], errorRecovery: false } }))
+      .toThrow('Parse error');
+    expect(parseCode('let x: number = 1;', { parserOptions: { plugins: ['typescript'] } }).errors).toEqual([]);
+  });
 });
 
 describe('analyzeBindings', () => {
@@ -139,6 +174,386 @@ console.log(myVar);`;
   });
 });
 
+describe('analyzeBindings (targeted)', () => {
+  // The same name bound in two nested scopes on one line
+  const code = 'function a(e){return e+function(e){return e*2}(e)}';
+
+  // Map every column of the line to the same column + 100 of the original
+  function createShiftedSourceMap(): SourceMap {
+    const generator = new SourceMapGenerator();
+    for (let column = 0; column < code.length; column++) {
+      generator.addMapping({
+        generated: { line: 1, column },
+        original: { line: 1, column: column + 100 },
+        source: 'test.js',
+      });
+    }
+    return { ...generator.toJSON(), version: 3 };
+  }
+
+  it('should pick the first occurrence on the target line', async () => {
+    const result = await analyzeBindings(code, createShiftedSourceMap(), 'e', { targetLine: 1 });
+    expect(result.bindings[0].definition.column).toBe(11);
+  });
+
+  it('should pick the occurrence spanning targetColumn', async () => {
+    const result = await analyzeBindings(code, createShiftedSourceMap(), 'e', { targetLine: 1, targetColumn: 42 });
+
+    expect(result.bindings).toHaveLength(1);
+    expect(result.bindings[0].definition.column).toBe(32);
+    expect(result.bindings[0].hitLocation?.column).toBe(42);
+    expect(result.targetColumn).toBe(42);
+    expect(formatAnalysisResult('/test/file.js', result)).toContain('Bindings: 1 (Targeted at line 1:42)');
+  });
+
+  it('should pick the occurrence at an original position', async () => {
+    const result = await analyzeBindings(code, createShiftedSourceMap(), 'e', {
+      targetOriginalPosition: { line: 1, column: 121 },
+    });
+
+    expect(result.isTargeted).toBe(true);
+    expect(result.bindings[0].definition.column).toBe(11);
+    expect(result.bindings[0].hitLocation?.column).toBe(21);
+    expect(formatAnalysisResult('/test/file.js', result)).toContain('Bindings: 1 (Targeted at original L1:121)');
+  });
+
+  it('should report no binding when nothing is at the original position', async () => {
+    const result = await analyzeBindings(code, createShiftedSourceMap(), 'e', {
+      targetOriginalPosition: { line: 1, column: 103 },
+    });
+
+    expect(result.bindings).toEqual([]);
+    expect(formatAnalysisResult('/test/file.js', result)).toContain('Bindings: None at original L1:103');
+  });
+
+  it('should follow identifiers renamed by the beautifier through the map names', async () => {
+    const renamed = 'function a(e){return function(e2){return e2}}';
+    const generator = new SourceMapGenerator();
+    generator.addMapping({ generated: { line: 1, column: 0 }, original: { line: 1, column: 0 }, source: 'test.js' });
+    generator.addMapping({
+      generated: { line: 1, column: 40 },
+      original: { line: 1, column: 39 },
+      source: 'test.js',
+      name: 'e',
+    });
+
+    const result = await analyzeBindings(renamed, { ...generator.toJSON(), version: 3 }, 'e', {
+      targetOriginalPosition: { line: 1, column: 39 },
+    });
+
+    expect(result.bindings).toHaveLength(1);
+    expect(result.bindings[0].definition.column).toBe(30);
+  });
+
+  it('should not treat other identifiers starting with the name as renamed copies', async () => {
+    const code = 'function a(exports){return exports}';
+    const generator = new SourceMapGenerator();
+    generator.addMapping({ generated: { line: 1, column: 0 }, original: { line: 1, column: 0 }, source: 'test.js' });
+    generator.addMapping({
+      generated: { line: 1, column: 27 },
+      original: { line: 1, column: 27 },
+      source: 'test.js',
+      name: 'e',
+    });
+
+    const result = await analyzeBindings(code, { ...generator.toJSON(), version: 3 }, 'e', {
+      targetOriginalPosition: { line: 1, column: 27 },
+    });
+
+    expect(result.bindings).toEqual([]);
+  });
+});
+
+describe('analyzeBindings (parse diagnostics)', () => {
+  const code = [
+    'var a = 1;',
+    'return a;',
+    'console.log(a);',
+  ].join('\n');
+
+  it('should report syntax errors recovered from while parsing', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(3), 'a');
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics![0]).toMatchObject({
+      line: 2,
+      column: 0,
+      message: "'return' outside of function.",
+      reasonCode: 'IllegalReturn',
+      originalPosition: { line: 1, column: 0 },
+    });
+
+    const output = formatAnalysisResult('/test/file.js', result);
+    expect(output).toContain('⚠️ Parse errors (1, recovered; results may be incomplete):\n');
+    expect(output).toContain("        ↳ 'return' outside of function.");
+    expect(output).toContain('🔎 References (2; read 2):');
+  });
+
+  it('should omit diagnostics for code without syntax errors', async () => {
+    const result = await analyzeBindings('let a = 1;', createTestSourceMap(1), 'a');
+    expect(result.diagnostics).toBeUndefined();
+    expect(formatAnalysisResult('/test/file.js', result)).not.toContain('Parse errors');
+  });
+});
+
+describe('analyzeBindings (access kinds)', () => {
+  const code = [
+    'let x = 1;',
+    'x = 2;',
+    'x += 3;',
+    'x++;',
+    '[x] = [1];',
+    'f(x);',
+    'new x();',
+    'typeof x;',
+    'x();',
+    'export { x };',
+  ].join('\n');
+
+  it('should classify references and include reassignments as writes', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(10), 'x', { maxReferences: 20 });
+    const [binding] = result.bindings;
+
+    expect(binding.definition.access).toBe('write');
+    expect(binding.references.map(ref => [ref.line, ref.access])).toEqual([
+      [2, 'write'],
+      [3, 'update'],
+      [4, 'update'],
+      [5, 'write'],
+      [6, 'read'],
+      [7, 'new'],
+      [8, 'typeof'],
+      [9, 'call'],
+      [10, 'export'],
+    ]);
+    expect(binding.totalReferences).toBe(9);
+    expect(binding.accessCounts).toEqual({ write: 2, update: 2, read: 1, new: 1, typeof: 1, call: 1, export: 1 });
+  });
+
+  it('should filter references by access kind before limiting', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(10), 'x', {
+      accessKinds: ['write', 'update'],
+      maxReferences: 3,
+    });
+    const [binding] = result.bindings;
+
+    expect(binding.references.map(ref => ref.line)).toEqual([2, 3, 4]);
+    expect(binding.totalReferences).toBe(4);
+    expect(result.accessKinds).toEqual(['write', 'update']);
+  });
+
+  it('should tag, group and filter references when formatting', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(10), 'x', { maxReferences: 20 });
+
+    const plain = formatAnalysisResult('/test/file.js', result, 20);
+    expect(plain).toContain('🔎 References (9; write 2, update 2, call 1, new 1, typeof 1, export 1, read 1):');
+    expect(plain).toContain('x += 3;  [update]');
+
+    const grouped = formatAnalysisResult('/test/file.js', result, 20, {
+      groupByAccess: true,
+      accessKinds: ['write', 'call'],
+    });
+    expect(grouped).toContain('🔎 References (3; write 2, call 1):');
+    expect(grouped).toContain('  write (2):\n');
+    expect(grouped).toContain('  call (1):\n');
+    expect(grouped).not.toContain('typeof x;');
+    expect(grouped).not.toContain('[write]');
+  });
+});
+
+describe('analyzeBindings (property mode)', () => {
+  const code = [
+    'var o = { sign: function(a) { return a; } };',
+    'class K { sign() {} }',
+    'this.sign = o.sign;',
+    'this["sign"](1);',
+    'const { sign } = o;',
+    'o[`sign`]++;',
+    'o.signature = 1;',
+  ].join('\n');
+
+  it('should find member accesses and object keys with their access kind', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(7), 'sign', { mode: 'property' });
+
+    expect(result.mode).toBe('property');
+    expect(result.bindings).toEqual([]);
+    expect(result.accesses!.map(access => [access.line, access.column, access.access])).toEqual([
+      [1, 10, 'write'],
+      [2, 10, 'write'],
+      [3, 5, 'write'],
+      [3, 14, 'read'],
+      [4, 5, 'call'],
+      [5, 8, 'read'],
+      [6, 2, 'update'],
+    ]);
+    expect(result.totalAccesses).toBe(7);
+    expect(result.accessCounts).toEqual({ write: 3, read: 2, call: 1, update: 1 });
+  });
+
+  it('should limit accesses and format them with their kind', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(7), 'sign', {
+      mode: 'property',
+      maxReferences: 2,
+    });
+    expect(result.accesses).toHaveLength(2);
+    expect(result.totalAccesses).toBe(7);
+
+    const output = formatAnalysisResult('/test/file.js', result, 2);
+    expect(output).toContain('Property="sign"');
+    expect(output).toContain('Accesses: 7 (write 3, update 1, call 1, read 2, showing first 2)');
+    expect(output).toContain('var o = { sign: function(a) { return a; } };  [write]');
+    expect(output).toContain('... (5 more accesses not shown)');
+  });
+
+  it('should report properties that are never accessed', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(7), 'verify', { mode: 'property' });
+    expect(formatAnalysisResult('/test/file.js', result)).toContain('Accesses: None');
+  });
+});
+
+describe('analyzeBindings (global mode)', () => {
+  const code = [
+    '_0x3f2a = ["a", "b"];',
+    'function f(i) { return _0x3f2a[i]; }',
+    'window._0x3f2a.push("c");',
+    'globalThis["_0x3f2a"] = null;',
+    'function g(_0x3f2a, self) { return _0x3f2a + self._0x3f2a; }',
+    'typeof _0x3f2a;',
+    'obj._0x3f2a;',
+  ].join('\n');
+
+  it('should find unbound references, implicit assignments and global object members', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(7), '_0x3f2a', { mode: 'global' });
+
+    expect(result.mode).toBe('global');
+    expect(result.accesses!.map(access => [access.line, access.column, access.access])).toEqual([
+      [1, 0, 'write'],
+      [2, 23, 'read'],
+      [3, 0, 'read'],
+      [4, 0, 'write'],
+      [6, 7, 'typeof'],
+    ]);
+    expect(result.accessCounts).toEqual({ write: 2, read: 2, typeof: 1 });
+  });
+
+  it('should format global accesses and point to global mode when nothing is bound', async () => {
+    const result = await analyzeBindings(code, createTestSourceMap(7), '_0x3f2a', {
+      mode: 'global',
+      accessKinds: ['write'],
+    });
+    const output = formatAnalysisResult('/test/file.js', result);
+    expect(output).toContain('Global="_0x3f2a"');
+    expect(output).toContain('Accesses: 2 (write 2)');
+
+    const unbound = await analyzeBindings(code, createTestSourceMap(7), 'missing');
+    expect(formatAnalysisResult('/test/file.js', unbound)).toContain('Use mode "global"');
+  });
+});
+
+describe('traceDataFlow', () => {
+  const code = [
+    'function sign(t) {',
+    '  var k = "secret" + t;',
+    '  return md5(k);',
+    '}',
+    'class Api {',
+    '  constructor(token) {',
+    '    this.token = token;',
+    '  }',
+    '  send(url) {',
+    '    var h = { "X-Sign": sign(this.token) };',
+    '    return fetch(url, { headers: h });',
+    '  }',
+    '}',
+    'new Api(localStorage.getItem("t")).send("/x");',
+  ].join('\n');
+  const map = createTestSourceMap(14);
+
+  it('should follow a value backward through variables, calls, parameters and properties', async () => {
+    const result = await traceDataFlow(code, map, { line: 11, column: 22 });
+
+    expect(result.steps.map(step => [step.kind, step.name, step.line])).toEqual([
+      ['start', '{ headers: h }', 11],
+      ['definition', 'h', 10],
+      ['literal', '{…}', 10],
+      ['call', 'sign', 10],
+      ['return', 'sign', 3],
+      ['call', 'md5', 3],
+      ['definition', 'k', 2],
+      ['literal', '"secret"', 2],
+      ['parameter', 't', 1],
+      ['argument', 'sign', 10],
+      ['property', 'this.token', 10],
+      ['assignment', 'token', 7],
+      ['parameter', 'token', 6],
+      ['argument', 'Api', 14],
+      ['call', 'localStorage.getItem', 14],
+      ['global', 'localStorage', 14],
+      ['literal', '"t"', 14],
+    ]);
+    expect(result.steps[12].from).toBe(11);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should follow a declaration backward when started by name', async () => {
+    const result = await traceDataFlow(code, map, { identifier: 'h' });
+
+    expect(result.steps.slice(0, 4).map(step => [step.kind, step.name, step.line, step.from])).toEqual([
+      ['start', 'h', 10, -1],
+      ['literal', '{…}', 10, 0],
+      ['call', 'sign', 10, 1],
+      ['return', 'sign', 3, 2],
+    ]);
+    expect(result.steps.at(-1)).toMatchObject({ kind: 'literal', name: '"t"' });
+  });
+
+  it('should follow a binding forward to the calls it reaches', async () => {
+    const result = await traceDataFlow(code, map, { identifier: 'token' }, { direction: 'forward' });
+    const sinks = result.steps.filter(step => step.kind === 'sink').map(step => step.name);
+
+    expect(result.steps[0]).toMatchObject({ kind: 'start', name: 'token', line: 6, depth: 0, from: -1 });
+    expect(result.steps[1]).toMatchObject({ kind: 'reference', line: 7, from: 0 });
+    expect(sinks).toEqual(['md5', 'fetch']);
+  });
+
+  it('should start at an original position', async () => {
+    const generator = new SourceMapGenerator();
+    const minified = 'var a=b(1);c(a)';
+    for (let column = 0; column < minified.length; column++) {
+      generator.addMapping({
+        generated: { line: 1, column },
+        original: { line: 1, column: column + 100 },
+        source: 'test.js',
+      });
+    }
+
+    const result = await traceDataFlow(minified, { ...generator.toJSON(), version: 3 }, {
+      originalPosition: { line: 1, column: 113 },
+    });
+
+    expect(result.steps.map(step => [step.kind, step.name, step.originalPosition.column])).toEqual([
+      ['start', 'a', 113],
+      ['definition', 'a', 104],
+      ['call', 'b', 106],
+      ['literal', '1', 108],
+    ]);
+  });
+
+  it('should stop at maxDepth and format the trace', async () => {
+    const result = await traceDataFlow(code, map, { identifier: 'h', line: 11 }, { maxDepth: 2 });
+    expect(result.truncated).toBe(true);
+
+    const output = formatTraceResult('/test/file.js', result);
+    expect(output).toContain('Trace=backward from "h" at line 11');
+    expect(output).toContain('(truncated; raise maxDepth or maxSteps to follow further)');
+    expect(output).toContain('  #1 definition h ← #0\n');
+
+    const missing = await traceDataFlow(code, map, { identifier: 'nothing' });
+    expect(missing.steps).toEqual([]);
+    expect(formatTraceResult('/test/file.js', missing)).toContain('Steps: None (no expression found at the start)');
+  });
+});
+
 describe('formatSourcePosition', () => {
   it('should format valid position', () => {
     expect(formatSourcePosition(10, 5)).toBe('L10:5');
@@ -1,11 +1,34 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { ensureBeautified } from '../beautifier.js';
+import { SourceMapConsumer } from 'source-map-js';
+import * as esbuild from 'esbuild';
+import { ensureBeautified, getLocalPaths, beautifyJson, beautifyCss, beautifyHtml, type SourceMap } from '../beautifier.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 
 const TEST_DIR = path.join(os.tmpdir(), 'smart-fs-test-fixtures');
 
+/**
+ * Map a beautified position back to an original offset in the given content
+ */
+function originalOffsetFor(map: SourceMap, original: string, line: number, column: number): number {
+  const consumer = new SourceMapConsumer({ ...map, version: String(map.version) });
+  const pos = consumer.originalPositionFor({ line, column });
+  const lines = original.split('\n');
+  let offset = 0;
+  for (let i = 0; i < pos.line! - 1; i++) offset += lines[i].length + 1;
+  return offset + pos.column!;
+}
+
+/**
+ * Find the beautified line/column of the first occurrence of a substring
+ */
+function findPosition(code: string, needle: string): { line: number; column: number } {
+  const index = code.indexOf(needle);
+  const before = code.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length };
+}
+
 describe('ensureBeautified', () => {
   beforeAll(async () => {
     await fs.mkdir(TEST_DIR, { recursive: true });
@@ -51,4 +74,282 @@ describe('ensureBeautified', () => {
     
     await expect(ensureBeautified(nonExistentFile)).rejects.toThrow('File not found');
   });
+
+  it('should not write local files when saveLocal is false', async () => {
+    const dir = path.join(TEST_DIR, 'readonly-evidence');
+    await fs.mkdir(dir, { recursive: true });
+    const testFile = path.join(dir, 'bundle.js');
+    await fs.writeFile(testFile, 'var evidence=1;', 'utf-8');
+
+    const result = await ensureBeautified(testFile, { saveLocal: false });
+
+    expect(result.savedLocal).toBe(false);
+    expect(result.code).toContain('evidence');
+    expect(await fs.readdir(dir)).toEqual(['bundle.js']);
+  });
+
+  it('should write local files under outputDir mirroring the workspace tree', async () => {
+    const workspaceRoot = path.join(TEST_DIR, 'workspace');
+    const outputDir = path.join(TEST_DIR, 'out');
+    const testFile = path.join(workspaceRoot, 'site', 'js', 'app.js');
+    await fs.mkdir(path.dirname(testFile), { recursive: true });
+    await fs.writeFile(testFile, 'var mirrored=1;', 'utf-8');
+
+    const result = await ensureBeautified(testFile, { outputDir, workspaceRoot });
+
+    const expectedPath = path.join(outputDir, 'site', 'js', 'app.beautified.js');
+    expect(result.savedLocal).toBe(true);
+    expect(result.localPath).toBe(expectedPath);
+    expect(await fs.readFile(expectedPath, 'utf-8')).toBe(result.code);
+    expect(result.rawMap?.sources).toEqual(['../../../workspace/site/js/app.js']);
+    expect(await fs.readdir(path.dirname(testFile))).toEqual(['app.js']);
+  });
+});
+
+describe('source-mapped beautification', () => {
+  it('should format JSON like JSON.stringify and map values to original offsets', () => {
+    const original = '{"name":"app","list":[1,2,{"deep":true}],"empty":{}}';
+    const result = beautifyJson(original, 'config.json');
+
+    expect(result.parseFailed).toBe(false);
+    expect(result.code).toBe(JSON.stringify(JSON.parse(original), null, 2));
+    expect(result.map?.sources).toEqual(['config.json']);
+
+    const pos = findPosition(result.code, '"deep"');
+    expect(originalOffsetFor(result.map!, original, pos.line, pos.column)).toBe(original.indexOf('"deep"'));
+  });
+
+  it('should return a null map for invalid JSON', () => {
+    const result = beautifyJson('{invalid');
+    expect(result.parseFailed).toBe(true);
+    expect(result.map).toBeNull();
+  });
+
+  it('should map CSS declarations to original offsets', () => {
+    const original = 'a{color:red;margin:0}b{padding:1px}';
+    const result = beautifyCss(original);
+
+    const pos = findPosition(result.code, 'padding');
+    expect(originalOffsetFor(result.map!, original, pos.line, pos.column)).toBe(original.indexOf('padding'));
+    // Whole-line lookups at column 0 resolve through the indentation
+    expect(originalOffsetFor(result.map!, original, pos.line, 0)).toBe(original.indexOf('padding'));
+  });
+
+  it('should preserve CSS strings, url() values and nested at-rules', () => {
+    const original = '@media (min-width:1px){@supports (display:grid){.a{content:"a;b";background:url(data:image/png;base64,AA;B=)}}}';
+    const result = beautifyCss(original);
+
+    expect(result.code).toBe([
+      '@media (min-width:1px) {',
+      '  @supports (display:grid) {',
+      '    .a {',
+      '      content: "a;b";',
+      '      background: url(data:image/png;base64,AA;B=)',
+      '    }',
+      '  }',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should keep custom property values verbatim', () => {
+    const original = 'a{--gap:1px   2px;--empty:;color:red   blue}';
+    const result = beautifyCss(original);
+
+    expect(result.code).toBe([
+      'a {',
+      '  --gap:1px   2px;',
+      '  --empty:;',
+      '  color: red blue',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should keep comments and indent nested CSS rules', () => {
+    const result = beautifyCss('/* header */.card{color:red;&:hover{color:blue}}');
+
+    expect(result.code).toBe([
+      '/* header */',
+      '.card {',
+      '  color: red;',
+      '  &:hover {',
+      '    color: blue',
+      '  }',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should return original CSS with no map when formatting fails', () => {
+    for (const invalid of ['a{content:"open}', 'a{b:1}}', 'a{}/* open']) {
+      const result = beautifyCss(invalid);
+      expect(result.code).toBe(invalid);
+      expect(result.map).toBeNull();
+    }
+  });
+
+  it('should map HTML tags and text to original offsets', () => {
+    const original = '<div>\n<p>hello</p><span>world</span></div>';
+    const result = beautifyHtml(original);
+
+    const pos = findPosition(result.code, 'world');
+    expect(originalOffsetFor(result.map!, original, pos.line, pos.column)).toBe(original.indexOf('world'));
+  });
+
+  it('should not indent after void elements and keep preformatted content verbatim', () => {
+    const original = '<div><br><img src="a.png"><pre>  a\n    b </pre><p>text</p></div>';
+    const result = beautifyHtml(original);
+
+    expect(result.code).toBe([
+      '<div>',
+      '  <br>',
+      '  <img src="a.png">',
+      '  <pre>  a',
+      '    b </pre>',
+      '  <p>text</p>',
+      '</div>',
+    ].join('\n'));
+  });
+
+  it('should implicitly close an open paragraph before block elements', () => {
+    const original = '<body><p>intro<div>a</div><p>more<ul><li>x</li></ul><table></table></body>';
+    const result = beautifyHtml(original);
+
+    expect(result.code).toBe([
+      '<body>',
+      '  <p>',
+      '    intro',
+      '  <div>a</div>',
+      '  <p>',
+      '    more',
+      '  <ul>',
+      '    <li>x</li>',
+      '  </ul>',
+      '  <table></table>',
+      '</body>',
+    ].join('\n'));
+  });
+
+  it('should beautify inline scripts and styles and map them to the original HTML', () => {
+    const original = '<html><head><style>a{color:red}</style></head><body><script>var x=1;if(x<2){go("</p>")}</script></body></html>';
+    const result = beautifyHtml(original);
+
+    expect(result.code).toContain('      if (x < 2) {');
+    expect(result.code).toContain('        color: red');
+
+    const pos = findPosition(result.code, 'go(');
+    expect(originalOffsetFor(result.map!, original, pos.line, pos.column)).toBe(original.indexOf('go('));
+    const cssPos = findPosition(result.code, 'color');
+    expect(originalOffsetFor(result.map!, original, cssPos.line, 0)).toBe(original.indexOf('color'));
+  });
+
+  it('should return a source map from ensureBeautified for JSON files', async () => {
+    const dir = path.join(TEST_DIR, 'json');
+    await fs.mkdir(dir, { recursive: true });
+    const testFile = path.join(dir, 'settings.json');
+    await fs.writeFile(testFile, '{"a":1,"b":2}', 'utf-8');
+
+    try {
+      const result = await ensureBeautified(testFile);
+
+      expect(result.usedFallback).toBe(false);
+      expect(result.rawMap?.sources).toEqual(['settings.json']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('upstream source maps', () => {
+  const dir = path.join(os.tmpdir(), 'smart-fs-test-upstream');
+  const authored = [
+    'export function greet(name: string): string {',
+    '  return `hello ${name}`;',
+    '}',
+    'console.log(greet("world"));',
+  ].join('\n');
+
+  beforeAll(async () => {
+    await fs.mkdir(dir, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Minify the authored source, returning the minified code and its map
+   */
+  function minify(): { code: string; map: string } {
+    const result = esbuild.transformSync(authored, {
+      loader: 'ts',
+      minify: true,
+      sourcemap: 'external',
+      sourcefile: 'src/greet.ts',
+    });
+    return { code: result.code, map: result.map };
+  }
+
+  it('should keep rawMap pointing at the minified file', async () => {
+    const { code, map } = minify();
+    const testFile = path.join(dir, 'external.min.js');
+    await fs.writeFile(testFile, `${code}//# sourceMappingURL=external.min.js.map\n`, 'utf-8');
+    await fs.writeFile(`${testFile}.map`, map, 'utf-8');
+
+    const result = await ensureBeautified(testFile, { saveLocal: false });
+
+    expect(result.rawMap?.sources).toEqual(['external.min.js']);
+    expect(result.authoredMap).toBeUndefined();
+  });
+
+  it('should compose an external upstream map when followSourceMap is set', async () => {
+    const { code, map } = minify();
+    const testFile = path.join(dir, 'composed.min.js');
+    await fs.writeFile(testFile, `${code}//# sourceMappingURL=composed.min.js.map\n`, 'utf-8');
+    await fs.writeFile(`${testFile}.map`, map, 'utf-8');
+
+    const result = await ensureBeautified(testFile, { saveLocal: false, followSourceMap: true });
+
+    expect(result.authoredMap?.sources).toEqual(['src/greet.ts']);
+    const pos = findPosition(result.code, 'console');
+    const consumer = new SourceMapConsumer({ ...result.authoredMap!, version: '3' });
+    const original = consumer.originalPositionFor(pos);
+    expect(original.source).toBe('src/greet.ts');
+    expect(original.line).toBe(4);
+  });
+
+  it('should compose an inline data: URL map', async () => {
+    const { code, map } = minify();
+    const testFile = path.join(dir, 'inline.min.js');
+    const dataUrl = `data:application/json;base64,${Buffer.from(map).toString('base64')}`;
+    await fs.writeFile(testFile, `${code}//# sourceMappingURL=${dataUrl}\n`, 'utf-8');
+
+    const result = await ensureBeautified(testFile, { saveLocal: false, followSourceMap: true });
+
+    expect(result.rawMap?.sources).toEqual(['inline.min.js']);
+    expect(result.authoredMap?.sources).toEqual(['src/greet.ts']);
+  });
+
+  it('should return a null authoredMap when no upstream map exists', async () => {
+    const testFile = path.join(dir, 'plain.js');
+    await fs.writeFile(testFile, 'function f(){return 1}', 'utf-8');
+
+    const result = await ensureBeautified(testFile, { saveLocal: false, followSourceMap: true });
+
+    expect(result.authoredMap).toBeNull();
+  });
+});
+
+describe('getLocalPaths', () => {
+  it('should default to the directory of the original file', () => {
+    const paths = getLocalPaths('/data/site/main.js');
+    expect(paths.beautifiedPath).toBe(path.resolve('/data/site/main.beautified.js'));
+    expect(paths.mapPath).toBe(path.resolve('/data/site/main.beautified.js.map'));
+  });
+
+  it('should mirror files outside workspaceRoot by absolute path', () => {
+    const paths = getLocalPaths('/data/site/main.js', {
+      outputDir: '/tmp/out',
+      workspaceRoot: '/workspace',
+    });
+    expect(paths.beautifiedPath).toBe(path.resolve('/tmp/out/data/site/main.beautified.js'));
+  });
 });
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { SourceMapConsumer } from 'source-map-js';
+import { unpackBundle } from '../bundleUnpacker.js';
+import { smartSearch, findUsage } from '../index.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const TEST_DIR = path.join(os.tmpdir(), 'smart-fs-test-bundles');
+
+const WEBPACK_BUNDLE = [
+  '(()=>{var __webpack_modules__={12:function(e,t,n){var r=n(34);e.exports=function(a){return r.sign(a)}},',
+  '34:(e,t,n)=>{t.sign=function(x){return x*2}},"./src/a.js":function(e){e.exports=1}};',
+  'function __webpack_require__(i){var m={exports:{}};__webpack_modules__[i](m,m.exports,__webpack_require__);return m.exports}',
+  '__webpack_require__(12)})();',
+].join('');
+
+const WEBPACK_ARRAY_BUNDLE = [
+  '!function(e){function n(i){var m={exports:{}};e[i](m,m.exports,n);return m.exports}n(0)}',
+  '([function(e,t,n){var hooks=[function(a){return n(1).sign(a)},function(b){return b}];e.exports=hooks},',
+  'function(e,t){t.sign=function(x){return x*2}}]);',
+  '(window.webpackJsonp=window.webpackJsonp||[]).push([[1],[,,function(e,t,n){n(1)}]]);',
+].join('');
+
+const ESBUILD_BUNDLE = [
+  '(() => {',
+  '  // src/util.js',
+  '  function sign(x) {',
+  '    return x * 2;',
+  '  }',
+  '',
+  '  // node_modules/lib/index.js',
+  '  var lib_default = { sign };',
+  '',
+  '  // src/main.js',
+  '  console.log(lib_default.sign(2));',
+  '})();',
+].join('\n');
+
+const BROWSERIFY_BUNDLE = [
+  '(function(){function r(e,n,t){function o(i){var p=n[i]={exports:{}};e[i][0].call(p.exports,function(r){return o(e[i][1][r]||r)},p,p.exports,r,e,n,t);return p.exports}',
+  'for(var u=0;u<t.length;u++)o(t[u]);return o}return r})()',
+  '({1:[function(require,module,exports){var b=require("./b");console.log(b.sign(2))},{"./b":2}],',
+  '2:[function(require,module,exports){exports.sign=function(x){return -x}},{}]},{},[1]);',
+].join('');
+
+describe('unpackBundle', () => {
+  beforeAll(async () => {
+    await fs.mkdir(TEST_DIR, { recursive: true });
+    await fs.writeFile(path.join(TEST_DIR, 'webpack.js'), WEBPACK_BUNDLE, 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'webpack-array.js'), WEBPACK_ARRAY_BUNDLE, 'utf-8');
+    await fs.writeFile(
+      path.join(TEST_DIR, 'webpack-entry.js'),
+      WEBPACK_BUNDLE.replace('__webpack_require__(12)})', 'var hooks=[function(a){return __webpack_require__(12)(a)},function(b){return b}];hooks[0](1)})'),
+      'utf-8'
+    );
+    await fs.writeFile(path.join(TEST_DIR, 'esbuild.js'), ESBUILD_BUNDLE, 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'browserify.js'), BROWSERIFY_BUNDLE, 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'plain.js'), 'var a={1:function(){}};', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should split a webpack bundle into modules named by id', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'webpack.js'), { saveLocal: false });
+
+    expect(result.bundler).toBe('webpack');
+    expect(result.modules.map(module => [module.id, module.fileName])).toEqual([
+      ['12', '12.js'],
+      ['34', '34.js'],
+      ['./src/a.js', 'src/a.js'],
+    ]);
+    expect(result.modules[0].dependencies).toEqual(['34']);
+    expect(result.modules[1].code).toMatch(/^\(\(e, t, n\) => \{/);
+    expect(result.modules[1].code).toMatch(/\}\);$/);
+  });
+
+  it('should read array module tables of the bootstrap and of chunk pushes only', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'webpack-array.js'), { saveLocal: false });
+
+    expect(result.bundler).toBe('webpack');
+    expect(result.modules.map(module => module.fileName)).toEqual(['0.js', '1.js', '2.js']);
+    expect(result.modules[2].dependencies).toEqual(['1']);
+  });
+
+  it('should not take callback arrays in the entry for module tables', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'webpack-entry.js'), { saveLocal: false });
+
+    expect(result.modules.map(module => module.id)).toEqual(['12', '34', './src/a.js']);
+  });
+
+  it('should map module code back to the bundle', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'webpack.js'), { saveLocal: false });
+    const module = result.modules.find(candidate => candidate.id === '34')!;
+    const lines = module.code.split('\n');
+    const line = lines.findIndex(content => content.includes('t.sign')) + 1;
+    const column = lines[line - 1].indexOf('sign');
+
+    const consumer = new SourceMapConsumer({ ...module.map, version: String(module.map.version) });
+    const pos = consumer.originalPositionFor({ line, column });
+    expect(pos.line).toBe(1);
+    expect(WEBPACK_BUNDLE.slice(pos.column!, pos.column! + 4)).toBe('sign');
+  });
+
+  it('should read browserify module maps and dependencies', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'browserify.js'), { saveLocal: false });
+
+    expect(result.bundler).toBe('browserify');
+    expect(result.modules.map(module => module.id)).toEqual(['1', '2']);
+    expect(result.modules[0].dependencies).toEqual(['2']);
+  });
+
+  it('should split scope-hoisted bundles at their module banners', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'esbuild.js'), { saveLocal: false });
+
+    expect(result.bundler).toBe('scope-hoisted');
+    expect(result.modules.map(module => [module.id, module.fileName, module.dependencies])).toEqual([
+      ['src/util.js', 'src/util.js', []],
+      ['node_modules/lib/index.js', 'node_modules/lib/index.js', ['src/util.js']],
+      ['src/main.js', 'src/main.js', ['node_modules/lib/index.js']],
+    ]);
+    expect(result.modules[1].code).toBe('var lib_default = { sign };');
+
+    const consumer = new SourceMapConsumer({ ...result.modules[2].map, version: String(result.modules[2].map.version) });
+    expect(consumer.originalPositionFor({ line: 1, column: result.modules[2].code.indexOf('lib_default') }))
+      .toMatchObject({ line: 11, column: 14 });
+
+    const search = await smartSearch(path.join(TEST_DIR, 'esbuild.js'), 'sign', {
+      query: 'sign',
+      saveLocal: false,
+      moduleId: 'src/util.js',
+    });
+    expect(search.matches[0].lineNumber).toBe(1);
+    expect(search.formatted).toContain('Module=src/util.js');
+  });
+
+  it('should report bundles without a module table as unknown', async () => {
+    const result = await unpackBundle(path.join(TEST_DIR, 'plain.js'), { saveLocal: false });
+
+    expect(result.bundler).toBe('unknown');
+    expect(result.modules).toEqual([]);
+  });
+
+  it('should write modules with source maps pointing at the bundle', async () => {
+    const modulesDir = path.join(TEST_DIR, 'modules');
+    const result = await unpackBundle(path.join(TEST_DIR, 'webpack.js'), { saveLocal: false, modulesDir });
+
+    expect(result.writtenFiles).toEqual([
+      path.join(modulesDir, '12.js'),
+      path.join(modulesDir, '34.js'),
+      path.join(modulesDir, 'src', 'a.js'),
+    ]);
+    const code = await fs.readFile(path.join(modulesDir, 'src', 'a.js'), 'utf-8');
+    expect(code).toContain('//# sourceMappingURL=a.js.map');
+    const map = JSON.parse(await fs.readFile(path.join(modulesDir, 'src', 'a.js.map'), 'utf-8'));
+    expect(map.sources).toEqual(['../../webpack.js']);
+  });
+
+  it('should let smartSearch and findUsage operate on one module', async () => {
+    const search = await smartSearch(path.join(TEST_DIR, 'webpack.js'), 'sign', {
+      query: 'sign',
+      saveLocal: false,
+      moduleId: '34',
+    });
+    expect(search.totalMatches).toBe(1);
+    expect(search.matches[0].lineNumber).toBe(2);
+    expect(search.formatted).toContain('Module=34 (line numbers within the module)');
+
+    const usage = await findUsage(path.join(TEST_DIR, 'browserify.js'), 'b', { saveLocal: false, moduleId: '1' });
+    expect(usage.bindings).toHaveLength(1);
+    expect(usage.bindings[0].definition.line).toBe(2);
+
+    const missing = await smartSearch(path.join(TEST_DIR, 'webpack.js'), 'sign', {
+      query: 'sign',
+      saveLocal: false,
+      moduleId: '99',
+    });
+    expect(missing.error).toBe('Module not found in bundle: 99');
+  });
+});
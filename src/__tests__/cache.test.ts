@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import {
+  configureCache,
+  calculateCacheKey,
+  readCacheEntry,
+  writeCacheEntry,
+  getCacheStats,
+  clearCache,
+  evictCache,
+  getCacheEntryPaths,
+  getCacheDir,
+} from '../cache.js';
+import { ensureBeautified } from '../beautifier.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const TEST_DIR = path.join(os.tmpdir(), 'smart-fs-cache-test');
+const CACHE_DIR = path.join(TEST_DIR, 'cache');
+
+describe('cache', () => {
+  let previousDir: string;
+
+  beforeAll(async () => {
+    previousDir = getCacheDir();
+    await fs.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  beforeEach(async () => {
+    configureCache({ directory: CACHE_DIR, maxSizeBytes: 512 * 1024 * 1024, maxAgeMs: 7 * 24 * 60 * 60 * 1000 });
+    await fs.rm(CACHE_DIR, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    configureCache({ directory: previousDir });
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('calculateCacheKey', () => {
+    it('should depend on content and options only', () => {
+      expect(calculateCacheKey('const a=1;')).toBe(calculateCacheKey('const a=1;'));
+      expect(calculateCacheKey('const a=1;')).not.toBe(calculateCacheKey('const a=2;'));
+      expect(calculateCacheKey('const a=1;', { minify: false })).not.toBe(
+        calculateCacheKey('const a=1;', { minify: true })
+      );
+    });
+  });
+
+  describe('readCacheEntry / writeCacheEntry', () => {
+    it('should round-trip an entry', async () => {
+      const key = calculateCacheKey('roundtrip');
+      await writeCacheEntry(key, { code: 'code', mapText: '{"version":3}' });
+
+      const entry = await readCacheEntry(key);
+      expect(entry).toEqual({ code: 'code', mapText: '{"version":3}' });
+    });
+
+    it('should return null on miss or when the map is missing', async () => {
+      const key = calculateCacheKey('partial');
+      expect(await readCacheEntry(key)).toBeNull();
+
+      await writeCacheEntry(key, { code: 'code', mapText: '{}' });
+      await fs.rm(getCacheEntryPaths(key).mapPath);
+      expect(await readCacheEntry(key)).toBeNull();
+    });
+
+    it('should leave no temp files behind', async () => {
+      const key = calculateCacheKey('atomic');
+      await Promise.all([
+        writeCacheEntry(key, { code: 'a', mapText: '{}' }),
+        writeCacheEntry(key, { code: 'a', mapText: '{}' }),
+      ]);
+
+      const names = await fs.readdir(CACHE_DIR);
+      expect(names.sort()).toEqual([
+        path.basename(getCacheEntryPaths(key).beautifiedPath),
+        path.basename(getCacheEntryPaths(key).mapPath),
+      ].sort());
+    });
+  });
+
+  describe('getCacheStats / clearCache', () => {
+    it('should report and clear entries', async () => {
+      await writeCacheEntry(calculateCacheKey('one'), { code: '1234', mapText: '{}' });
+      await writeCacheEntry(calculateCacheKey('two'), { code: '5678', mapText: '{}' });
+
+      const stats = await getCacheStats();
+      expect(stats.directory).toBe(CACHE_DIR);
+      expect(stats.entries).toBe(2);
+      expect(stats.totalBytes).toBe(12);
+      expect(stats.oldestEntryMs).not.toBeNull();
+
+      const cleared = await clearCache();
+      expect(cleared.removedEntries).toBe(2);
+      expect((await getCacheStats()).entries).toBe(0);
+    });
+
+    it('should handle a missing cache directory', async () => {
+      const stats = await getCacheStats();
+      expect(stats.entries).toBe(0);
+      expect(stats.newestEntryMs).toBeNull();
+    });
+  });
+
+  describe('evictCache', () => {
+    it('should remove entries older than maxAgeMs', async () => {
+      const oldKey = calculateCacheKey('old');
+      const newKey = calculateCacheKey('new');
+      await writeCacheEntry(oldKey, { code: 'old', mapText: '{}' });
+      await writeCacheEntry(newKey, { code: 'new', mapText: '{}' });
+
+      const past = new Date(Date.now() - 60 * 60 * 1000);
+      const { beautifiedPath, mapPath } = getCacheEntryPaths(oldKey);
+      await fs.utimes(beautifiedPath, past, past);
+      await fs.utimes(mapPath, past, past);
+
+      configureCache({ maxAgeMs: 60 * 1000 });
+      const result = await evictCache();
+
+      expect(result.removedEntries).toBe(1);
+      expect(await readCacheEntry(oldKey)).toBeNull();
+      expect(await readCacheEntry(newKey)).not.toBeNull();
+    });
+
+    it('should remove least recently used entries over maxSizeBytes', async () => {
+      const keys = ['a', 'b', 'c'].map(k => calculateCacheKey(k));
+      for (let i = 0; i < keys.length; i++) {
+        await writeCacheEntry(keys[i], { code: 'x'.repeat(100), mapText: '{}' });
+        const time = new Date(Date.now() - (keys.length - i) * 1000);
+        const { beautifiedPath, mapPath } = getCacheEntryPaths(keys[i]);
+        await fs.utimes(beautifiedPath, time, time);
+        await fs.utimes(mapPath, time, time);
+      }
+
+      configureCache({ maxSizeBytes: 250 });
+      const result = await evictCache();
+
+      expect(result.removedEntries).toBe(1);
+      expect(await readCacheEntry(keys[0])).toBeNull();
+      expect(await readCacheEntry(keys[2])).not.toBeNull();
+    });
+  });
+
+  describe('ensureBeautified integration', () => {
+    it('should share cache entries between identical files in different directories', async () => {
+      const code = 'const shared=1;function f(x){return x+shared}';
+      const fileA = path.join(TEST_DIR, 'a', 'bundle.js');
+      const fileB = path.join(TEST_DIR, 'b', 'copy.js');
+      await fs.mkdir(path.dirname(fileA), { recursive: true });
+      await fs.mkdir(path.dirname(fileB), { recursive: true });
+      await fs.writeFile(fileA, code, 'utf-8');
+      await fs.writeFile(fileB, code, 'utf-8');
+
+      const resultA = await ensureBeautified(fileA);
+      expect((await getCacheStats()).entries).toBe(1);
+
+      const resultB = await ensureBeautified(fileB);
+      expect((await getCacheStats()).entries).toBe(1);
+      expect(resultB.code).toBe(resultA.code);
+      expect(resultB.rawMap?.sources).toEqual(['copy.js']);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildCallGraph, callersOf, calleesOf, formatCallGraph } from '../callGraph.js';
+import { createLineSourceMap } from './helpers.js';
+
+const code = [
+  'function sign(a) { return hash(a); }',
+  'function hash(x) { return x; }',
+  'var request = function(d) { return sign.call(null, d); };',
+  'const api = (q) => { [q].forEach(function(z) { request(z); }); };',
+  'class Client {',
+  '  run() { return this.send(); }',
+  '  send() { return sign(1); }',
+  '}',
+  'api(1);',
+  'unknown();',
+].join('\n');
+
+describe('buildCallGraph', () => {
+  it('should collect functions, arrows and class methods as nodes', async () => {
+    const graph = await buildCallGraph(code, createLineSourceMap(code));
+
+    expect(graph.nodes.map(node => [node.id, node.kind])).toEqual([
+      ['<program>', 'program'],
+      ['sign@1:9', 'function'],
+      ['hash@2:9', 'function'],
+      ['request@3:4', 'function'],
+      ['api@4:6', 'arrow'],
+      ['Client.run@6:2', 'method'],
+      ['Client.send@7:2', 'method'],
+    ]);
+    expect(graph.nodes[1].location.originalPosition).toMatchObject({ line: 1, column: 0 });
+  });
+
+  it('should resolve calls through bindings, call/apply, this and callbacks', async () => {
+    const graph = await buildCallGraph(code, createLineSourceMap(code));
+
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.callSite.line])).toEqual([
+      ['sign@1:9', 'hash@2:9', 1],
+      ['request@3:4', 'sign@1:9', 3],
+      ['api@4:6', 'request@3:4', 4],
+      ['Client.run@6:2', 'Client.send@7:2', 6],
+      ['Client.send@7:2', 'sign@1:9', 7],
+      ['<program>', 'api@4:6', 9],
+    ]);
+    // forEach and unknown()
+    expect(graph.unresolvedCalls).toBe(2);
+  });
+});
+
+describe('callersOf / calleesOf', () => {
+  it('should follow callers up to the depth limit', async () => {
+    const graph = await buildCallGraph(code, createLineSourceMap(code));
+
+    const direct = callersOf(graph, 'sign');
+    expect(direct.nodes.map(node => [node.name, node.depth])).toEqual([
+      ['sign', 0],
+      ['request', 1],
+      ['Client.send', 1],
+    ]);
+
+    const all = callersOf(graph, 'sign', 10);
+    expect(all.nodes.map(node => node.name)).toEqual(['<program>', 'sign', 'request', 'api', 'Client.run', 'Client.send']);
+    expect(all.edges).toHaveLength(5);
+  });
+
+  it('should follow callees by node id', async () => {
+    const graph = await buildCallGraph(code, createLineSourceMap(code));
+
+    const callees = calleesOf(graph, 'api@4:6', 2);
+    expect(callees.nodes.map(node => [node.name, node.depth])).toEqual([
+      ['sign', 2],
+      ['request', 1],
+      ['api', 0],
+    ]);
+  });
+});
+
+describe('formatCallGraph', () => {
+  it('should format DOT with original positions', async () => {
+    const graph = await buildCallGraph(code, createLineSourceMap(code));
+    const dot = formatCallGraph(callersOf(graph, 'hash'), 'dot');
+
+    expect(dot).toBe([
+      'digraph calls {',
+      '  "sign@1:9" [label="sign\\nL1:0"];',
+      '  "hash@2:9" [label="hash\\nL2:0"];',
+      '  "sign@1:9" -> "hash@2:9" [label="L1:0"];',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should format JSON', async () => {
+    const graph = await buildCallGraph(code, createLineSourceMap(code));
+    expect(JSON.parse(formatCallGraph(graph))).toEqual(JSON.parse(JSON.stringify(graph)));
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeCss } from '../cssTokenizer.js';
+
+describe('tokenizeCss', () => {
+  it('should reproduce the input when raw token text is concatenated', () => {
+    const css = '@media (min-width:1px){a:hover{content:"}";background:url(x.png)}}/* c */';
+    expect(tokenizeCss(css).map(t => t.raw).join('')).toBe(css);
+  });
+
+  it('should keep strings and comments as single tokens', () => {
+    const tokens = tokenizeCss('a{content:"a;b}"/* x;y */}');
+    expect(tokens.find(t => t.type === 'string')?.raw).toBe('"a;b}"');
+    expect(tokens.find(t => t.type === 'comment')?.raw).toBe('/* x;y */');
+    expect(tokens.filter(t => t.type === 'semicolon')).toHaveLength(0);
+  });
+
+  it('should keep unquoted url() values as a single token', () => {
+    const tokens = tokenizeCss('b:url( data:image/svg+xml;base64,PHN2Zz4= )');
+    expect(tokens.map(t => t.type)).toEqual(['other', 'colon', 'url']);
+    expect(tokens[2].raw).toBe('url( data:image/svg+xml;base64,PHN2Zz4= )');
+  });
+
+  it('should tokenize quoted url() as function call with string', () => {
+    const tokens = tokenizeCss('url("a;b")');
+    expect(tokens.map(t => t.type)).toEqual(['other', 'openParen', 'string', 'closeParen']);
+  });
+
+  it('should throw on unterminated strings and comments', () => {
+    expect(() => tokenizeCss('a{content:"abc}')).toThrow('Unterminated string');
+    expect(() => tokenizeCss('a{}/* open')).toThrow('Unterminated comment');
+  });
+});
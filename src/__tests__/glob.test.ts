@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { globToRegExp, findFiles } from '../glob.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const TEST_DIR = path.join(os.tmpdir(), 'smart-fs-test-glob');
+
+describe('globToRegExp', () => {
+  it('should match file names at any depth when the pattern has no slash', () => {
+    const regex = globToRegExp('*.js');
+    expect(regex.test('app.js')).toBe(true);
+    expect(regex.test('static/js/app.js')).toBe(true);
+    expect(regex.test('app.json')).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash to the root', () => {
+    const regex = globToRegExp('static/*.js');
+    expect(regex.test('static/app.js')).toBe(true);
+    expect(regex.test('static/js/app.js')).toBe(false);
+    expect(regex.test('other/static/app.js')).toBe(false);
+  });
+
+  it('should support globstars, alternatives and character classes', () => {
+    expect(globToRegExp('src/**/*.{js,mjs}').test('src/a/b/c.mjs')).toBe(true);
+    expect(globToRegExp('src/**/*.{js,mjs}').test('src/c.js')).toBe(true);
+    expect(globToRegExp('chunk-[0-9].js').test('chunk-7.js')).toBe(true);
+    expect(globToRegExp('chunk-[0-9].js').test('chunk-a.js')).toBe(false);
+  });
+
+  it('should reject unclosed alternatives and invalid character classes', () => {
+    expect(() => globToRegExp('*.{js')).toThrow('Invalid glob pattern: *.{js (unclosed "{")');
+    expect(() => globToRegExp('chunk-[z-a].js')).toThrow('Invalid glob pattern: chunk-[z-a].js (invalid character class)');
+  });
+
+  it('should match a directory itself with a trailing globstar', () => {
+    const regex = globToRegExp('**/node_modules/**');
+    expect(regex.test('node_modules')).toBe(true);
+    expect(regex.test('a/node_modules/pkg/index.js')).toBe(true);
+    expect(regex.test('a/node_modules_old/index.js')).toBe(false);
+  });
+});
+
+describe('findFiles', () => {
+  beforeAll(async () => {
+    await fs.mkdir(path.join(TEST_DIR, 'js', 'vendor'), { recursive: true });
+    await fs.mkdir(path.join(TEST_DIR, 'node_modules', 'pkg'), { recursive: true });
+    await fs.writeFile(path.join(TEST_DIR, 'index.html'), '', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'js', 'app.js'), '', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'js', 'vendor', 'lib.js'), '', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'node_modules', 'pkg', 'index.js'), '', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should return every file by default, sorted', async () => {
+    const files = await findFiles(TEST_DIR);
+    expect(files.map(file => path.relative(TEST_DIR, file))).toEqual([
+      'index.html',
+      path.join('js', 'app.js'),
+      path.join('js', 'vendor', 'lib.js'),
+      path.join('node_modules', 'pkg', 'index.js'),
+    ]);
+  });
+
+  it('should apply include and exclude patterns', async () => {
+    const files = await findFiles(TEST_DIR, {
+      include: ['*.js'],
+      exclude: ['**/node_modules/**', 'vendor'],
+    });
+    expect(files).toEqual([path.join(TEST_DIR, 'js', 'app.js')]);
+  });
+});
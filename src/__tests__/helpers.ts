@@ -0,0 +1,14 @@
+import type { SourceMap } from '../beautifier.js';
+
+/**
+ * Create a source map that maps each line to the same original line
+ */
+export function createLineSourceMap(code: string): SourceMap {
+  const lineCount = code.split('\n').length;
+  return {
+    version: 3,
+    sources: ['input.js'],
+    names: [],
+    mappings: ['AAAA', ...new Array(lineCount - 1).fill('AACA')].join(';'),
+  };
+}
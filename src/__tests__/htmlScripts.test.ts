@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createScriptDocuments } from '../htmlScripts.js';
+import { beautifyHtml } from '../beautifier.js';
+import { analyzeBindings } from '../analyzer.js';
+
+describe('createScriptDocuments', () => {
+  it('should keep script lines and blank everything else', () => {
+    const code = ['<script>', '  var a = 1;', '</script>', '<p>x</p>'].join('\n');
+    const documents = createScriptDocuments(code, [{ startLine: 2, endLine: 2, isModule: false }]);
+
+    expect(documents).toEqual([['', '  var a = 1;', ';', ''].join('\n')]);
+  });
+
+  it('should combine classic scripts and separate module scripts', () => {
+    const code = ['a', 'b', 'c', 'd', 'e'].join('\n');
+    const documents = createScriptDocuments(code, [
+      { startLine: 1, endLine: 1, isModule: false },
+      { startLine: 3, endLine: 3, isModule: true },
+      { startLine: 5, endLine: 5, isModule: false },
+    ]);
+
+    expect(documents).toHaveLength(2);
+    expect(documents[0].split('\n')).toEqual(['a', ';', '', '', 'e']);
+    expect(documents[1].split('\n')).toEqual(['', '', 'c', ';', '']);
+  });
+
+  it('should return no documents without scripts', () => {
+    expect(createScriptDocuments('<p>x</p>', [])).toEqual([]);
+  });
+});
+
+describe('inline script analysis', () => {
+  const html = [
+    '<html><body>',
+    '<script>var _0x3f=["a","b"];function dec(i){return _0x3f[i]}</script>',
+    '<div>text</div>',
+    '<script>console.log(dec(0), _0x3f.length)</script>',
+    '<script type="module">const _0x3f = 1; export { _0x3f };</script>',
+    '</body></html>',
+  ].join('\n');
+
+  it('should record script regions in beautified HTML', () => {
+    const result = beautifyHtml(html);
+    const lines = result.code.split('\n');
+
+    expect(result.scriptRegions).toHaveLength(3);
+    expect(result.scriptRegions.map(r => r.isModule)).toEqual([false, false, true]);
+    const first = result.scriptRegions[0];
+    expect(lines.slice(first.startLine - 1, first.endLine).join('\n')).toContain('function dec(i)');
+  });
+
+  it('should resolve globals across classic scripts with original HTML positions', async () => {
+    const result = beautifyHtml(html);
+    const documents = createScriptDocuments(result.code, result.scriptRegions);
+
+    const classic = await analyzeBindings(documents[0], result.map!, '_0x3f');
+    expect(classic.bindings).toHaveLength(1);
+    expect(classic.bindings[0].totalReferences).toBe(2);
+    // Definition maps back to line 2 of the original HTML
+    expect(classic.bindings[0].definition.originalPosition.line).toBe(2);
+    const lastRef = classic.bindings[0].references[1];
+    expect(lastRef.originalPosition.line).toBe(4);
+    expect(lastRef.lineContent).toContain('_0x3f.length');
+
+    const module = await analyzeBindings(documents[1], result.map!, '_0x3f');
+    expect(module.bindings).toHaveLength(1);
+    expect(module.bindings[0].kind).toBe('const');
+    expect(module.bindings[0].definition.originalPosition.line).toBe(5);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeHtml, getScriptKind } from '../htmlTokenizer.js';
+
+describe('tokenizeHtml', () => {
+  it('should reproduce the input when raw token text is concatenated', () => {
+    const html = '<!DOCTYPE html><html><!-- note --><body class="a>b">Hi <b>there</b> 1 < 2</body></html>';
+    const tokens = tokenizeHtml(html);
+    expect(tokens.map(t => t.raw).join('')).toBe(html);
+  });
+
+  it('should recognize tag types and names', () => {
+    const tokens = tokenizeHtml('<DIV id=x><br/><!-- c --></div>');
+    expect(tokens.map(t => t.type)).toEqual(['startTag', 'startTag', 'comment', 'endTag']);
+    expect(tokens[0].name).toBe('div');
+    expect(tokens[0].attributes).toEqual([{ name: 'id', value: 'x' }]);
+    expect(tokens[1].selfClosing).toBe(true);
+    expect(tokens[3].name).toBe('div');
+  });
+
+  it('should keep quoted attribute values containing ">" inside the tag', () => {
+    const tokens = tokenizeHtml('<a title="x > y" data-v=\'<p>\' hidden>link</a>');
+    expect(tokens[0].raw).toBe('<a title="x > y" data-v=\'<p>\' hidden>');
+    expect(tokens[0].attributes).toEqual([
+      { name: 'title', value: 'x > y' },
+      { name: 'data-v', value: '<p>' },
+      { name: 'hidden', value: null },
+    ]);
+  });
+
+  it('should treat script and style content as raw text', () => {
+    const tokens = tokenizeHtml('<script>if (a<b) { x = "</div>"; }</script><style>a>b{}</style>');
+    expect(tokens.map(t => t.type)).toEqual(['startTag', 'rawText', 'endTag', 'startTag', 'rawText', 'endTag']);
+    expect(tokens[1].raw).toBe('if (a<b) { x = "</div>"; }');
+    expect(tokens[1].name).toBe('script');
+    expect(tokens[4].raw).toBe('a>b{}');
+  });
+
+  it('should not treat script as raw text in XML mode', () => {
+    const tokens = tokenizeHtml('<script><a/></script>', { xml: true });
+    expect(tokens.map(t => t.type)).toEqual(['startTag', 'startTag', 'endTag']);
+  });
+
+  it('should tokenize CDATA and processing instructions', () => {
+    const tokens = tokenizeHtml('<?xml version="1.0"?><r><![CDATA[<not a tag>]]></r>', { xml: true });
+    expect(tokens.map(t => t.type)).toEqual(['processingInstruction', 'startTag', 'cdata', 'endTag']);
+  });
+});
+
+describe('getScriptKind', () => {
+  it('should classify script types', () => {
+    expect(getScriptKind([])).toBe('javascript');
+    expect(getScriptKind([{ name: 'type', value: 'module' }])).toBe('javascript');
+    expect(getScriptKind([{ name: 'type', value: 'text/javascript; charset=utf-8' }])).toBe('javascript');
+    expect(getScriptKind([{ name: 'type', value: 'application/ld+json' }])).toBe('json');
+    expect(getScriptKind([{ name: 'type', value: 'text/x-template' }])).toBe('other');
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { smartSearchFiles, smartSearchDir, findUsageInFiles, traceValue, smartRead, expandTruncation } from '../index.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { SourceMapConsumer } from 'source-map-js';
+
+const TEST_DIR = path.join(os.tmpdir(), 'smart-fs-test-index');
+
+describe('smartSearchFiles', () => {
+  beforeAll(async () => {
+    await fs.mkdir(path.join(TEST_DIR, 'node_modules'), { recursive: true });
+    await fs.writeFile(path.join(TEST_DIR, 'a.js'), 'function decrypt(a){return a}decrypt(1);decrypt(2);', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'b.js'), 'var x=decrypt(3);', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'notes.txt'), 'decrypt', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'node_modules', 'dep.js'), 'decrypt();', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should return per-file results and a combined output', async () => {
+    const result = await smartSearchFiles(
+      [path.join(TEST_DIR, 'a.js'), path.join(TEST_DIR, 'b.js')],
+      'decrypt',
+      { saveLocal: false }
+    );
+
+    expect(result.files.map(file => file.totalMatches)).toEqual([4, 1]);
+    expect(result.totalMatches).toBe(5);
+    expect(result.truncated).toBe(false);
+    expect(result.formatted).toContain('Files: 2 searched, 2 with matches');
+    expect(result.formatted).toContain(`=== ${path.join(TEST_DIR, 'b.js')} (matches: 1) ===`);
+  });
+
+  it('should share the maxMatches budget across files in order', async () => {
+    const result = await smartSearchFiles(
+      [path.join(TEST_DIR, 'a.js'), path.join(TEST_DIR, 'b.js')],
+      'decrypt',
+      { saveLocal: false, maxMatches: 2, concurrency: 1 }
+    );
+
+    expect(result.files[0].matches).toHaveLength(2);
+    expect(result.files[1].matches).toHaveLength(0);
+    expect(result.files[1].truncated).toBe(true);
+    expect(result.truncated).toBe(true);
+    expect(result.formatted).toContain('3 more matches not shown');
+  });
+
+  it('should report unreadable files as errors', async () => {
+    const result = await smartSearchFiles([path.join(TEST_DIR, 'missing.js')], 'decrypt', { saveLocal: false });
+
+    expect(result.files[0].error).toContain('File not found');
+    expect(result.formatted).toContain('Errors (1):');
+  });
+});
+
+describe('smartSearchDir', () => {
+  beforeAll(async () => {
+    await fs.mkdir(path.join(TEST_DIR, 'node_modules'), { recursive: true });
+    await fs.writeFile(path.join(TEST_DIR, 'a.js'), 'decrypt();', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'notes.txt'), 'decrypt', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'node_modules', 'dep.js'), 'decrypt();', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'a.beautified.js'), 'decrypt();', 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'a.js.map'), '{"decrypt":1}', 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should search supported files and skip node_modules by default', async () => {
+    const result = await smartSearchDir(TEST_DIR, 'decrypt', { saveLocal: false });
+
+    expect(result.files.map(file => path.relative(TEST_DIR, file.filePath))).toEqual(['a.js']);
+  });
+
+  it('should apply include and exclude globs and always skip beautified output and maps', async () => {
+    const result = await smartSearchDir(TEST_DIR, 'decrypt', {
+      saveLocal: false,
+      include: ['**/*.js', '**/*.map'],
+      exclude: [],
+    });
+
+    expect(result.files.map(file => path.relative(TEST_DIR, file.filePath))).toEqual([
+      'a.js',
+      path.join('node_modules', 'dep.js'),
+    ]);
+  });
+
+  it('should report a missing root directory', async () => {
+    const result = await smartSearchDir(path.join(TEST_DIR, 'missing'), 'decrypt');
+    expect(result.error).toBeDefined();
+  });
+
+  it('should report invalid glob patterns', async () => {
+    const result = await smartSearchDir(TEST_DIR, 'decrypt', { include: ['*.{js'] });
+    expect(result.error).toBe('Invalid glob pattern: *.{js (unclosed "{")');
+  });
+});
+
+describe('findUsageInFiles', () => {
+  const dir = path.join(TEST_DIR, 'project');
+
+  beforeAll(async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'crypto.js'), 'export function encrypt(d){return d}', 'utf-8');
+    await fs.writeFile(path.join(dir, 'main.js'), "import{encrypt as e}from'./crypto.js';e(1);", 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report references in importing files with original positions', async () => {
+    const result = await findUsageInFiles(
+      [path.join(dir, 'crypto.js'), path.join(dir, 'main.js'), path.join(dir, 'missing.js')],
+      'encrypt',
+      { saveLocal: false }
+    );
+
+    expect(result.symbols).toHaveLength(1);
+    const mainRefs = result.symbols[0].references.filter(ref => ref.filePath.endsWith('main.js'));
+    expect(mainRefs.length).toBe(2);
+    expect(mainRefs[1].originalPosition).toMatchObject({ line: 1, column: 38 });
+    expect(result.errors).toEqual([{ filePath: path.join(dir, 'missing.js'), error: expect.stringContaining('File not found') }]);
+    expect(result.formatted).toContain('exported as encrypt');
+  });
+});
+
+describe('traceValue', () => {
+  const dir = path.join(TEST_DIR, 'trace');
+  const minified = 'function s(t){return t+"!"}var h={sign:s(localStorage.k)};fetch("/api",{headers:h});';
+
+  beforeAll(async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'app.js'), minified, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should trace a value from an original position back to its sources', async () => {
+    const result = await traceValue(path.join(dir, 'app.js'), {
+      originalPosition: { line: 1, column: minified.indexOf('h}') },
+    }, { saveLocal: false });
+
+    expect(result.error).toBeUndefined();
+    expect(result.steps.map(step => step.kind)).toEqual([
+      'start', 'definition', 'literal', 'call', 'return', 'parameter', 'argument', 'property', 'global', 'literal',
+    ]);
+    expect(result.steps[1].originalPosition).toMatchObject({ line: 1, column: minified.indexOf('h=') });
+    expect(result.formatted).toContain('Trace=backward from original L1:');
+  });
+
+  it('should report missing files', async () => {
+    const result = await traceValue(path.join(dir, 'missing.js'), { identifier: 'h' });
+    expect(result.error).toContain('File not found');
+    expect(result.steps).toEqual([]);
+  });
+});
+
+describe('expandTruncation', () => {
+  const dir = path.join(TEST_DIR, 'expand');
+  const value = Array.from({ length: 100 }, (_, i) => `chunk${i}`).join('-');
+
+  beforeAll(async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'app.js'), `var a=1;var k="${value}",b=a;`, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should page through a value truncated by smartRead', async () => {
+    const filePath = path.join(dir, 'app.js');
+    const read = await smartRead(filePath, { saveLocal: false, startLine: 2 });
+    const [truncation] = read.truncations!;
+
+    expect(truncation).toMatchObject({ kind: 'string', length: value.length, range: { startLine: 2 } });
+    expect(truncation.originalRange?.start).toMatchObject({ line: 1, column: 14 });
+    expect(read.code).toContain(`#${truncation.id}]`);
+
+    // Columns after the shortened string still map to the minified file
+    const consumer = new SourceMapConsumer({ ...read.sourceMap!, version: String(read.sourceMap!.version) });
+    const line = read.code.split('\n')[0];
+    expect(consumer.originalPositionFor({ line: 2, column: line.indexOf('b =') }))
+      .toMatchObject({ line: 1, column: value.length + 17 });
+
+    const first = await expandTruncation(filePath, truncation.id, 0, 400, { saveLocal: false });
+    expect(first).toMatchObject({ content: value.slice(0, 400), offset: 0, totalLength: value.length, nextOffset: 400 });
+    const last = await expandTruncation(filePath, truncation.id, first.nextOffset, 10000, { saveLocal: false });
+    expect(last.content).toBe(value.slice(400));
+    expect(last.nextOffset).toBeUndefined();
+  });
+
+  it('should report unknown ids', async () => {
+    const result = await expandTruncation(path.join(dir, 'app.js'), '00000000', 0, 100, { saveLocal: false });
+    expect(result.error).toContain('Truncation not found');
+  });
+});
+
+describe('smartRead (output budget)', () => {
+  const dir = path.join(TEST_DIR, 'budget');
+  const calls = Array.from({ length: 40 }, (_, i) => `g${i}(${i});`).join('');
+
+  beforeAll(async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'calls.js'), calls, 'utf-8');
+    await fs.writeFile(path.join(dir, 'long.js'), `var s="${'q'.repeat(3000)}"+a;`, 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should page through a file within the budget', async () => {
+    const filePath = path.join(dir, 'calls.js');
+    const pages: string[] = [];
+    let startLine: number | undefined = 1;
+    while (startLine !== undefined && pages.length < 20) {
+      const result = await smartRead(filePath, { saveLocal: false, startLine, maxOutputChars: 50 });
+      expect(result.code.length).toBeLessThanOrEqual(50);
+      expect(result.totalLines).toBe(41);
+      pages.push(result.code);
+      startLine = result.nextStartLine;
+    }
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.join('\n')).toBe((await smartRead(filePath, { saveLocal: false })).code);
+  });
+
+  it('should page past strings holding escaped newlines', async () => {
+    const filePath = path.join(dir, 'escaped.js');
+    await fs.writeFile(filePath, `var a="${'x\\n'.repeat(150)}",b=1;function f(){return b}`, 'utf-8');
+    const pages: string[] = [];
+    let startLine: number | undefined = 1;
+    while (startLine !== undefined && pages.length < 20) {
+      const result = await smartRead(filePath, { saveLocal: false, startLine, maxOutputChars: 200 });
+      expect(result.code.split('\n').length).toBeLessThanOrEqual(result.totalLines!);
+      if (result.nextStartLine !== undefined) expect(result.nextStartLine).toBeGreaterThan(startLine);
+      pages.push(result.code);
+      startLine = result.nextStartLine;
+    }
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages.join('\n')).toContain('function f()');
+    expect(pages.join('\n')).toBe((await smartRead(filePath, { saveLocal: false })).code);
+  });
+
+  it('should only list the truncations of the page', async () => {
+    const filePath = path.join(dir, 'repeated.js');
+    const line = `s("${'r'.repeat(400)}");`;
+    await fs.writeFile(filePath, Array.from({ length: 30 }, (_, i) => (i % 10 === 0 ? line : `g(${i});`)).join('\n'), 'utf-8');
+    const result = await smartRead(filePath, { saveLocal: false, maxOutputChars: 200 });
+
+    expect(result.nextStartLine).toBeLessThanOrEqual(11);
+    expect(result.truncations!.map(truncation => truncation.range.startLine)).toEqual([1]);
+  });
+
+  it('should stop at endLine and tighten truncation when a line does not fit', async () => {
+    const filePath = path.join(dir, 'calls.js');
+    const ranged = await smartRead(filePath, { saveLocal: false, startLine: 3, endLine: 4, maxOutputChars: 1000 });
+    expect(ranged.code).toBe('g2(2);\ng3(3);');
+    expect(ranged.nextStartLine).toBe(5);
+
+    const long = await smartRead(path.join(dir, 'long.js'), { saveLocal: false, maxOutputChars: 100 });
+    expect(long.code.length).toBeLessThanOrEqual(100);
+    expect(long.truncateLimits).toEqual({ charLimit: 80, maxLineChars: 125, previewLength: 12 });
+    expect(long.nextStartLine).toBeUndefined();
+    const part = await expandTruncation(path.join(dir, 'long.js'), long.truncations![0].id, 0, 10, {
+      saveLocal: false,
+      ...long.truncateLimits,
+    });
+    expect(part.totalLength).toBe(3000);
+  });
+});
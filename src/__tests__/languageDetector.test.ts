@@ -37,7 +37,7 @@ describe('languageDetector', () => {
       expect(info.language).toBe('json');
       expect(info.supportsAST).toBe(false);
       expect(info.supportsBeautify).toBe(true);
-      expect(info.supportsSourceMap).toBe(false);
+      expect(info.supportsSourceMap).toBe(true);
     });
 
     it('should detect HTML files', () => {
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildOutline, formatOutline } from '../outline.js';
+import { createLineSourceMap } from './helpers.js';
+
+const code = [
+  '(function (global) {',
+  '  function sign(a, b = 1, ...rest) {',
+  '    return [a].map(function (x) {',
+  '      function inner() {}',
+  '      return x;',
+  '    });',
+  '  }',
+  '  class Client {',
+  '    send({ url }, [first]) {}',
+  '  }',
+  '  var table = { a: 1, b: 2, c: function (e) {}, d() {} };',
+  '  global.api = () => sign(1);',
+  '})(this);',
+].join('\n');
+
+describe('buildOutline', () => {
+  it('should list named functions, classes, methods, IIFEs and large objects', async () => {
+    const outline = await buildOutline(code, createLineSourceMap(code), { minObjectProperties: 4 });
+
+    expect(outline.entries.map(entry => [entry.kind, entry.name, entry.startLine, entry.endLine, entry.depth])).toEqual([
+      ['iife', '<anonymous>', 1, 13, 0],
+      ['function', 'sign', 2, 7, 1],
+      ['function', 'inner', 4, 4, 2],
+      ['class', 'Client', 8, 10, 1],
+      ['method', 'Client.send', 9, 9, 2],
+      ['object', 'table', 11, 11, 1],
+      ['function', 'c', 11, 11, 2],
+      ['method', 'd', 11, 11, 2],
+      ['function', 'global.api', 12, 12, 1],
+    ]);
+    expect(outline.entries[0].params).toEqual(['global']);
+    expect(outline.entries[1].params).toEqual(['a', 'b', '...rest']);
+    expect(outline.entries[4].params).toEqual(['{…}', '[…]']);
+    expect(outline.entries[5].properties).toBe(4);
+    expect(outline.entries[1].location.originalPosition).toMatchObject({ line: 2, column: 0 });
+    expect(outline.totalLines).toBe(13);
+  });
+
+  it('should filter by depth and size and paginate', async () => {
+    const shallow = await buildOutline(code, createLineSourceMap(code), { maxDepth: 1, minLines: 2 });
+    expect(shallow.entries.map(entry => entry.name)).toEqual(['<anonymous>', 'sign', 'Client']);
+
+    const page = await buildOutline(code, createLineSourceMap(code), { offset: 1, limit: 2 });
+    expect(page.entries.map(entry => entry.name)).toEqual(['sign', 'inner']);
+    expect(page.totalEntries).toBe(8);
+    expect(page.offset).toBe(1);
+  });
+});
+
+describe('formatOutline', () => {
+  it('should show line ranges, original positions and the next offset', async () => {
+    const outline = await buildOutline(code, createLineSourceMap(code), { limit: 2 });
+    const output = formatOutline('/app/bundle.js', outline);
+
+    expect(output).toContain('Lines: 13');
+    expect(output).toContain('Outline: 8 entries, showing 1-2');
+    expect(output).toContain('         1-13 L1:0       iife <anonymous>(global) [13 lines]');
+    expect(output).toContain('          2-7 L2:0         function sign(a, b, ...rest) [6 lines]');
+    expect(output).toContain('... (6 more entries; use offset 2)');
+  });
+
+  it('should report files without outline entries', async () => {
+    const outline = await buildOutline('var a = 1;', createLineSourceMap('var a = 1;'));
+    expect(formatOutline('/app/a.js', outline)).toContain('Outline: None');
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeProject, formatProjectAnalysisResult, type ProjectFile } from '../projectAnalyzer.js';
+import { createLineSourceMap } from './helpers.js';
+
+function createFile(filePath: string, code: string): ProjectFile {
+  return { filePath, code, rawMap: createLineSourceMap(code) };
+}
+
+describe('analyzeProject', () => {
+  it('should follow ES module imports, aliases and namespace members', async () => {
+    const result = await analyzeProject([
+      createFile('/app/src/crypto.js', [
+        'export function encrypt(data) {',
+        '  return data;',
+        '}',
+      ].join('\n')),
+      createFile('/app/src/main.js', [
+        "import { encrypt as enc } from './crypto.js';",
+        "import * as crypto from './crypto';",
+        'enc(1);',
+        'crypto.encrypt(2);',
+      ].join('\n')),
+    ], 'encrypt');
+
+    expect(result.symbols).toHaveLength(1);
+    const [symbol] = result.symbols;
+    expect(symbol.exportedAs).toEqual(['encrypt']);
+    expect(symbol.definition).toMatchObject({ filePath: '/app/src/crypto.js', line: 1 });
+    expect(symbol.references.map(ref => [ref.filePath, ref.line])).toEqual([
+      ['/app/src/main.js', 1],
+      ['/app/src/main.js', 3],
+      ['/app/src/main.js', 4],
+    ]);
+  });
+
+  it('should resolve imported local names back to their definition', async () => {
+    const result = await analyzeProject([
+      createFile('/app/a.js', 'export const token = 1;'),
+      createFile('/app/b.js', "import { token as t } from './a';\nconsole.log(t);"),
+    ], 't');
+
+    expect(result.symbols).toHaveLength(1);
+    expect(result.symbols[0].definition.filePath).toBe('/app/a.js');
+    expect(result.symbols[0].totalReferences).toBe(2);
+  });
+
+  it('should follow re-exports', async () => {
+    const result = await analyzeProject([
+      createFile('/app/lib/sign.js', 'export function sign() {}'),
+      createFile('/app/lib/index.js', "export { sign as signRequest } from './sign.js';"),
+      createFile('/app/main.js', "import { signRequest } from './lib';\nsignRequest();"),
+    ], 'sign');
+
+    expect(result.symbols).toHaveLength(1);
+    expect(result.symbols[0].references.map(ref => ref.filePath)).toEqual(['/app/main.js', '/app/main.js']);
+  });
+
+  it('should follow CommonJS require and exports', async () => {
+    const result = await analyzeProject([
+      createFile('/app/util.js', [
+        'function encode(value) {',
+        '  return value;',
+        '}',
+        'module.exports = { encode };',
+      ].join('\n')),
+      createFile('/app/main.js', [
+        "const { encode } = require('./util');",
+        "const util = require('./util');",
+        'encode(1);',
+        'util.encode(2);',
+      ].join('\n')),
+    ], 'encode');
+
+    expect(result.symbols).toHaveLength(1);
+    expect(result.symbols[0].references.map(ref => [ref.filePath, ref.line])).toEqual([
+      ['/app/util.js', 4],
+      ['/app/main.js', 1],
+      ['/app/main.js', 3],
+      ['/app/main.js', 4],
+    ]);
+  });
+
+  it('should follow webpack module ids and __webpack_require__.d exports', async () => {
+    const bundle = [
+      '(self.webpackChunk = self.webpackChunk || []).push([[1], {',
+      '  12: function(e, t, n) {',
+      '    n.d(t, { Z: function() { return r; } });',
+      '    function r(a) { return a * 2; }',
+      '  },',
+      '  34: function(e, t, n) {',
+      '    var o = n(12);',
+      '    console.log((0, o.Z)(5));',
+      '  }',
+      '}]);',
+    ].join('\n');
+
+    const result = await analyzeProject([createFile('/app/chunk.js', bundle)], 'Z');
+
+    expect(result.symbols).toHaveLength(1);
+    const [symbol] = result.symbols;
+    expect(symbol.exportedAs).toEqual(['Z']);
+    expect(symbol.definition).toMatchObject({ line: 4, moduleId: '12' });
+    expect(symbol.references.map(ref => [ref.line, ref.moduleId])).toEqual([
+      [3, '12'],
+      [8, '34'],
+    ]);
+  });
+
+  it('should follow browserify dependency maps', async () => {
+    const bundle = [
+      'require = (function() {})()({',
+      '  1: [function(require, module, exports) {',
+      '    var b = require("./b");',
+      '    b.sign(2);',
+      '  }, { "./b": 2 }],',
+      '  2: [function(require, module, exports) {',
+      '    exports.sign = function(x) { return -x; };',
+      '  }, {}]',
+      '}, {}, [1]);',
+    ].join('\n');
+
+    const result = await analyzeProject([createFile('/app/bundle.js', bundle)], 'sign');
+
+    expect(result.symbols).toHaveLength(1);
+    const [symbol] = result.symbols;
+    expect(symbol.definition).toMatchObject({ line: 7, moduleId: '2' });
+    expect(symbol.references.map(ref => [ref.line, ref.moduleId])).toEqual([[4, '1']]);
+  });
+
+  it('should keep unrelated bindings with the same name separate', async () => {
+    const result = await analyzeProject([
+      createFile('/app/a.js', 'function helper() {}\nhelper();'),
+      createFile('/app/b.js', 'function helper() {}\nhelper();'),
+    ], 'helper');
+
+    expect(result.symbols).toHaveLength(2);
+    expect(result.symbols.every(symbol => symbol.totalReferences === 1)).toBe(true);
+  });
+
+  it('should report files that fail to parse', async () => {
+    const result = await analyzeProject([createFile('/app/broken.js', 'function (')], 'x');
+
+    expect(result.filesAnalyzed).toBe(0);
+    expect(result.errors[0].filePath).toBe('/app/broken.js');
+  });
+});
+
+describe('formatProjectAnalysisResult', () => {
+  it('should group references by file and module', async () => {
+    const result = await analyzeProject([
+      createFile('/app/a.js', 'export function run() {}'),
+      createFile('/app/b.js', "import { run } from './a.js';\nrun();"),
+    ], 'run');
+
+    const output = formatProjectAnalysisResult(result);
+
+    expect(output).toContain('Identifier="run"');
+    expect(output).toContain('Files: 2 analyzed');
+    expect(output).toContain('--- Symbol #1 (hoisted) exported as run ---');
+    expect(output).toContain('📍 Definition: /app/a.js');
+    expect(output).toContain('🔎 References (2):\n  /app/b.js');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { createRegex, searchInCode, formatSearchResult, formatSourcePosition } from '../searcher.js';
+import { SourceMapGenerator } from 'source-map-js';
 import type { SourceMap } from '../beautifier.js';
 
 // Helper to create a minimal source map for testing
@@ -146,6 +147,62 @@ function process(data) {
 
     expect(result.matches.length).toBe(0);
   });
+  it('should record the column and length of each match', () => {
+    const result = searchInCode(sampleCode, sourceMap, { query: 'console.log' });
+
+    expect(result.matches[0].column).toBe(2);
+    expect(result.matches[0].length).toBe('console.log'.length);
+  });
+
+  it('should map the match start instead of the line start', () => {
+    // One minified line: "var a=1;var b=decrypt(a);"
+    const generator = new SourceMapGenerator();
+    generator.addMapping({ generated: { line: 1, column: 0 }, original: { line: 1, column: 0 }, source: 'app.min.js' });
+    generator.addMapping({ generated: { line: 2, column: 0 }, original: { line: 1, column: 8 }, source: 'app.min.js' });
+    generator.addMapping({ generated: { line: 2, column: 8 }, original: { line: 1, column: 14 }, source: 'app.min.js' });
+    const map = { version: 3, ...generator.toJSON() } as unknown as SourceMap;
+    const code = 'var a = 1;\nvar b = decrypt(a);';
+
+    const result = searchInCode(code, map, { query: 'decrypt' });
+
+    expect(result.matches[0].column).toBe(8);
+    expect(result.matches[0].originalPosition).toMatchObject({ line: 1, column: 14 });
+  });
+
+  it('should return every match on a line with allMatchesPerLine', () => {
+    const code = 'a(); a(); b();\na();';
+    const map = createTestSourceMap(2);
+
+    const deduped = searchInCode(code, map, { query: 'a()' });
+    expect(deduped.matches.map(m => [m.lineNumber, m.column])).toEqual([[1, 0], [2, 0]]);
+
+    const all = searchInCode(code, map, { query: 'a()', allMatchesPerLine: true });
+    expect(all.totalMatches).toBe(3);
+    expect(all.matches.map(m => [m.lineNumber, m.column])).toEqual([[1, 0], [1, 5], [2, 0]]);
+  });
+
+  it('should report authored positions when an authoredMap is given', () => {
+    const authoredMap = { ...sourceMap, sources: ['src/app.ts'] };
+    const result = searchInCode(sampleCode, sourceMap, {
+      query: 'Processing',
+      authoredMap,
+    });
+
+    expect(result.matches[0].authoredPosition).toEqual({
+      source: 'src/app.ts',
+      line: 1,
+      column: 0,
+      name: null,
+    });
+    const formatted = formatSearchResult('app.min.js', 'Processing', false, result);
+    expect(formatted).toContain('↳ authored: src/app.ts L1:0');
+  });
+
+  it('should omit authored positions without an authoredMap', () => {
+    const result = searchInCode(sampleCode, sourceMap, { query: 'Processing' });
+    expect(result.matches[0].authoredPosition).toBeUndefined();
+  });
+
 });
 
 describe('formatSourcePosition', () => {
@@ -181,6 +238,15 @@ line5`;
     expect(output).toContain('Matches: None');
   });
 
+  it('should show the source only when it differs from the file being read', () => {
+    const searchResult = searchInCode(sampleCode, sourceMap, { query: 'match' });
+
+    expect(searchResult.matches[0].originalPosition.source).toBe('test.js');
+    expect(formatSearchResult('/test/test.js', 'match', false, searchResult)).not.toContain('↳ source:');
+    expect(formatSearchResult('/test/other.js', 'match', false, searchResult))
+      .toContain('↳ source: test.js L1:0');
+  });
+
   it('should format matches with context', () => {
     const searchResult = searchInCode(sampleCode, sourceMap, {
       query: 'match',
@@ -199,6 +265,8 @@ line5`;
     const result = {
       matches: [{
         lineNumber: 3,
+        column: 0,
+        length: 5,
         lineContent: 'match here',
         originalPosition: { line: 1, column: 0 },
         contextBefore: [],
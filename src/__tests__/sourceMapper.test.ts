@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { SourceMapConsumer, SourceMapGenerator } from 'source-map-js';
+import {
+  findSourceMappingUrl,
+  neutralizeSourceMappingUrls,
+  loadUpstreamSourceMap,
+  composeSourceMaps,
+  offsetSourceMapLines,
+  isSameSourceFile,
+} from '../sourceMapper.js';
+import type { SourceMap } from '../beautifier.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const TEST_DIR = path.join(os.tmpdir(), 'smart-fs-test-source-mapper');
+
+/**
+ * Build a map with one mapping per [generatedLine, generatedColumn, originalLine, originalColumn]
+ */
+function buildMap(source: string, mappings: Array<[number, number, number, number]>): SourceMap {
+  const generator = new SourceMapGenerator();
+  for (const [line, column, originalLine, originalColumn] of mappings) {
+    generator.addMapping({
+      generated: { line, column },
+      original: { line: originalLine, column: originalColumn },
+      source,
+    });
+  }
+  const json = generator.toJSON();
+  return { version: 3, sources: json.sources, names: json.names, mappings: json.mappings };
+}
+
+describe('findSourceMappingUrl', () => {
+  it('should return the last sourceMappingURL comment', () => {
+    const code = 'a();\n//# sourceMappingURL=old.map\nb();\n//# sourceMappingURL=app.js.map\n';
+    expect(findSourceMappingUrl(code)).toBe('app.js.map');
+  });
+
+  it('should recognize block comments and the legacy @ form', () => {
+    expect(findSourceMappingUrl('a{}\n/*# sourceMappingURL=style.css.map */')).toBe('style.css.map');
+    expect(findSourceMappingUrl('a();\n//@ sourceMappingURL=app.map')).toBe('app.map');
+  });
+
+  it('should ignore sourceMappingURL inside strings', () => {
+    expect(findSourceMappingUrl('var s = "//# sourceMappingURL=x.map";')).toBeNull();
+  });
+});
+
+describe('neutralizeSourceMappingUrls', () => {
+  it('should disable the comment without changing the code length', () => {
+    const code = 'a();\n//# sourceMappingURL=app.js.map';
+    const neutralized = neutralizeSourceMappingUrls(code);
+    expect(neutralized.length).toBe(code.length);
+    expect(findSourceMappingUrl(neutralized)).toBeNull();
+  });
+});
+
+describe('loadUpstreamSourceMap', () => {
+  const map = buildMap('src/app.ts', [[1, 0, 1, 0]]);
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(TEST_DIR, 'maps'), { recursive: true });
+    await fs.writeFile(path.join(TEST_DIR, 'maps', 'app.map'), JSON.stringify(map), 'utf-8');
+    await fs.writeFile(path.join(TEST_DIR, 'sibling.js.map'), JSON.stringify(map), 'utf-8');
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should load a map relative to the file', async () => {
+    const filePath = path.join(TEST_DIR, 'app.js');
+    const loaded = await loadUpstreamSourceMap(filePath, 'a();\n//# sourceMappingURL=maps/app.map');
+    expect(loaded?.sources).toEqual(['src/app.ts']);
+  });
+
+  it('should decode inline data: URLs', async () => {
+    const url = `data:application/json;charset=utf-8;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}`;
+    const loaded = await loadUpstreamSourceMap(path.join(TEST_DIR, 'inline.js'), `a();\n//# sourceMappingURL=${url}`);
+    expect(loaded?.mappings).toBe(map.mappings);
+  });
+
+  it('should fall back to a sibling .map file', async () => {
+    const loaded = await loadUpstreamSourceMap(path.join(TEST_DIR, 'sibling.js'), 'a();');
+    expect(loaded?.sources).toEqual(['src/app.ts']);
+  });
+
+  it('should return null for missing or remote maps', async () => {
+    expect(await loadUpstreamSourceMap(path.join(TEST_DIR, 'none.js'), 'a();')).toBeNull();
+    expect(await loadUpstreamSourceMap(
+      path.join(TEST_DIR, 'remote.js'),
+      'a();\n//# sourceMappingURL=https://example.com/app.js.map'
+    )).toBeNull();
+  });
+});
+
+describe('composeSourceMaps', () => {
+  it('should map generated positions through both maps', () => {
+    // beautified L3:2 -> minified L1:10 -> authored L7:4
+    const outer = buildMap('app.min.js', [[3, 2, 1, 10]]);
+    const inner = buildMap('src/app.ts', [[1, 10, 7, 4]]);
+
+    const composed = composeSourceMaps(outer, inner);
+    const consumer = new SourceMapConsumer({ ...composed, version: '3' });
+    const pos = consumer.originalPositionFor({ line: 3, column: 2 });
+
+    expect(composed.sources).toEqual(['src/app.ts']);
+    expect(pos).toMatchObject({ source: 'src/app.ts', line: 7, column: 4 });
+  });
+});
+
+describe('offsetSourceMapLines', () => {
+  it('should shift generated and original lines', () => {
+    const map = buildMap('range.js', [[1, 4, 1, 6], [2, 0, 2, 0]]);
+
+    const shifted = offsetSourceMapLines(map, 10);
+    const consumer = new SourceMapConsumer({ ...shifted, version: '3' });
+
+    expect(consumer.originalPositionFor({ line: 11, column: 4 })).toMatchObject({ line: 11, column: 6 });
+    expect(consumer.originalPositionFor({ line: 12, column: 0 })).toMatchObject({ line: 12, column: 0 });
+    expect(offsetSourceMapLines(map, 0)).toBe(map);
+  });
+});
+
+describe('isSameSourceFile', () => {
+  it('should match sources relative to the map', () => {
+    expect(isSameSourceFile('app.js', '/site/js/app.js')).toBe(true);
+    expect(isSameSourceFile('../../site/js/app.js', '/site/js/app.js')).toBe(true);
+    expect(isSameSourceFile('webpack://app/./js/app.js', '/site/js/app.js')).toBe(true);
+  });
+
+  it('should reject other files', () => {
+    expect(isSameSourceFile('src/app.ts', '/site/js/app.js')).toBe(false);
+    expect(isSameSourceFile('other/app.js', '/site/js/app.js')).toBe(false);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { truncateCodeHighPerf } from '../truncator.js';
+import { SourceMapConsumer } from 'source-map-js';
+import { parse } from 'meriyah';
+import { truncateCodeHighPerf, truncateCode, getTruncatedValue } from '../truncator.js';
 
 describe('truncateCodeHighPerf', () => {
   it('should return original code for short strings', () => {
@@ -13,7 +15,7 @@ describe('truncateCodeHighPerf', () => {
     const code = `const x = "${longString}";`;
     const result = truncateCodeHighPerf(code, 200);
     
-    expect(result).toContain('[TRUNCATED 300 CHARS]');
+    expect(result).toMatch(/\[TRUNCATED 300 CHARS #[0-9a-f]{8}\]/);
     expect(result.length).toBeLessThan(code.length);
   });
 
@@ -33,7 +35,7 @@ describe('truncateCodeHighPerf', () => {
     const code = `const x = \`${longString}\`;`;
     const result = truncateCodeHighPerf(code, 200);
     
-    expect(result).toContain('[TRUNCATED 300 CHARS]');
+    expect(result).toMatch(/\[TRUNCATED 300 CHARS #[0-9a-f]{8}\]/);
   });
 
   it('should return original code when AST parsing fails', () => {
@@ -52,7 +54,7 @@ describe('truncateCodeHighPerf', () => {
     
     // With lower limit 100, should truncate
     const result2 = truncateCodeHighPerf(code, 100);
-    expect(result2).toContain('[TRUNCATED 150 CHARS]');
+    expect(result2).toMatch(/\[TRUNCATED 150 CHARS #[0-9a-f]{8}\]/);
   });
 
   it('should handle multiple strings in code', () => {
@@ -61,9 +63,147 @@ describe('truncateCodeHighPerf', () => {
     const code = `const a = "${longString1}"; const b = "${longString2}";`;
     const result = truncateCodeHighPerf(code, 200);
     
-    expect(result).toContain('[TRUNCATED 250 CHARS]');
+    expect(result).toContain('[TRUNCATED 250 CHARS #');
     // Should truncate both strings
-    const matches = result.match(/\[TRUNCATED 250 CHARS\]/g);
+    const matches = result.match(/\[TRUNCATED 250 CHARS #[0-9a-f]{8}\]/g);
     expect(matches?.length).toBe(2);
   });
 });
+
+describe('truncateCode', () => {
+  it('should list truncations with stable ids and ranges', () => {
+    const longString = 'a'.repeat(300);
+    const code = `const x = 1;\nconst y = "${longString}";`;
+    const result = truncateCode(code, { language: 'javascript' });
+
+    expect(result.truncations).toEqual([{
+      id: expect.stringMatching(/^[0-9a-f]{8}$/),
+      kind: 'string',
+      range: { startLine: 2, startColumn: 10, endLine: 2, endColumn: 312 },
+      length: 300,
+    }]);
+    expect(result.code).toContain(`#${result.truncations[0].id}]`);
+    expect(truncateCode(`var z = "${longString}";`, { language: 'javascript' }).truncations[0].id)
+      .toBe(result.truncations[0].id);
+  });
+
+  it('should list truncated lines with their full content', () => {
+    const line = `x = ${'a + '.repeat(200)}a;`;
+    const result = truncateCode(`a = 1;\n${line}`, { language: 'javascript', maxLineChars: 500 });
+
+    expect(result.truncations).toHaveLength(1);
+    expect(result.truncations[0]).toMatchObject({ kind: 'line', range: { startLine: 2, endColumn: line.length }, length: line.length });
+    expect(result.code).toContain(`[LINE TRUNCATED ${line.length - 100} CHARS #${result.truncations[0].id}]`);
+  });
+});
+
+describe('truncateCode (large literals)', () => {
+  const array = [
+    'var table = [',
+    ...Array.from({ length: 30 }, (_, i) => `  ${i},`),
+    '];',
+    'run(table);',
+  ].join('\n');
+
+  it('should collapse the middle of large arrays and keep line numbers', () => {
+    const result = truncateCode(array, { language: 'javascript', maxElements: 20, previewElements: 2 });
+    const lines = result.code.split('\n');
+
+    expect(lines).toHaveLength(array.split('\n').length);
+    expect(lines[2]).toMatch(/^  1, \/\* \.\.\.\[TRUNCATED 26 ELEMENTS #[0-9a-f]{8}\]\.\.\. \*\/$/);
+    expect(lines[29]).toBe('  28,');
+    expect(lines[32]).toBe('run(table);');
+    expect(result.truncations).toEqual([{
+      id: expect.stringMatching(/^[0-9a-f]{8}$/),
+      kind: 'elements',
+      range: { startLine: 4, startColumn: 2, endLine: 29, endColumn: 4 },
+      length: array.indexOf('27') + 2 - array.indexOf('2,'),
+    }]);
+    expect(getTruncatedValue(array, result.truncations[0].id, { language: 'javascript', maxElements: 20, previewElements: 2 }))
+      .toMatch(/^2,\n  3,[\s\S]*\n  27$/);
+  });
+
+  it('should collapse large objects and skip strings inside the collapsed part', () => {
+    const properties = Array.from({ length: 30 }, (_, i) => `k${i}: "${'x'.repeat(i === 15 ? 300 : 1)}"`);
+    const code = `var o = {${properties.join(', ')}};`;
+    const result = truncateCode(code, { language: 'javascript', maxElements: 20, previewElements: 2 });
+
+    expect(result.code).toMatch(/^var o = \{k0: "x", k1: "x", \/\* \.\.\.\[TRUNCATED 26 ELEMENTS #[0-9a-f]{8}\]\.\.\. \*\/ k28: "x", k29: "x"\};$/);
+    expect(result.truncations.map(truncation => truncation.kind)).toEqual(['elements']);
+  });
+
+  it('should leave literals holding code intact', () => {
+    const modules = `var m = {${Array.from({ length: 30 }, (_, i) => `${i}: function (e) { e.exports = ${i}; }`).join(',\n')}};`;
+    const nested = `var n = [${Array.from({ length: 30 }, (_, i) => `[${i}]`).join(', ')}];`;
+
+    for (const code of [modules, nested]) {
+      const result = truncateCode(code, { language: 'javascript', maxElements: 20, previewElements: 2 });
+      expect(result.code).toBe(code);
+      expect(result.truncations).toEqual([]);
+    }
+  });
+
+  it('should collapse arrays of negative numbers', () => {
+    const code = `var b = [${Array.from({ length: 30 }, (_, i) => -i).join(', ')}];`;
+    const result = truncateCode(code, { language: 'javascript', maxElements: 20, previewElements: 2 });
+    expect(result.code).toMatch(/^var b = \[0, -1, \/\* \.\.\.\[TRUNCATED 26 ELEMENTS #[0-9a-f]{8}\]\.\.\. \*\/ -28, -29\];$/);
+  });
+
+  it('should keep literals up to the element limit', () => {
+    expect(truncateCode(array, { language: 'javascript' }).code).toBe(array);
+  });
+});
+
+describe('truncateCode (source map)', () => {
+  it('should map columns after shortened strings and lines back to the input', () => {
+    const code = `var s = "${'a'.repeat(300)}", after = 1;\nx = ${'b + '.repeat(200)}tail;`;
+    const result = truncateCode(code, { language: 'javascript', sourceMap: true });
+    const consumer = new SourceMapConsumer({ ...result.map!, version: String(result.map!.version) });
+    const [first, second] = result.code.split('\n');
+
+    expect(consumer.originalPositionFor({ line: 1, column: first.indexOf('after') }))
+      .toMatchObject({ line: 1, column: code.indexOf('after') });
+    expect(consumer.originalPositionFor({ line: 2, column: second.indexOf('tail') }))
+      .toMatchObject({ line: 2, column: code.split('\n')[1].indexOf('tail') });
+  });
+
+  it('should keep escaped newlines escaped and preserve lines and mappings', () => {
+    const value = 'line\\n'.repeat(150);
+    const code = `var s = "${value}\\"quoted\\"", after = 1;\nvar next = 2;`;
+    const result = truncateCode(code, { language: 'javascript', sourceMap: true });
+    const consumer = new SourceMapConsumer({ ...result.map!, version: String(result.map!.version) });
+    const lines = result.code.split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(() => parse(result.code)).not.toThrow();
+    expect(lines[0]).toContain(`TRUNCATED ${'line\n'.length * 150 + 8} CHARS`);
+    expect(consumer.originalPositionFor({ line: 1, column: lines[0].indexOf('after') }))
+      .toMatchObject({ line: 1, column: code.indexOf('after') });
+    expect(consumer.originalPositionFor({ line: 2, column: lines[1].indexOf('next') }))
+      .toMatchObject({ line: 2, column: code.split('\n')[1].indexOf('next') });
+  });
+
+  it('should not generate a map when nothing is truncated', () => {
+    expect(truncateCode('var a = 1;', { language: 'javascript', sourceMap: true }).map).toBeUndefined();
+  });
+});
+
+describe('getTruncatedValue', () => {
+  it('should return the full value of a truncation', () => {
+    const longString = 'start' + 'b'.repeat(300) + 'end';
+    const code = `const x = \`${longString}\`;`;
+    const { truncations } = truncateCode(code, { language: 'javascript' });
+
+    expect(getTruncatedValue(code, truncations[0].id, { language: 'javascript' })).toBe(longString);
+    expect(getTruncatedValue(code, '00000000', { language: 'javascript' })).toBeNull();
+  });
+
+  it('should find lines truncated in a line range that does not parse on its own', () => {
+    const line = `  return "${'c'.repeat(600)}";`;
+    const code = `function f() {\n${line}\n}`;
+    const { truncations } = truncateCode(line, { language: 'javascript' });
+
+    expect(truncations[0].kind).toBe('line');
+    expect(getTruncatedValue(code, truncations[0].id, { language: 'javascript' })).toBe(line);
+  });
+});
@@ -1,8 +1,26 @@
 import { SourceMapConsumer } from 'source-map-js';
-import { parse, ParserOptions } from '@babel/parser';
-import type { NodePath } from '@babel/traverse';
-import type { Identifier } from '@babel/types';
+import { extname } from 'path';
+import { parse, type ParserOptions, type ParserPlugin } from '@babel/parser';
+import type { NodePath, Binding } from '@babel/traverse';
+import type {
+  Identifier,
+  Node,
+  MemberExpression,
+  OptionalMemberExpression,
+  ObjectProperty,
+  ObjectMethod,
+  ClassProperty,
+  ClassMethod,
+  CallExpression,
+  NewExpression,
+  Function as FunctionNode,
+  SourceLocation,
+} from '@babel/types';
 import type { SourceMap } from './beautifier.js';
+import { getOriginalPosition, type OriginalPosition } from './sourceMapper.js';
+import { formatForeignSource, formatOriginalPosition, escapeRegex } from './searcher.js';
+
+export type { OriginalPosition } from './sourceMapper.js';
 
 // Dynamic import for babel traverse to handle ESM/CJS interop
 type TraverseFn = (
@@ -15,7 +33,10 @@ type TraverseFn = (
 
 let traverse: TraverseFn | null = null;
 
-async function getTraverse(): Promise<TraverseFn> {
+/**
+ * Load Babel traverse (shared with the project analyzer)
+ */
+export async function getTraverse(): Promise<TraverseFn> {
   if (!traverse) {
     const mod = await import('@babel/traverse');
     // Handle both ESM default export and CJS module.exports
@@ -25,12 +46,28 @@ async function getTraverse(): Promise<TraverseFn> {
 }
 
 /**
- * Original position from source map
+ * How a location uses the identifier or property
+ *
+ * - write: assignment (`x = 1`), destructuring target, delete, or definition
+ * - update: `x++` or compound assignment (`x += 1`)
+ * - call / new: callee of a call or `new` expression
+ * - typeof: operand of `typeof`
+ * - export: exported by an export declaration or specifier
+ * - read: any other use
  */
-export interface OriginalPosition {
-  line: number | null;
-  column: number | null;
-}
+export type AccessKind = 'read' | 'write' | 'update' | 'call' | 'new' | 'typeof' | 'export';
+
+/** Access kinds in display order */
+const ACCESS_KINDS: AccessKind[] = ['write', 'update', 'call', 'new', 'typeof', 'export', 'read'];
+
+/**
+ * What analyzeBindings looks for: scope bindings of a variable, accesses to
+ * a property name on any object, or uses of a global variable
+ */
+export type AnalysisMode = 'binding' | 'property' | 'global';
+
+/** Global objects whose members are global variables (`window.X`) */
+const GLOBAL_OBJECTS = ['window', 'globalThis', 'self'];
 
 /**
  * Location information for a definition or reference
@@ -42,8 +79,23 @@ export interface LocationInfo {
   column: number;
   /** Original file coordinates from source map */
   originalPosition: OriginalPosition;
+  /** Authored source coordinates (only when an authoredMap was given) */
+  authoredPosition?: OriginalPosition;
   /** Content of the line containing this location */
   lineContent: string;
+  /** How the location uses the identifier or property */
+  access?: AccessKind;
+}
+
+/**
+ * A syntax error Babel recovered from while parsing; analysis results near
+ * it may be incomplete
+ */
+export interface ParseDiagnostic extends LocationInfo {
+  /** Error message (without Babel's position suffix) */
+  message: string;
+  /** Babel reason code (e.g. "VarRedeclaration") */
+  reasonCode: string;
 }
 
 /**
@@ -60,6 +112,8 @@ export interface BindingInfo {
   references: LocationInfo[];
   /** Total reference count (before limiting) */
   totalReferences: number;
+  /** Reference counts by access kind (before limiting) */
+  accessCounts?: Partial<Record<AccessKind, number>>;
   /** The location that matched the target line (if targeted search) */
   hitLocation?: LocationInfo;
 }
@@ -76,59 +130,137 @@ export interface AnalysisResult {
   isTargeted: boolean;
   /** The target line if specified */
   targetLine?: number;
+  /** The target column if specified */
+  targetColumn?: number;
+  /** The target position in the original file if specified */
+  targetOriginalPosition?: TargetPosition;
+  /** Access kinds the references were filtered to (if any) */
+  accessKinds?: AccessKind[];
+  /** Analysis mode (binding unless property mode was requested) */
+  mode?: AnalysisMode;
+  /** Property or global accesses in source order (property and global mode) */
+  accesses?: LocationInfo[];
+  /** Total access count (before limiting) */
+  totalAccesses?: number;
+  /** Access counts by kind (before limiting) */
+  accessCounts?: Partial<Record<AccessKind, number>>;
+  /** Syntax errors recovered from while parsing (only when there were any) */
+  diagnostics?: ParseDiagnostic[];
 }
 
 
 /**
- * Default parser options for Babel
+ * Default parser options for Babel (plugins are chosen per file, see getPluginSets)
  */
 const DEFAULT_PARSER_OPTIONS: ParserOptions = {
   sourceType: 'unambiguous',
-  plugins: [
-    'jsx',
-    'typescript',
-    'classProperties',
-    'classPrivateProperties',
-    'classPrivateMethods',
-    'dynamicImport',
-    'optionalChaining',
-    'nullishCoalescingOperator',
-    'objectRestSpread',
-  ],
   errorRecovery: true,
 };
 
 /**
- * Parse JavaScript/TypeScript code into an AST
- * @param code - Source code to parse
- * @returns Parsed AST
- * @throws Error if parsing fails
+ * Syntax plugins enabled for every dialect (they only accept syntax that is
+ * an error otherwise)
  */
-export function parseCode(code: string) {
-  try {
-    return parse(code, DEFAULT_PARSER_OPTIONS);
-  } catch (err) {
-    const message = err instanceof Error ? err.message : String(err);
-    throw new Error(`Parse error: ${message}`);
-  }
+const COMMON_PLUGINS: ParserPlugin[] = [
+  'decorators',
+  'decoratorAutoAccessors',
+  'v8intrinsic',
+  'deprecatedImportAssert',
+  'explicitResourceManagement',
+];
+
+/**
+ * Options for parsing code
+ */
+export interface ParseOptions {
+  /**
+   * Path of the file the code comes from; its extension picks the parser
+   * plugins: TypeScript for .ts/.mts/.cts, TypeScript and JSX for .tsx, JSX
+   * otherwise (JSX and TypeScript together when no path is given)
+   */
+  filePath?: string;
+  /**
+   * Babel parser options merged over the defaults; plugins given here are
+   * used as the only plugin set (no retries)
+   */
+  parserOptions?: ParserOptions;
 }
 
+/**
+ * Get the parser plugin sets to try for a file, most likely first
+ *
+ * Later sets drop JSX (whose tags conflict with comparisons and generics),
+ * and for JavaScript try Flow and TypeScript annotations.
+ */
+function getPluginSets(filePath: string | undefined): ParserPlugin[][] {
+  const ext = filePath ? extname(filePath).toLowerCase() : undefined;
+  if (ext === '.ts' || ext === '.mts' || ext === '.cts') {
+    return [
+      ['typescript', ...COMMON_PLUGINS],
+      [...COMMON_PLUGINS],
+    ];
+  }
+  if (ext === '.tsx') {
+    return [
+      ['typescript', 'jsx', ...COMMON_PLUGINS],
+      ['typescript', ...COMMON_PLUGINS],
+      ['jsx', ...COMMON_PLUGINS],
+    ];
+  }
+  const fallbacks: ParserPlugin[][] = [
+    [...COMMON_PLUGINS],
+    ['flow', 'jsx', ...COMMON_PLUGINS],
+    ['typescript', ...COMMON_PLUGINS],
+  ];
+  if (ext === undefined) {
+    return [['jsx', 'typescript', ...COMMON_PLUGINS], ['jsx', ...COMMON_PLUGINS], ...fallbacks];
+  }
+  return [['jsx', ...COMMON_PLUGINS], ...fallbacks];
+}
 
 /**
- * Get original position for a location using source map consumer
+ * Parse JavaScript/TypeScript code into an AST
+ *
+ * The plugin sets for the file are tried in order; the first AST parsed
+ * without recovered errors is returned, otherwise the one with the fewest.
+ *
+ * @param code - Source code to parse
+ * @param options - File path (picks the plugins) and Babel parser options
+ * @returns Parsed AST
+ * @throws Error if parsing fails with every plugin set
  */
-function getOriginalPosition(
-  consumer: SourceMapConsumer,
-  line: number,
-  column: number
-): OriginalPosition {
-  const pos = consumer.originalPositionFor({ line, column });
-  return {
-    line: pos.line,
-    column: pos.column,
-  };
+export function parseCode(code: string, options?: ParseOptions) {
+  const parserOptions = { ...DEFAULT_PARSER_OPTIONS, ...options?.parserOptions };
+  const pluginSets = options?.parserOptions?.plugins
+    ? [options.parserOptions.plugins]
+    : getPluginSets(options?.filePath);
+  
+  let best: ReturnType<typeof parse> | null = null;
+  let bestErrors = Infinity;
+  let firstError: unknown = null;
+  for (const plugins of pluginSets) {
+    try {
+      const ast = parse(code, { ...parserOptions, plugins });
+      const errors = ast.errors?.length ?? 0;
+      if (errors === 0) {
+        return ast;
+      }
+      if (errors < bestErrors) {
+        best = ast;
+        bestErrors = errors;
+      }
+    } catch (err) {
+      firstError ??= err;
+    }
+  }
+  if (best) {
+    return best;
+  }
+  const message = firstError instanceof Error ? firstError.message : String(firstError);
+  throw new Error(`Parse error: ${message}`);
 }
 
+
 /**
  * Get line content from code by line number (1-based)
  */
@@ -146,16 +278,71 @@ function createLocationInfo(
   line: number,
   column: number,
   lines: string[],
-  consumer: SourceMapConsumer
+  consumer: SourceMapConsumer,
+  authoredConsumer: SourceMapConsumer | null,
+  access?: AccessKind
 ): LocationInfo {
   return {
     line,
     column,
     originalPosition: getOriginalPosition(consumer, line, column),
+    ...(authoredConsumer && {
+      authoredPosition: getOriginalPosition(authoredConsumer, line, column),
+    }),
     lineContent: getLineContent(lines, line),
+    ...(access && { access }),
   };
 }
 
+/**
+ * Count locations by access kind
+ */
+function countAccesses(locations: LocationInfo[]): Partial<Record<AccessKind, number>> {
+  const counts: Partial<Record<AccessKind, number>> = {};
+  for (const { access } of locations) {
+    if (access) {
+      counts[access] = (counts[access] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Keep the locations whose access kind is in the filter (all without a filter)
+ */
+function filterByAccess(locations: LocationInfo[], accessKinds: AccessKind[] | undefined): LocationInfo[] {
+  if (!accessKinds) {
+    return locations;
+  }
+  return locations.filter(location => location.access && accessKinds.includes(location.access));
+}
+
+/**
+ * Collect the syntax errors Babel recovered from (errorRecovery)
+ */
+function getParseDiagnostics(
+  ast: ReturnType<typeof parseCode>,
+  lines: string[],
+  consumer: SourceMapConsumer,
+  authoredConsumer: SourceMapConsumer | null
+): ParseDiagnostic[] {
+  return (ast.errors ?? []).map(error => ({
+    ...createLocationInfo(error.loc.line, error.loc.column, lines, consumer, authoredConsumer),
+    message: error.message.replace(/ \(\d+:\d+\)$/, ''),
+    reasonCode: error.reasonCode,
+  }));
+}
+
+/**
+ * A position in the original file, as shown by `Src` (e.g. L1:2048)
+ */
+export interface TargetPosition {
+  /** Line number (1-based) */
+  line: number;
+  /** Column number (0-based) */
+  column: number;
+}
+
 /**
  * Options for binding analysis
  */
@@ -164,6 +351,36 @@ export interface AnalyzeOptions {
   maxReferences?: number;
   /** Target line number for precise binding identification (1-based) */
   targetLine?: number;
+  /**
+   * Target column on targetLine (0-based); picks the occurrence whose
+   * identifier spans this column when the name appears several times
+   */
+  targetColumn?: number;
+  /**
+   * Target the occurrence at this position in the original (e.g. minified)
+   * file, as shown in DevTools or by `Src`; mapped through the source map
+   */
+  targetOriginalPosition?: TargetPosition;
+  /**
+   * Map from the beautified code to the authored sources (see
+   * BeautifyResult.authoredMap); adds authoredPosition to each location
+   */
+  authoredMap?: SourceMap | null;
+  /**
+   * "property" finds every access to a property with this name
+   * (`this.sign`, `obj["sign"]`, `{ sign: fn }`) instead of scope bindings;
+   * "global" finds uses of an unbound (global) variable, including implicit
+   * global assignments and `window.X` / `globalThis.X` / `self.X`; the target
+   * options are not used in these modes (default "binding")
+   */
+  mode?: AnalysisMode;
+  /**
+   * Only report references (or property accesses) with these access kinds;
+   * applied before maxReferences
+   */
+  accessKinds?: AccessKind[];
+  /** File path (picks the parser plugins) and Babel parser options */
+  parseOptions?: ParseOptions;
 }
 
 /**
@@ -182,13 +399,22 @@ export async function analyzeBindings(
   identifier: string,
   options?: AnalyzeOptions
 ): Promise<AnalysisResult> {
+  if (options?.mode === 'property') {
+    return analyzePropertyAccesses(code, rawMap, identifier, options);
+  }
+  if (options?.mode === 'global') {
+    return analyzeGlobalAccesses(code, rawMap, identifier, options);
+  }
+  
   const targetLine = options?.targetLine;
-  const isTargeted = targetLine !== undefined;
+  const targetColumn = targetLine !== undefined ? options?.targetColumn : undefined;
+  const targetOriginalPosition = options?.targetOriginalPosition;
+  const isTargeted = targetLine !== undefined || targetOriginalPosition !== undefined;
   // Use 15 max references for targeted searches, 10 for regular searches
   const maxReferences = options?.maxReferences ?? (isTargeted ? 15 : 10);
   
   // Parse the code
-  const ast = parseCode(code);
+  const ast = parseCode(code, options?.parseOptions);
   
   // Split code into lines for content extraction
   const lines = code.split('\n');
@@ -198,32 +424,70 @@ export async function analyzeBindings(
     ...rawMap,
     version: String(rawMap.version),
   });
+  const authoredMap = options?.authoredMap;
+  const authoredConsumer = authoredMap
+    ? new SourceMapConsumer({ ...authoredMap, version: String(authoredMap.version) })
+    : null;
   
   // Collect all bindings for the identifier
   const bindings: BindingInfo[] = [];
   const processedScopes = new Set<number>();
   
+  // Check whether an identifier covers the target line/column and original position
+  const isAtTarget = (node: Identifier): boolean => {
+    const nodeLoc = node.loc;
+    if (!nodeLoc) {
+      return false;
+    }
+    if (targetLine !== undefined) {
+      if (nodeLoc.start.line !== targetLine) {
+        return false;
+      }
+      if (targetColumn !== undefined &&
+          (targetColumn < nodeLoc.start.column || targetColumn >= nodeLoc.end.column)) {
+        return false;
+      }
+    }
+    if (targetOriginalPosition) {
+      const pos = consumer.originalPositionFor({ line: nodeLoc.start.line, column: nodeLoc.start.column });
+      if (pos.line !== targetOriginalPosition.line || pos.column == null) {
+        return false;
+      }
+      // Identifiers renamed by the beautifier (e -> e2) keep their original name in the map
+      if (node.name !== identifier && pos.name !== identifier) {
+        return false;
+      }
+      const offset = targetOriginalPosition.column - pos.column;
+      if (offset < 0 || offset >= identifier.length) {
+        return false;
+      }
+    }
+    return true;
+  };
+  
+  // Copies renamed by the beautifier get a numeric suffix (e -> e2)
+  const renamedPattern = new RegExp(`^${escapeRegex(identifier)}\\d+$`);
+  
   // Get traverse function
   const traverse = await getTraverse();
   
   try {
     traverse(ast, {
       Identifier(path: NodePath<Identifier>) {
-        // Only process if this is the identifier we're looking for
-        if (path.node.name !== identifier) {
+        // Only process if this is the identifier we're looking for (or, when
+        // targeting an original position, a renamed copy of it such as e2)
+        const name = path.node.name;
+        if (name !== identifier && !(targetOriginalPosition && renamedPattern.test(name))) {
           return;
         }
         
-        // For targeted search, check if this identifier is at the target line
-        if (isTargeted) {
-          const nodeLoc = path.node.loc;
-          if (!nodeLoc || nodeLoc.start.line !== targetLine) {
-            return;
-          }
+        // For targeted search, check if this identifier is at the target position
+        if (isTargeted && !isAtTarget(path.node)) {
+          return;
         }
         
         // Get the binding for this identifier
-        const binding = path.scope.getBinding(identifier);
+        const binding = path.scope.getBinding(name);
         if (!binding) {
           return;
         }
@@ -246,26 +510,36 @@ export async function analyzeBindings(
           defLoc.start.line,
           defLoc.start.column,
           lines,
-          consumer
+          consumer,
+          authoredConsumer,
+          'write'
         );
         
-        // Get all reference locations
-        const allReferences: LocationInfo[] = [];
-        for (const refPath of binding.referencePaths) {
-          const refLoc = refPath.node.loc;
+        // Get all reference locations; reassignments (constant violations)
+        // are writes and take precedence over the read of `x++` or `for (x of ...)`
+        const referencesByPosition = new Map<string, LocationInfo>();
+        const addReference = (node: Node, access: AccessKind): void => {
+          const refLoc = node.loc;
           if (!refLoc) {
-            continue;
+            return;
           }
-          
-          allReferences.push(
-            createLocationInfo(
-              refLoc.start.line,
-              refLoc.start.column,
-              lines,
-              consumer
-            )
+          const { line, column } = refLoc.start;
+          referencesByPosition.set(
+            `${line}:${column}`,
+            createLocationInfo(line, column, lines, consumer, authoredConsumer, access)
           );
+        };
+        for (const refPath of binding.referencePaths) {
+          addReference(refPath.node, getAccessKind(refPath));
+        }
+        for (const violation of binding.constantViolations) {
+          const ids = violation.getBindingIdentifiers() as unknown as Record<string, Node>;
+          addReference(ids[name] ?? violation.node, getViolationKind(violation));
         }
+        const allReferences = filterByAccess(
+          [...referencesByPosition.values()].sort((a, b) => a.line - b.line || a.column - b.column),
+          options?.accessKinds
+        );
         
         // Store total count before limiting
         const totalReferences = allReferences.length;
@@ -277,11 +551,14 @@ export async function analyzeBindings(
         let hitLocation: LocationInfo | undefined;
         if (isTargeted) {
           const nodeLoc = path.node.loc!;
+          const hitKey = `${nodeLoc.start.line}:${nodeLoc.start.column}`;
           hitLocation = createLocationInfo(
             nodeLoc.start.line,
             nodeLoc.start.column,
             lines,
-            consumer
+            consumer,
+            authoredConsumer,
+            path.node === defNode ? 'write' : referencesByPosition.get(hitKey)?.access ?? getAccessKind(path)
           );
         }
         
@@ -291,6 +568,7 @@ export async function analyzeBindings(
           definition,
           references: limitedReferences,
           totalReferences,
+          accessCounts: countAccesses(allReferences),
           hitLocation,
         });
         
@@ -305,14 +583,983 @@ export async function analyzeBindings(
     throw new Error(`Analysis error: ${message}`);
   }
   
+  const diagnostics = getParseDiagnostics(ast, lines, consumer, authoredConsumer);
+  
   return {
     bindings,
     identifier,
     isTargeted,
     targetLine,
+    targetColumn,
+    targetOriginalPosition,
+    accessKinds: options?.accessKinds,
+    ...(diagnostics.length > 0 && { diagnostics }),
+  };
+}
+
+
+/**
+ * Get the constant name of a property key or member property
+ * (identifiers, string and numeric literals, private names as "#x" and
+ * template literals without expressions)
+ */
+export function getStaticPropertyName(node: Node, computed: boolean): string | null {
+  if (node.type === 'Identifier' && !computed) return node.name;
+  if (node.type === 'StringLiteral') return node.value;
+  if (node.type === 'NumericLiteral') return String(node.value);
+  if (node.type === 'PrivateName') return `#${node.id.name}`;
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked ?? null;
+  }
+  return null;
+}
+
+/**
+ * Check whether an expression is assigned to (assignment or update target,
+ * destructuring target, or delete operand)
+ */
+function isWriteTarget(path: NodePath): boolean {
+  const parent = path.parentPath;
+  if (!parent) return false;
+  if (parent.isAssignmentExpression() || parent.isAssignmentPattern()) {
+    return parent.node.left === path.node;
+  }
+  if (parent.isUpdateExpression()) return true;
+  if (parent.isUnaryExpression()) return parent.node.operator === 'delete';
+  if (parent.isArrayPattern() || parent.isRestElement()) return true;
+  if (parent.isObjectProperty() && parent.parentPath?.isObjectPattern()) {
+    return parent.node.value === path.node;
+  }
+  if (parent.isForXStatement()) return parent.node.left === path.node;
+  return false;
+}
+
+/**
+ * Classify a reference (identifier or member expression) by how it is used
+ */
+function getAccessKind(path: NodePath): AccessKind {
+  const parentPath = path.parentPath;
+  if (!parentPath) return 'read';
+  const parent = parentPath.node;
+  if (path.isExportDeclaration() || parent.type === 'ExportSpecifier' || parent.type === 'ExportDefaultDeclaration') {
+    return 'export';
+  }
+  if ((parent.type === 'CallExpression' || parent.type === 'OptionalCallExpression') && parent.callee === path.node) {
+    return 'call';
+  }
+  if (parent.type === 'NewExpression' && parent.callee === path.node) {
+    return 'new';
+  }
+  if (parent.type === 'UnaryExpression' && parent.operator === 'typeof') {
+    return 'typeof';
+  }
+  if (parent.type === 'UpdateExpression') {
+    return 'update';
+  }
+  if (parent.type === 'AssignmentExpression' && parent.left === path.node) {
+    return parent.operator === '=' ? 'write' : 'update';
+  }
+  return isWriteTarget(path) ? 'write' : 'read';
+}
+
+/**
+ * Classify a constant violation (reassignment) of a binding
+ */
+function getViolationKind(path: NodePath): AccessKind {
+  const { node } = path;
+  if (node.type === 'UpdateExpression') return 'update';
+  if (node.type === 'AssignmentExpression' && node.operator !== '=') return 'update';
+  return 'write';
+}
+
+/**
+ * Find every access to a property name (see AnalyzeOptions.mode)
+ *
+ * Member expressions (`obj.sign`, `obj?.sign`, `obj["sign"]`) are classified
+ * like binding references (call, new, write, update, typeof, read); object literal and class keys (`{ sign: fn }`,
+ * `sign() {}`) are writes and destructuring keys (`const { sign } = obj`)
+ * are reads.
+ */
+async function analyzePropertyAccesses(
+  code: string,
+  rawMap: SourceMap,
+  property: string,
+  options?: AnalyzeOptions
+): Promise<AnalysisResult> {
+  const maxReferences = options?.maxReferences ?? 10;
+  const ast = parseCode(code, options?.parseOptions);
+  const lines = code.split('\n');
+  const consumer = new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) });
+  const authoredMap = options?.authoredMap;
+  const authoredConsumer = authoredMap
+    ? new SourceMapConsumer({ ...authoredMap, version: String(authoredMap.version) })
+    : null;
+  const traverse = await getTraverse();
+  const accesses: LocationInfo[] = [];
+  
+  const addAccess = (node: Node, access: AccessKind): void => {
+    if (!node.loc) return;
+    const { line, column } = node.loc.start;
+    accesses.push({ ...createLocationInfo(line, column, lines, consumer, authoredConsumer), access });
+  };
+  
+  const visitMember = (path: NodePath<MemberExpression | OptionalMemberExpression>): void => {
+    const { property: key, computed } = path.node;
+    if (getStaticPropertyName(key, computed) === property) {
+      addAccess(key, getAccessKind(path));
+    }
+  };
+  
+  const visitKey = (path: NodePath<ObjectProperty | ObjectMethod | ClassProperty | ClassMethod>): void => {
+    const { key, computed } = path.node;
+    if (getStaticPropertyName(key, computed) !== property) return;
+    addAccess(key, path.parentPath?.isObjectPattern() ? 'read' : 'write');
+  };
+  
+  try {
+    traverse(ast, {
+      MemberExpression: visitMember,
+      OptionalMemberExpression: visitMember,
+      ObjectProperty: visitKey,
+      ObjectMethod: visitKey,
+      ClassProperty: visitKey,
+      ClassMethod: visitKey,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Analysis error: ${message}`);
+  }
+  
+  accesses.sort((a, b) => a.line - b.line || a.column - b.column);
+  const filtered = filterByAccess(accesses, options?.accessKinds);
+  const diagnostics = getParseDiagnostics(ast, lines, consumer, authoredConsumer);
+  
+  return {
+    bindings: [],
+    identifier: property,
+    isTargeted: false,
+    mode: 'property',
+    accessKinds: options?.accessKinds,
+    accesses: filtered.slice(0, maxReferences),
+    totalAccesses: filtered.length,
+    accessCounts: countAccesses(filtered),
+    ...(diagnostics.length > 0 && { diagnostics }),
+  };
+}
+
+/**
+ * Find every use of a global variable (see AnalyzeOptions.mode)
+ *
+ * Unbound references and assignments (`_0x3f2a[1]`, `_0x3f2a = [...]`
+ * without a declaration) and members of the global objects
+ * (`window._0x3f2a`, `globalThis["_0x3f2a"]`, `self._0x3f2a`, unless the
+ * object name is itself bound) are classified like binding references.
+ */
+async function analyzeGlobalAccesses(
+  code: string,
+  rawMap: SourceMap,
+  identifier: string,
+  options?: AnalyzeOptions
+): Promise<AnalysisResult> {
+  const maxReferences = options?.maxReferences ?? 10;
+  const ast = parseCode(code, options?.parseOptions);
+  const lines = code.split('\n');
+  const consumer = new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) });
+  const authoredMap = options?.authoredMap;
+  const authoredConsumer = authoredMap
+    ? new SourceMapConsumer({ ...authoredMap, version: String(authoredMap.version) })
+    : null;
+  const traverse = await getTraverse();
+  const accesses: LocationInfo[] = [];
+  
+  const addAccess = (node: Node, access: AccessKind): void => {
+    if (!node.loc) return;
+    const { line, column } = node.loc.start;
+    accesses.push(createLocationInfo(line, column, lines, consumer, authoredConsumer, access));
+  };
+  
+  const visitMember = (path: NodePath<MemberExpression | OptionalMemberExpression>): void => {
+    const { object, property, computed } = path.node;
+    if (object.type !== 'Identifier' || !GLOBAL_OBJECTS.includes(object.name) ||
+        getStaticPropertyName(property, computed) !== identifier || path.scope.getBinding(object.name)) {
+      return;
+    }
+    addAccess(path.node, getAccessKind(path));
+  };
+  
+  try {
+    traverse(ast, {
+      Identifier(path: NodePath<Identifier>) {
+        if (path.node.name !== identifier || path.scope.getBinding(identifier)) return;
+        // Unbound binding identifiers are implicit global assignments (`x = 1`)
+        const use: NodePath = path;
+        if (use.isReferencedIdentifier() || use.isBindingIdentifier()) {
+          addAccess(path.node, getAccessKind(path));
+        }
+      },
+      MemberExpression: visitMember,
+      OptionalMemberExpression: visitMember,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Analysis error: ${message}`);
+  }
+  
+  accesses.sort((a, b) => a.line - b.line || a.column - b.column);
+  const filtered = filterByAccess(accesses, options?.accessKinds);
+  const diagnostics = getParseDiagnostics(ast, lines, consumer, authoredConsumer);
+  
+  return {
+    bindings: [],
+    identifier,
+    isTargeted: false,
+    mode: 'global',
+    accessKinds: options?.accessKinds,
+    accesses: filtered.slice(0, maxReferences),
+    totalAccesses: filtered.length,
+    accessCounts: countAccesses(filtered),
+    ...(diagnostics.length > 0 && { diagnostics }),
   };
 }
 
+/**
+ * Direction of a data-flow trace: backward follows a value to where it comes
+ * from, forward follows it to where it goes
+ */
+export type TraceDirection = 'backward' | 'forward';
+
+/**
+ * What a trace step is
+ *
+ * - start: the traced expression or binding
+ * - definition: declaration of a variable holding the value
+ * - assignment: assignment of the value to a variable or property
+ * - parameter / argument: a function parameter and an argument passed for it
+ * - call / return: a call of a function and a value it returns
+ * - property: a property holding the value (`o.p`, `{ p: v }`)
+ * - reference: a read of a variable or property holding the value
+ * - literal: a literal, object, array, function or class creating the value
+ * - global: an unbound (global) variable
+ * - sink: an argument of a call to an unresolved function (`fetch(url, opts)`)
+ */
+export type TraceStepKind =
+  | 'start'
+  | 'definition'
+  | 'assignment'
+  | 'parameter'
+  | 'argument'
+  | 'call'
+  | 'return'
+  | 'property'
+  | 'reference'
+  | 'literal'
+  | 'global'
+  | 'sink';
+
+/**
+ * A location the traced value passes through
+ */
+export interface TraceStep extends LocationInfo {
+  /** What the step is */
+  kind: TraceStepKind;
+  /** Variable, property or function name (source text for expressions) */
+  name: string;
+  /** Number of hops from the start */
+  depth: number;
+  /** Index of the step this one was reached from (-1 for the start) */
+  from: number;
+}
+
+/**
+ * Where a trace starts: a binding (identifier, optionally at a line) or the
+ * innermost expression at a line and column or original position
+ */
+export interface TraceStart {
+  /** Variable name; the first occurrence (on line, if given) is traced */
+  identifier?: string;
+  /** Line in the beautified code (1-based) */
+  line?: number;
+  /** Column on line (0-based) */
+  column?: number;
+  /** Position in the original (e.g. minified) file, as shown by `Src` */
+  originalPosition?: TargetPosition;
+}
+
+/**
+ * Options for data-flow tracing
+ */
+export interface TraceOptions {
+  /** Follow the value backward to its sources or forward to its uses (default "backward") */
+  direction?: TraceDirection;
+  /** Maximum number of hops from the start (default 20) */
+  maxDepth?: number;
+  /** Maximum number of steps (default 100) */
+  maxSteps?: number;
+  /** Map to the authored sources; adds authoredPosition to each step */
+  authoredMap?: SourceMap | null;
+  /** File path (picks the parser plugins) and Babel parser options */
+  parseOptions?: ParseOptions;
+}
+
+/**
+ * Result of a data-flow trace
+ */
+export interface TraceResult {
+  /** Where the trace started */
+  start: TraceStart;
+  /** Direction of the trace */
+  direction: TraceDirection;
+  /** Steps in the order they were found; the first one is the start (empty if it was not found) */
+  steps: TraceStep[];
+  /** Whether maxDepth or maxSteps cut the trace short */
+  truncated: boolean;
+}
+
+/** keepNames helper inserted by the beautifier (not part of the analyzed code) */
+export const KEEP_NAMES_HELPER = '__name';
+
+/**
+ * Unwrap a keepNames helper call around a function (`__name(function () {...}, "sign")`)
+ */
+export function unwrapKeepNames(path: NodePath): NodePath {
+  const { node } = path;
+  if (node.type === 'CallExpression' && node.callee.type === 'Identifier' &&
+      node.callee.name === KEEP_NAMES_HELPER && node.arguments.length > 0) {
+    return path.get('arguments.0') as NodePath;
+  }
+  return path;
+}
+
+/**
+ * Find the constructor of a class
+ */
+function getConstructor(classPath: NodePath): NodePath<FunctionNode> | null {
+  if (!classPath.isClass()) return null;
+  const constructor = classPath.get('body').get('body')
+    .find(member => member.isClassMethod() && member.node.kind === 'constructor');
+  return (constructor as NodePath<ClassMethod> | undefined) ?? null;
+}
+
+/**
+ * Find the function a callee refers to (a function declaration, or a function
+ * expression or arrow assigned to a variable); for `new` the class constructor
+ */
+function resolveCalleeFunction(callee: NodePath, isNew: boolean = false): NodePath<FunctionNode> | null {
+  if (!callee.isIdentifier()) return null;
+  const binding = callee.scope.getBinding(callee.node.name);
+  if (!binding) return null;
+  let target = binding.path;
+  if (target.isVariableDeclarator()) {
+    target = unwrapKeepNames(target.get('init') as NodePath);
+  }
+  if (isNew) {
+    return getConstructor(target);
+  }
+  return target.isFunction() ? target : null;
+}
+
+/**
+ * Find the variable a function or class is declared as or assigned to
+ */
+function getDeclaredBinding(path: NodePath): Binding | undefined {
+  if ((path.isFunctionDeclaration() || path.isClassDeclaration()) && path.node.id) {
+    return path.parentPath.scope.getBinding(path.node.id.name);
+  }
+  let parent: NodePath | null = path.parentPath;
+  if (parent && unwrapKeepNames(parent) === path) {
+    parent = parent.parentPath;
+  }
+  if (parent?.isVariableDeclarator() && parent.node.id.type === 'Identifier') {
+    return parent.scope.getBinding(parent.node.id.name);
+  }
+  if (parent?.isAssignmentExpression() && parent.node.left.type === 'Identifier') {
+    return parent.scope.getBinding(parent.node.left.name);
+  }
+  return undefined;
+}
+
+/**
+ * Find the calls of a function (`f(a)`, `f.call(thisArg, a)`, and `new C(a)`
+ * for a constructor); offset is the index of the first argument passed for
+ * the parameters
+ */
+function getCallSites(
+  fn: NodePath<FunctionNode>
+): Array<{ call: NodePath<CallExpression | NewExpression>; offset: number }> {
+  const isConstructor = fn.isClassMethod() && fn.node.kind === 'constructor';
+  const binding = getDeclaredBinding(isConstructor ? fn.parentPath.parentPath! : fn);
+  if (!binding) return [];
+  const sites: Array<{ call: NodePath<CallExpression | NewExpression>; offset: number }> = [];
+  for (const ref of binding.referencePaths) {
+    const parent = ref.parentPath;
+    if (isConstructor) {
+      if (parent?.isNewExpression() && parent.node.callee === ref.node) {
+        sites.push({ call: parent, offset: 0 });
+      }
+    } else if (parent?.isCallExpression() && parent.node.callee === ref.node) {
+      sites.push({ call: parent, offset: 0 });
+    } else if (parent?.isMemberExpression() && parent.node.object === ref.node &&
+        getStaticPropertyName(parent.node.property, parent.node.computed) === 'call' &&
+        parent.parentPath?.isCallExpression() && parent.parentPath.node.callee === parent.node) {
+      sites.push({ call: parent.parentPath, offset: 1 });
+    }
+  }
+  return sites;
+}
+
+/**
+ * Find the values a function returns (skipping nested functions)
+ */
+function getReturnValues(fn: NodePath<FunctionNode>): NodePath[] {
+  const body = fn.get('body') as NodePath;
+  if (!body.isBlockStatement()) {
+    return [body];
+  }
+  const values: NodePath[] = [];
+  body.traverse({
+    Function(path) {
+      path.skip();
+    },
+    ReturnStatement(path) {
+      const argument = path.get('argument');
+      if (argument.node) {
+        values.push(argument as NodePath);
+      }
+    },
+  });
+  return values;
+}
+
+/**
+ * Find the function or class `this` refers to (arrows use the enclosing one)
+ */
+function getThisOwner(path: NodePath): Node | null {
+  let fn = path.getFunctionParent();
+  while (fn?.isArrowFunctionExpression()) {
+    fn = fn.parentPath.getFunctionParent();
+  }
+  if (!fn) return null;
+  if (fn.isClassMethod() || fn.isClassPrivateMethod()) {
+    return fn.parentPath.parentPath?.node ?? null;
+  }
+  return fn.node;
+}
+
+/**
+ * Identify the object a property belongs to: a variable binding, the owner of
+ * `this`, or a global name
+ */
+function getPropertyOwner(object: NodePath): unknown {
+  if (object.isIdentifier()) {
+    return object.scope.getBinding(object.node.name) ?? `global:${object.node.name}`;
+  }
+  if (object.isThisExpression()) {
+    return getThisOwner(object);
+  }
+  return null;
+}
+
+/**
+ * A write or read of a property whose object could be identified
+ */
+interface PropertyAccess {
+  owner: unknown;
+  name: string;
+  /** Node the step is reported at (the property key) */
+  key: Node;
+  /** Assigned value (writes) or the member expression (reads) */
+  path: NodePath;
+}
+
+/**
+ * Index the property writes (`o.p = v`, `var o = { p: v }`, class fields) and
+ * reads of objects that can be identified
+ */
+function indexPropertyAccesses(
+  ast: ReturnType<typeof parseCode>,
+  traverse: TraverseFn
+): { writes: PropertyAccess[]; reads: PropertyAccess[] } {
+  const writes: PropertyAccess[] = [];
+  const reads: PropertyAccess[] = [];
+  traverse(ast, {
+    MemberExpression(path: NodePath<MemberExpression>) {
+      const { property, computed } = path.node;
+      const name = getStaticPropertyName(property, computed);
+      const owner = getPropertyOwner(path.get('object') as NodePath);
+      if (name === null || owner === null) return;
+      const parent = path.parentPath;
+      if (parent.isAssignmentExpression() && parent.node.left === path.node) {
+        if (parent.node.operator === '=') {
+          writes.push({ owner, name, key: property, path: parent.get('right') as NodePath });
+        }
+      } else if (!isWriteTarget(path)) {
+        reads.push({ owner, name, key: property, path });
+      }
+    },
+    ObjectProperty(path: NodePath<ObjectProperty>) {
+      const name = getStaticPropertyName(path.node.key, path.node.computed);
+      const object = path.parentPath;
+      if (name === null || !object.isObjectExpression()) return;
+      const holder = object.parentPath;
+      let owner: unknown = null;
+      if (holder?.isVariableDeclarator() && holder.node.init === object.node && holder.node.id.type === 'Identifier') {
+        owner = holder.scope.getBinding(holder.node.id.name);
+      } else if (holder?.isAssignmentExpression() && holder.node.right === object.node) {
+        owner = getPropertyOwner(holder.get('left') as NodePath);
+      }
+      if (owner) {
+        writes.push({ owner, name, key: path.node.key, path: path.get('value') as NodePath });
+      }
+    },
+    ClassProperty(path: NodePath<ClassProperty>) {
+      const name = getStaticPropertyName(path.node.key, path.node.computed);
+      const value = path.get('value');
+      if (name !== null && value.node) {
+        writes.push({ owner: path.parentPath.parentPath?.node, name, key: path.node.key, path: value as NodePath });
+      }
+    },
+  });
+  return { writes, reads };
+}
+
+/**
+ * Check whether a source location covers a line and column
+ */
+function coversPosition(loc: SourceLocation, line: number, column: number): boolean {
+  const afterStart = loc.start.line < line || (loc.start.line === line && loc.start.column <= column);
+  const beforeEnd = loc.end.line > line || (loc.end.line === line && loc.end.column > column);
+  return afterStart && beforeEnd;
+}
+
+/**
+ * Trace the flow of a value through assignments, parameters and arguments,
+ * returns and object properties
+ *
+ * Backward traces answer "where does this value come from?": variables lead
+ * to their initializers and assignments, parameters to the arguments at each
+ * call, calls to the returned values, and properties to the values assigned
+ * to them. Forward traces answer "where does this value go?" by following
+ * the same edges the other way, ending at sinks (arguments of unresolved
+ * calls such as `fetch`). Expressions combining values (`a + b`, `a || b`,
+ * templates) pass them through. Each step reports its original position.
+ *
+ * @param code - Beautified code to analyze
+ * @param rawMap - Source map for coordinate mapping
+ * @param start - Binding or expression to trace
+ * @param options - Trace options
+ * @returns Trace steps, starting with the start
+ */
+export async function traceDataFlow(
+  code: string,
+  rawMap: SourceMap,
+  start: TraceStart,
+  options?: TraceOptions
+): Promise<TraceResult> {
+  const direction = options?.direction ?? 'backward';
+  const maxDepth = options?.maxDepth ?? 20;
+  const maxSteps = options?.maxSteps ?? 100;
+  const ast = parseCode(code, options?.parseOptions);
+  const lines = code.split('\n');
+  const consumer = new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) });
+  const authoredMap = options?.authoredMap;
+  const authoredConsumer = authoredMap
+    ? new SourceMapConsumer({ ...authoredMap, version: String(authoredMap.version) })
+    : null;
+  const traverse = await getTraverse();
+  
+  const steps: TraceStep[] = [];
+  const visited = new Set<Node>();
+  const visitedBindings = new Set<Binding>();
+  let truncated = false;
+  let propertyIndex: ReturnType<typeof indexPropertyAccesses> | null = null;
+  const getPropertyIndex = () => (propertyIndex ??= indexPropertyAccesses(ast, traverse));
+  
+  // Resolve the start position (original positions are mapped to the beautified code)
+  let { line, column } = start;
+  if (start.originalPosition) {
+    const generated = consumer.generatedPositionFor({
+      source: consumer.sources[0],
+      line: start.originalPosition.line,
+      column: start.originalPosition.column,
+      bias: SourceMapConsumer.GREATEST_LOWER_BOUND,
+    });
+    if (generated.line === null || generated.column === null) {
+      return { start, direction, steps, truncated };
+    }
+    line = generated.line;
+    column = generated.column;
+  }
+  
+  // Find the start: the innermost matching expression covering the position,
+  // otherwise the first one in source order
+  let startPath: NodePath | null = null;
+  let startSize = Infinity;
+  try {
+    traverse(ast, {
+      enter(path: NodePath) {
+        const { node } = path;
+        if (!node.loc || !(path.isExpression() || path.isIdentifier())) return;
+        if (start.identifier !== undefined) {
+          const isName = node.type === 'Identifier' && node.name === start.identifier;
+          if (!isName || !(path.isReferencedIdentifier() || path.isBindingIdentifier())) {
+            return;
+          }
+        }
+        if (line !== undefined) {
+          if (column === undefined ? node.loc.start.line !== line : !coversPosition(node.loc, line, column)) {
+            return;
+          }
+        }
+        const size = node.end! - node.start!;
+        if (column !== undefined ? size < startSize : startPath === null) {
+          startPath = path;
+          startSize = size;
+        }
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Analysis error: ${message}`);
+  }
+  if (!startPath) {
+    return { start, direction, steps, truncated };
+  }
+  
+  // Property names stand for the property value (`{ headers: h }`) or access (`o.headers`)
+  let origin: NodePath = startPath;
+  const originParent = origin.parentPath;
+  if (originParent?.isObjectProperty() && originParent.node.key === origin.node && !originParent.node.computed) {
+    origin = originParent.get('value') as NodePath;
+  } else if (originParent?.isMemberExpression() && originParent.node.property === origin.node &&
+      !originParent.node.computed) {
+    origin = originParent;
+  }
+  const startNode = origin.node;
+  
+  const getSourceText = (node: Node): string => {
+    const text = code.slice(node.start!, node.end!).replace(/\s+/g, ' ');
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+  };
+  
+  const addStep = (node: Node, kind: TraceStepKind, name: string, depth: number, from: number): number => {
+    // The start is reported once, as the start
+    if (node === startNode && steps.length > 0) {
+      return 0;
+    }
+    if (steps.length >= maxSteps || !node.loc) {
+      truncated ||= steps.length >= maxSteps;
+      return -1;
+    }
+    const { line: stepLine, column: stepColumn } = node.loc.start;
+    steps.push({
+      ...createLocationInfo(stepLine, stepColumn, lines, consumer, authoredConsumer),
+      kind,
+      name,
+      depth,
+      from,
+    });
+    return steps.length - 1;
+  };
+  
+  const canFollow = (depth: number): boolean => {
+    if (depth > maxDepth) {
+      truncated = true;
+      return false;
+    }
+    return true;
+  };
+  
+  // Backward: where does the value of an expression come from?
+  const traceBinding = (binding: Binding, depth: number, from: number): void => {
+    // Guarded by binding, not node: the start may be the declaring identifier itself
+    if (visitedBindings.has(binding)) return;
+    visitedBindings.add(binding);
+    const id = binding.identifier;
+    
+    if (binding.kind === 'param') {
+      const step = addStep(id, 'parameter', id.name, depth, from);
+      const fn = binding.scope.path;
+      if (step < 0 || !fn.isFunction() || !canFollow(depth + 1)) return;
+      const index = fn.node.params.findIndex(param =>
+        param === id || (param.type === 'AssignmentPattern' && param.left === id));
+      if (index < 0) return;
+      for (const { call, offset } of getCallSites(fn)) {
+        const argument = call.get('arguments')[index + offset];
+        if (!argument) continue;
+        const argStep = addStep(argument.node, 'argument', getSourceText(call.node.callee), depth + 1, step);
+        if (argStep < 0) return;
+        traceBackward(argument, depth + 1, argStep);
+      }
+      return;
+    }
+    
+    const step = addStep(id, 'definition', id.name, depth, from);
+    if (step < 0 || !canFollow(depth + 1)) return;
+    if (binding.path.isVariableDeclarator()) {
+      const init = binding.path.get('init');
+      if (init.node) {
+        traceBackward(init as NodePath, depth + 1, step);
+      }
+    }
+    for (const violation of binding.constantViolations) {
+      const target = violation.isAssignmentExpression() ? violation.node.left : violation.node;
+      const assignStep = addStep(target, 'assignment', id.name, depth + 1, step);
+      if (assignStep < 0) return;
+      if (violation.isAssignmentExpression()) {
+        traceBackward(violation.get('right'), depth + 1, assignStep);
+      }
+    }
+  };
+  
+  const traceBackward = (path: NodePath, depth: number, from: number): void => {
+    if (!canFollow(depth) || visited.has(path.node)) return;
+    visited.add(path.node);
+    const { node } = path;
+    const follow = (child: NodePath | NodePath[] | null | undefined): void => {
+      for (const childPath of Array.isArray(child) ? child : [child]) {
+        if (childPath?.node) {
+          traceBackward(childPath, depth, from);
+        }
+      }
+    };
+    
+    if (path.isIdentifier()) {
+      const binding = path.scope.getBinding(path.node.name);
+      if (binding) {
+        traceBinding(binding, depth, from);
+      } else if (path.node.name !== 'undefined') {
+        addStep(node, 'global', path.node.name, depth, from);
+      }
+      return;
+    }
+    
+    if (path.isMemberExpression() || path.isOptionalMemberExpression()) {
+      const step = addStep(node, 'property', getSourceText(node), depth, from);
+      if (step < 0 || !canFollow(depth + 1)) return;
+      const object = path.get('object') as NodePath;
+      const name = getStaticPropertyName(path.node.property, path.node.computed);
+      const owner = name !== null ? getPropertyOwner(object) : null;
+      const writes = owner !== null
+        ? getPropertyIndex().writes.filter(write => write.owner === owner && write.name === name)
+        : [];
+      for (const write of writes) {
+        const assignStep = addStep(write.key, 'assignment', name!, depth + 1, step);
+        if (assignStep < 0) return;
+        traceBackward(write.path, depth + 1, assignStep);
+      }
+      // Without known writes, the value comes from the object
+      if (writes.length === 0) {
+        traceBackward(object, depth + 1, step);
+      }
+      return;
+    }
+    
+    if (path.isCallExpression() || path.isNewExpression() || path.isOptionalCallExpression()) {
+      const callee = path.get('callee') as NodePath;
+      const step = addStep(node, 'call', getSourceText(callee.node), depth, from);
+      if (step < 0 || !canFollow(depth + 1)) return;
+      const fn = resolveCalleeFunction(callee, path.isNewExpression());
+      if (fn && !path.isNewExpression()) {
+        for (const value of getReturnValues(fn)) {
+          const returnStep = addStep(value.node, 'return', getSourceText(callee.node), depth + 1, step);
+          if (returnStep < 0) return;
+          traceBackward(value, depth + 1, returnStep);
+        }
+        return;
+      }
+      // Unresolved calls derive their result from the receiver and arguments
+      if (callee.isMemberExpression()) {
+        traceBackward(callee.get('object'), depth + 1, step);
+      }
+      for (const argument of path.get('arguments') as NodePath[]) {
+        traceBackward(argument, depth + 1, step);
+      }
+      return;
+    }
+    
+    if (path.isObjectExpression() || path.isArrayExpression()) {
+      const step = addStep(node, 'literal', path.isObjectExpression() ? '{…}' : '[…]', depth, from);
+      if (step < 0 || !canFollow(depth + 1)) return;
+      const values = path.isObjectExpression()
+        ? path.get('properties').map(property =>
+          property.isObjectProperty() ? property.get('value') : property.isSpreadElement() ? property.get('argument') : null)
+        : path.get('elements');
+      for (const value of values) {
+        if (value?.node) {
+          traceBackward(value as NodePath, depth + 1, step);
+        }
+      }
+      return;
+    }
+    
+    if (path.isLiteral() && !path.isTemplateLiteral() || path.isFunction() || path.isClass()) {
+      addStep(node, 'literal', getSourceText(node), depth, from);
+      return;
+    }
+    
+    // Expressions combining or wrapping values pass them through
+    if (path.isBinaryExpression() || path.isLogicalExpression()) {
+      follow([path.get('left') as NodePath, path.get('right') as NodePath]);
+    } else if (path.isConditionalExpression()) {
+      follow([path.get('consequent'), path.get('alternate')]);
+    } else if (path.isSequenceExpression()) {
+      follow(path.get('expressions').at(-1));
+    } else if (path.isAssignmentExpression()) {
+      follow(path.get('right'));
+    } else if (path.isTemplateLiteral()) {
+      follow(path.get('expressions') as NodePath[]);
+    } else if (path.isTaggedTemplateExpression()) {
+      follow(path.get('quasi').get('expressions') as NodePath[]);
+    } else if (path.isUnaryExpression() || path.isAwaitExpression() || path.isYieldExpression() ||
+        path.isUpdateExpression() || path.isSpreadElement()) {
+      follow(path.get('argument') as NodePath);
+    } else if (path.isParenthesizedExpression() || path.isTSAsExpression() || path.isTSNonNullExpression() ||
+        path.isTSSatisfiesExpression() || path.isTypeCastExpression()) {
+      follow(path.get('expression') as NodePath);
+    }
+  };
+  
+  // Forward: where does the value of an expression go?
+  const traceReferences = (binding: Binding, id: Node, kind: TraceStepKind, depth: number, from: number): void => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const step = addStep(id, kind, binding.identifier.name, depth, from);
+    if (step < 0 || !canFollow(depth + 1)) return;
+    for (const ref of binding.referencePaths) {
+      if (ref.isExportDeclaration()) continue;
+      const refStep = addStep(ref.node, 'reference', binding.identifier.name, depth + 1, step);
+      if (refStep < 0) return;
+      traceForward(ref, depth + 1, refStep);
+    }
+  };
+  
+  const traceForward = (path: NodePath, depth: number, from: number): void => {
+    const parentPath = path.parentPath;
+    if (!parentPath || !canFollow(depth) || visited.has(path.node)) return;
+    visited.add(path.node);
+    const { node } = path;
+    
+    if (parentPath.isVariableDeclarator() && parentPath.node.init === node) {
+      const { id } = parentPath.node;
+      const binding = id.type === 'Identifier' ? parentPath.scope.getBinding(id.name) : undefined;
+      if (binding) {
+        traceReferences(binding, id, 'definition', depth, from);
+      }
+      return;
+    }
+    
+    if (parentPath.isAssignmentExpression() && parentPath.node.right === node) {
+      const left = parentPath.get('left') as NodePath;
+      if (left.isIdentifier()) {
+        const binding = left.scope.getBinding(left.node.name);
+        if (binding) {
+          traceReferences(binding, left.node, 'assignment', depth, from);
+        }
+      } else if (left.isMemberExpression()) {
+        const name = getStaticPropertyName(left.node.property, left.node.computed);
+        const owner = name !== null ? getPropertyOwner(left.get('object')) : null;
+        const step = addStep(left.node.property, 'property', getSourceText(left.node), depth, from);
+        if (step < 0 || owner === null || !canFollow(depth + 1)) return;
+        for (const read of getPropertyIndex().reads) {
+          if (read.owner !== owner || read.name !== name) continue;
+          const readStep = addStep(read.path.node, 'reference', getSourceText(read.path.node), depth + 1, step);
+          if (readStep < 0) return;
+          traceForward(read.path, depth + 1, readStep);
+        }
+      }
+      return;
+    }
+    
+    if ((parentPath.isCallExpression() || parentPath.isNewExpression() || parentPath.isOptionalCallExpression()) &&
+        parentPath.node.callee !== node) {
+      const callee = parentPath.get('callee') as NodePath;
+      const index = parentPath.node.arguments.indexOf(node as never);
+      const fn = resolveCalleeFunction(callee, parentPath.isNewExpression());
+      if (fn) {
+        const param = fn.node.params[index];
+        const id = param?.type === 'AssignmentPattern' ? param.left : param;
+        const binding = id?.type === 'Identifier' ? fn.scope.getBinding(id.name) : undefined;
+        if (binding) {
+          const argStep = addStep(node, 'argument', getSourceText(callee.node), depth, from);
+          if (argStep >= 0) {
+            traceReferences(binding, id, 'parameter', depth + 1, argStep);
+          }
+        }
+        return;
+      }
+      // Unresolved calls are sinks; their result is derived from the value
+      const step = addStep(node, 'sink', getSourceText(callee.node), depth, from);
+      if (step >= 0) {
+        traceForward(parentPath, depth + 1, step);
+      }
+      return;
+    }
+    
+    if (parentPath.isReturnStatement() || (parentPath.isArrowFunctionExpression() && parentPath.node.body === node)) {
+      const fn = parentPath.isFunction() ? parentPath : parentPath.getFunctionParent();
+      if (!fn) return;
+      const name = getDeclaredBinding(fn)?.identifier.name ?? 'function';
+      const step = addStep(node, 'return', name, depth, from);
+      if (step < 0 || !canFollow(depth + 1)) return;
+      for (const { call } of getCallSites(fn)) {
+        const callStep = addStep(call.node, 'call', name, depth + 1, step);
+        if (callStep < 0) return;
+        traceForward(call, depth + 1, callStep);
+      }
+      return;
+    }
+    
+    if (parentPath.isObjectProperty() && parentPath.node.value === node && parentPath.parentPath.isObjectExpression()) {
+      const { key, computed } = parentPath.node;
+      const step = addStep(key, 'property', getStaticPropertyName(key, computed) ?? getSourceText(key), depth, from);
+      if (step >= 0) {
+        traceForward(parentPath.parentPath, depth + 1, step);
+      }
+      return;
+    }
+    
+    // Expressions combining or wrapping the value (and method calls on it) pass it through
+    const passesThrough =
+      parentPath.isBinaryExpression() ||
+      parentPath.isLogicalExpression() ||
+      parentPath.isTemplateLiteral() ||
+      parentPath.isArrayExpression() ||
+      parentPath.isSpreadElement() ||
+      parentPath.isAwaitExpression() ||
+      parentPath.isParenthesizedExpression() ||
+      parentPath.isTSAsExpression() ||
+      parentPath.isTSNonNullExpression() ||
+      (parentPath.isUnaryExpression() && parentPath.node.operator !== 'delete') ||
+      (parentPath.isConditionalExpression() && parentPath.node.test !== node) ||
+      (parentPath.isSequenceExpression() && parentPath.node.expressions.at(-1) === node) ||
+      ((parentPath.isMemberExpression() || parentPath.isOptionalMemberExpression()) &&
+        parentPath.node.object === node && !isWriteTarget(parentPath)) ||
+      ((parentPath.isCallExpression() || parentPath.isOptionalCallExpression()) &&
+        path.isMemberExpression());
+    if (passesThrough) {
+      traceForward(parentPath, depth, from);
+    }
+  };
+  
+  try {
+    const startName = start.identifier ?? getSourceText(startNode);
+    addStep(startNode, 'start', startName, 0, -1);
+    const binding = origin.isIdentifier() ? origin.scope.getBinding(origin.node.name) : undefined;
+    if (direction === 'backward') {
+      traceBackward(origin, 1, 0);
+    } else if (binding && binding.identifier === startNode) {
+      // A declaration or parameter: follow the variable's references
+      traceReferences(binding, startNode, 'definition', 1, 0);
+    } else {
+      traceForward(origin, 1, 0);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Analysis error: ${message}`);
+  }
+  
+  return { start, direction, steps, truncated };
+}
 
 /**
  * Format source position as "L{line}:{column}" or placeholder
@@ -328,12 +1575,46 @@ export function formatSourcePosition(line: number | null, column: number | null)
  * Format a single code line with line number, source coordinates, and content
  * Matches the format used in read_code_smart
  */
-function formatCodeLine(lineNumber: number, sourcePos: string, code: string, prefix: string = '  '): string {
+export function formatCodeLine(lineNumber: number, sourcePos: string, code: string, prefix: string = '  '): string {
   const lineNumStr = String(lineNumber).padStart(5, ' ');
   const srcPosPadded = sourcePos ? sourcePos.padEnd(10, ' ') : '          ';
   return `${prefix}${lineNumStr} ${srcPosPadded} ${code}`;
 }
 
+/**
+ * Format a location's code line, followed by its source (if it is not the
+ * file being read) and its authored position (if known)
+ */
+function formatLocation(filePath: string, location: LocationInfo, srcPos: string, marker: string): string {
+  const parts = [formatCodeLine(location.line, srcPos, location.lineContent + marker, '  ')];
+  const foreignSource = formatForeignSource(location.originalPosition, filePath);
+  if (foreignSource) {
+    parts.push(`        ↳ source: ${foreignSource}`);
+  }
+  const authoredPos = formatOriginalPosition(location.authoredPosition);
+  if (authoredPos) {
+    parts.push(`        ↳ authored: ${authoredPos}`);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Describe the target of a targeted search ("line 12", "line 12:8",
+ * "original L1:2048")
+ */
+function describeTarget(result: AnalysisResult): string {
+  const parts: string[] = [];
+  if (result.targetLine !== undefined) {
+    const column = result.targetColumn !== undefined ? `:${result.targetColumn}` : '';
+    parts.push(`line ${result.targetLine}${column}`);
+  }
+  if (result.targetOriginalPosition) {
+    const { line, column } = result.targetOriginalPosition;
+    parts.push(`original ${formatSourcePosition(line, column)}`);
+  }
+  return parts.join(', ');
+}
+
 /**
  * Check if two locations match (same line and column)
  */
@@ -341,19 +1622,153 @@ function locationsMatch(loc1: LocationInfo, loc2: LocationInfo): boolean {
   return loc1.line === loc2.line && loc1.column === loc2.column;
 }
 
+/**
+ * Options for formatting analysis results
+ */
+export interface FormatAnalysisOptions {
+  /** List references under one heading per access kind (default: source order) */
+  groupByAccess?: boolean;
+  /** Only show references with these access kinds */
+  accessKinds?: AccessKind[];
+}
+
+/**
+ * Format access counts as "write 1, call 2, read 3"
+ */
+function formatAccessCounts(counts: Partial<Record<AccessKind, number>> | undefined): string {
+  return ACCESS_KINDS
+    .filter(kind => counts?.[kind])
+    .map(kind => `${kind} ${counts![kind]}`)
+    .join(', ');
+}
+
+/**
+ * Restrict access counts (and their total) to the shown access kinds
+ */
+function selectAccessCounts(
+  counts: Partial<Record<AccessKind, number>> | undefined,
+  total: number,
+  accessKinds: AccessKind[] | undefined
+): { counts: Partial<Record<AccessKind, number>> | undefined; total: number } {
+  if (!accessKinds || !counts) {
+    return { counts, total };
+  }
+  const selected: Partial<Record<AccessKind, number>> = {};
+  let selectedTotal = 0;
+  for (const kind of accessKinds) {
+    if (counts[kind]) {
+      selected[kind] = counts[kind];
+      selectedTotal += counts[kind]!;
+    }
+  }
+  return { counts: selected, total: selectedTotal };
+}
+
+/**
+ * Format reference or access locations, each tagged with its access kind,
+ * in source order or grouped by access kind
+ */
+function formatAccessLocations(
+  filePath: string,
+  locations: LocationInfo[],
+  groupByAccess: boolean,
+  getMarker: (location: LocationInfo) => string
+): string[] {
+  const format = (location: LocationInfo): string => {
+    const srcPos = formatSourcePosition(location.originalPosition.line, location.originalPosition.column);
+    const tag = location.access && !groupByAccess ? `  [${location.access}]` : '';
+    return formatLocation(filePath, location, srcPos, tag + getMarker(location));
+  };
+  if (!groupByAccess) {
+    return locations.map(format);
+  }
+  
+  const outputParts: string[] = [];
+  for (const kind of [...ACCESS_KINDS, undefined]) {
+    const group = locations.filter(location => location.access === kind);
+    if (group.length > 0) {
+      outputParts.push(`  ${kind ?? 'other'} (${group.length}):`);
+      outputParts.push(...group.map(format));
+    }
+  }
+  return outputParts;
+}
+
+/**
+ * Format the parse diagnostics of a result as a warning section
+ */
+function formatDiagnostics(filePath: string, diagnostics: ParseDiagnostic[] | undefined): string[] {
+  if (!diagnostics || diagnostics.length === 0) {
+    return [];
+  }
+  const outputParts = [`⚠️ Parse errors (${diagnostics.length}, recovered; results may be incomplete):`];
+  for (const diagnostic of diagnostics) {
+    const srcPos = formatSourcePosition(diagnostic.originalPosition.line, diagnostic.originalPosition.column);
+    outputParts.push(formatLocation(filePath, diagnostic, srcPos, ''));
+    outputParts.push(`        ↳ ${diagnostic.message}`);
+  }
+  return outputParts;
+}
+
+/**
+ * Format the accesses of a property or global mode result
+ */
+function formatAccesses(
+  filePath: string,
+  result: AnalysisResult,
+  maxReferences: number,
+  options?: FormatAnalysisOptions
+): string {
+  const accesses = filterByAccess(result.accesses ?? [], options?.accessKinds);
+  const { counts, total } = selectAccessCounts(
+    result.accessCounts,
+    result.totalAccesses ?? accesses.length,
+    options?.accessKinds
+  );
+  const outputParts: string[] = [];
+  
+  outputParts.push(`${filePath}`);
+  outputParts.push(result.mode === 'global' ? `Global="${result.identifier}"` : `Property="${result.identifier}"`);
+  outputParts.push(`Src=original position for breakpoints`);
+  outputParts.push(...formatDiagnostics(filePath, result.diagnostics));
+  
+  if (total === 0) {
+    outputParts.push('Accesses: None');
+    return outputParts.join('\n');
+  }
+  
+  const countInfo = formatAccessCounts(counts);
+  const shownInfo = total > accesses.length ? `, showing first ${accesses.length}` : '';
+  outputParts.push(`Accesses: ${total} (${countInfo}${shownInfo})`);
+  outputParts.push(...formatAccessLocations(filePath, accesses, options?.groupByAccess ?? false, () => ''));
+  
+  if (total > accesses.length) {
+    outputParts.push(`  ... (${total - accesses.length} more accesses not shown)`);
+  }
+  
+  return outputParts.join('\n');
+}
+
 /**
  * Format analysis result for output
  * @param filePath - Path to the file
  * @param result - Analysis result
  * @param maxReferences - Maximum references shown per binding
+ * @param options - Grouping and filtering of references by access kind
  * @returns Formatted output string
  */
 export function formatAnalysisResult(
   filePath: string,
   result: AnalysisResult,
-  maxReferences: number = 10
+  maxReferences: number = 10,
+  options?: FormatAnalysisOptions
 ): string {
-  const { bindings, identifier, isTargeted, targetLine } = result;
+  if (result.mode === 'property' || result.mode === 'global') {
+    return formatAccesses(filePath, result, maxReferences, options);
+  }
+  
+  const { bindings, identifier, isTargeted } = result;
+  const target = describeTarget(result);
   
   const outputParts: string[] = [];
   
@@ -361,21 +1776,23 @@ export function formatAnalysisResult(
   outputParts.push(`${filePath}`);
   outputParts.push(`Identifier="${identifier}"`);
   outputParts.push(`Src=original position for breakpoints`);
+  outputParts.push(...formatDiagnostics(filePath, result.diagnostics));
   
   // Handle no bindings found
   if (bindings.length === 0) {
-    if (isTargeted && targetLine !== undefined) {
-      outputParts.push(`Bindings: None at line ${targetLine}`);
+    if (isTargeted && target) {
+      outputParts.push(`Bindings: None at ${target}`);
       outputParts.push(`The variable may be global, externally defined, or not present at this line.`);
     } else {
       outputParts.push('Bindings: None');
     }
+    outputParts.push(`Use mode "global" to find uses of a global variable.`);
     return outputParts.join('\n');
   }
   
   // Display "Targeted Scope" header when isTargeted is true
   if (isTargeted) {
-    outputParts.push(`Bindings: 1 (Targeted at line ${targetLine})`);
+    outputParts.push(`Bindings: 1 (Targeted at ${target})`);
   } else {
     const scopeInfo = bindings.length > 1 ? ' (different scopes)' : '';
     outputParts.push(`Bindings: ${bindings.length}${scopeInfo}`);
@@ -403,36 +1820,89 @@ export function formatAnalysisResult(
       binding.definition.originalPosition.column
     );
     const defMarker = defIsHit ? ' ◀── hit' : '';
-    outputParts.push(formatCodeLine(binding.definition.line, defSrcPos, binding.definition.lineContent + defMarker, '  '));
+    outputParts.push(formatLocation(filePath, binding.definition, defSrcPos, defMarker));
     
     // Format references
-    const totalRefs = binding.totalReferences;
+    const references = filterByAccess(binding.references, options?.accessKinds);
+    const { counts, total: totalRefs } = selectAccessCounts(
+      binding.accessCounts,
+      binding.totalReferences,
+      options?.accessKinds
+    );
     
     if (totalRefs === 0) {
       outputParts.push('🔎 References: None');
     } else {
-      outputParts.push(`🔎 References (${totalRefs}):`);
+      const countInfo = formatAccessCounts(counts);
+      outputParts.push(`🔎 References (${totalRefs}${countInfo ? `; ${countInfo}` : ''}):`);
       
-      for (const ref of binding.references) {
-        // Check if this reference is the hit location
-        const refIsHit = isTargeted && binding.hitLocation && 
-          locationsMatch(ref, binding.hitLocation);
-        
-        const refSrcPos = formatSourcePosition(
-          ref.originalPosition.line,
-          ref.originalPosition.column
-        );
-        const refMarker = refIsHit ? ' ◀── hit' : '';
-        outputParts.push(formatCodeLine(ref.line, refSrcPos, ref.lineContent + refMarker, '  '));
-      }
+      // Mark the reference that is the hit location
+      outputParts.push(...formatAccessLocations(
+        filePath,
+        references,
+        options?.groupByAccess ?? false,
+        ref => isTargeted && binding.hitLocation && locationsMatch(ref, binding.hitLocation) ? ' ◀── hit' : ''
+      ));
       
       // Add truncation message if references were limited
-      if (totalRefs > maxReferences) {
-        const remaining = totalRefs - maxReferences;
-        outputParts.push(`  ... (${remaining} more references not shown)`);
+      const shown = options?.accessKinds ? references.length : Math.min(totalRefs, maxReferences);
+      if (totalRefs > shown) {
+        outputParts.push(`  ... (${totalRefs - shown} more references not shown)`);
       }
     }
   }
   
   return outputParts.join('\n');
 }
+
+/**
+ * Describe where a trace started ("h", "line 12:8", "original L1:2048")
+ */
+function describeTraceStart(start: TraceStart): string {
+  const parts: string[] = [];
+  if (start.identifier !== undefined) {
+    parts.push(`"${start.identifier}"`);
+  }
+  if (start.line !== undefined) {
+    const column = start.column !== undefined ? `:${start.column}` : '';
+    parts.push(`line ${start.line}${column}`);
+  }
+  if (start.originalPosition) {
+    const { line, column } = start.originalPosition;
+    parts.push(`original ${formatSourcePosition(line, column)}`);
+  }
+  return parts.join(' at ');
+}
+
+/**
+ * Format a data-flow trace for output; steps are indented by their distance
+ * from the start and name the step they were reached from
+ * @param filePath - Path to the file
+ * @param result - Trace result
+ * @returns Formatted output string
+ */
+export function formatTraceResult(filePath: string, result: TraceResult): string {
+  const outputParts: string[] = [];
+  
+  outputParts.push(`${filePath}`);
+  outputParts.push(`Trace=${result.direction} from ${describeTraceStart(result.start)}`);
+  outputParts.push(`Src=original position for breakpoints`);
+  
+  if (result.steps.length === 0) {
+    outputParts.push('Steps: None (no expression found at the start)');
+    return outputParts.join('\n');
+  }
+  
+  const truncatedInfo = result.truncated ? ' (truncated; raise maxDepth or maxSteps to follow further)' : '';
+  outputParts.push(`Steps: ${result.steps.length}${truncatedInfo}`);
+  
+  result.steps.forEach((step, index) => {
+    const indent = '  '.repeat(step.depth);
+    const fromInfo = step.from >= 0 ? ` ← #${step.from}` : '';
+    outputParts.push(`${indent}#${index} ${step.kind} ${step.name}${fromInfo}`);
+    const srcPos = formatSourcePosition(step.originalPosition.line, step.originalPosition.column);
+    outputParts.push(formatLocation(filePath, step, srcPos, ''));
+  });
+  
+  return outputParts.join('\n');
+}
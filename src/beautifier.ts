@@ -1,11 +1,41 @@
 import * as esbuild from 'esbuild';
-import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as os from 'os';
 import { detectLanguage, getLanguageInfo, type SupportedLanguage } from './languageDetector.js';
+import { calculateCacheKey, readCacheEntry, writeCacheEntry, writeFileAtomic } from './cache.js';
+import {
+  createMappedWriter,
+  composeSourceMaps,
+  loadUpstreamSourceMap,
+  neutralizeSourceMappingUrls,
+  type MappedCode,
+} from './sourceMapper.js';
+import {
+  tokenizeHtml,
+  getScriptKind,
+  VOID_ELEMENTS,
+  PREFORMATTED_ELEMENTS,
+  type HtmlToken,
+} from './htmlTokenizer.js';
+import { tokenizeCss, type CssToken } from './cssTokenizer.js';
+import type { ScriptRegion } from './htmlScripts.js';
 
-const TEMP_DIR = path.join(os.tmpdir(), 'smart-fs-mcp-cache');
+/**
+ * esbuild options used for beautification
+ * Part of the cache key, so changing them invalidates cached output.
+ */
+const ESBUILD_BEAUTIFY_OPTIONS = {
+  bundle: false,
+  write: false,
+  format: 'esm',
+  sourcemap: 'external',
+  sourcesContent: false,
+  outfile: 'out.js',
+  // Beautify settings
+  minify: false,
+  keepNames: true,
+  treeShaking: false,
+} as const satisfies esbuild.BuildOptions;
 
 export interface SourceMap {
   version: number;
@@ -16,11 +46,29 @@ export interface SourceMap {
   sourceRoot?: string;
 }
 
-export interface BeautifyOptions {
+/**
+ * Options controlling where local beautified files are written
+ */
+export interface LocalOutputOptions {
+  /**
+   * Directory for beautified files and source maps (default: next to the original).
+   * The original's directory structure relative to workspaceRoot is mirrored under it.
+   */
+  outputDir?: string;
+  /** Root directory mirrored under outputDir (default: process.cwd()) */
+  workspaceRoot?: string;
+}
+
+export interface BeautifyOptions extends LocalOutputOptions {
   /** Override auto-detected language */
   language?: SupportedLanguage;
   /** Save beautified file locally (default: true for JS/TS) */
   saveLocal?: boolean;
+  /**
+   * Load the file's upstream source map (sourceMappingURL comment or sibling .map)
+   * and return it composed with the beautifier map as authoredMap (default: false)
+   */
+  followSourceMap?: boolean;
 }
 
 export interface BeautifyResult {
@@ -33,33 +81,51 @@ export interface BeautifyResult {
   localMapPath: string;
   /** 本地保存失败时的错误信息 */
   localSaveError?: string;
+  /** Whether the beautified file and source map were written locally */
+  savedLocal: boolean;
   /** Whether fallback mode was used */
   usedFallback: boolean;
+  /** Inline script locations in beautified HTML (HTML only) */
+  scriptRegions?: ScriptRegion[];
+  /**
+   * Map from beautified code to the authored sources, composed from rawMap and
+   * the file's upstream source map (only with followSourceMap; null if none found)
+   */
+  authoredMap?: SourceMap | null;
 }
 
 /**
- * Ensure the cache directory exists
+ * esbuild loaders by file extension (everything else is treated as JavaScript)
  */
-async function ensureCacheDir(): Promise<void> {
-  await fs.mkdir(TEMP_DIR, { recursive: true });
-}
+const ESBUILD_LOADERS: Record<string, esbuild.Loader> = {
+  '.jsx': 'jsx',
+  '.ts': 'ts',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.tsx': 'tsx',
+};
 
 /**
- * Calculate cache key based on file path and modification time
+ * Get the esbuild loader for a file
  */
-function calculateCacheKey(originalPath: string, mtimeMs: number): string {
-  const fileKey = `${originalPath}-${mtimeMs}`;
-  return crypto.createHash('md5').update(fileKey).digest('hex');
+function getLoader(absolutePath: string, language: SupportedLanguage): esbuild.Loader {
+  const loader = ESBUILD_LOADERS[path.extname(absolutePath).toLowerCase()];
+  return loader ?? (language === 'typescript' ? 'ts' : 'js');
 }
 
 /**
- * Get cache file paths for a given original file
+ * Point a source map's sources at the original file, relative to the map location
+ * Cache entries are shared between identical files, so the stored map may
+ * reference whichever copy was beautified first.
  */
-function getCachePaths(originalPath: string, hash: string): { beautifiedPath: string; mapPath: string } {
-  const fileName = path.basename(originalPath, '.js');
-  const beautifiedPath = path.join(TEMP_DIR, `${fileName}.${hash}.beautified.js`);
-  const mapPath = `${beautifiedPath}.map`;
-  return { beautifiedPath, mapPath };
+function relinkSourceMap(mapText: string, originalPath: string, mapPath: string): { rawMap: SourceMap; mapText: string } {
+  const rawMap = JSON.parse(mapText) as SourceMap;
+  const source = path.relative(path.dirname(mapPath), originalPath).split(path.sep).join('/');
+  if (rawMap.sources.length === 1 && rawMap.sources[0] === source) {
+    return { rawMap, mapText };
+  }
+  const relinked: SourceMap = { ...rawMap, sources: [source] };
+  return { rawMap: relinked, mapText: JSON.stringify(relinked) };
 }
 
 
@@ -67,27 +133,47 @@ function getCachePaths(originalPath: string, hash: string): { beautifiedPath: st
  * Local paths result interface
  */
 export interface LocalPaths {
-  /** Path to the beautified file in the same directory as the original */
+  /** Path to the beautified file (next to the original, or mirrored under outputDir) */
   beautifiedPath: string;
-  /** Path to the source map file in the same directory as the original */
+  /** Path to the source map file (next to the original, or mirrored under outputDir) */
   mapPath: string;
 }
 
+/**
+ * Get the directory that receives beautified output for a source directory
+ * Files inside workspaceRoot keep their relative location under outputDir;
+ * files outside it are placed under their absolute path (without the root).
+ */
+function getOutputDir(sourceDir: string, options?: LocalOutputOptions): string {
+  if (!options?.outputDir) {
+    return sourceDir;
+  }
+  const outputDir = path.resolve(options.outputDir);
+  const workspaceRoot = path.resolve(options.workspaceRoot ?? process.cwd());
+  const relative = path.relative(workspaceRoot, sourceDir);
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return path.join(outputDir, relative);
+  }
+  return path.join(outputDir, sourceDir.slice(path.parse(sourceDir).root.length));
+}
+
 /**
  * Get local file paths for beautified output
  * Given an original file path, returns the paths where the beautified file
- * and source map should be saved in the same directory.
+ * and source map should be saved: in the same directory by default, or in
+ * the mirrored directory under options.outputDir.
  * 
  * Naming convention:
  * - Original: {filename}.js -> Beautified: {filename}.beautified.js
  * - Source map: {filename}.beautified.js.map
  * 
  * @param originalPath - Path to the original JavaScript file
+ * @param options - Optional output directory settings
  * @returns Object containing beautifiedPath and mapPath
  */
-export function getLocalPaths(originalPath: string): LocalPaths {
+export function getLocalPaths(originalPath: string, options?: LocalOutputOptions): LocalPaths {
   const absolutePath = path.resolve(originalPath);
-  const dir = path.dirname(absolutePath);
+  const dir = getOutputDir(path.dirname(absolutePath), options);
   const ext = path.extname(absolutePath);
   const baseName = path.basename(absolutePath, ext);
   
@@ -97,21 +183,6 @@ export function getLocalPaths(originalPath: string): LocalPaths {
   return { beautifiedPath, mapPath };
 }
 
-/**
- * Check if cache exists and is valid (for temp directory cache)
- */
-async function isCacheValid(beautifiedPath: string, mapPath: string): Promise<boolean> {
-  try {
-    await Promise.all([
-      fs.access(beautifiedPath),
-      fs.access(mapPath)
-    ]);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Local cache validation result interface
  */
@@ -134,11 +205,15 @@ export interface LocalCacheCheck {
  * 2. The beautified file's modification time is >= the original file's modification time
  * 
  * @param originalPath - Path to the original JavaScript file
+ * @param options - Optional output directory settings
  * @returns LocalCacheCheck object with validation details
  */
-export async function isLocalCacheValid(originalPath: string): Promise<LocalCacheCheck> {
+export async function isLocalCacheValid(
+  originalPath: string,
+  options?: LocalOutputOptions
+): Promise<LocalCacheCheck> {
   const absolutePath = path.resolve(originalPath);
-  const { beautifiedPath } = getLocalPaths(absolutePath);
+  const { beautifiedPath } = getLocalPaths(absolutePath, options);
   
   // Get original file stats
   let originalStats: Awaited<ReturnType<typeof fs.stat>>;
@@ -181,134 +256,505 @@ export async function isLocalCacheValid(originalPath: string): Promise<LocalCach
   };
 }
 
+const INDENT = '  '; // 2 spaces
+
 /**
  * Beautify JSON content with proper indentation
+ * Tokens are copied verbatim from the input, so every value in the output
+ * maps back to its exact position in the original file.
+ * 
  * @param content - JSON string to beautify
- * @returns Object with beautified JSON string and error flag
+ * @param sourceName - Source name recorded in the source map
+ * @returns Object with beautified JSON string, source map and error flag
  */
-export function beautifyJson(content: string): { code: string; parseFailed: boolean } {
+export function beautifyJson(
+  content: string,
+  sourceName: string = 'input.json'
+): { code: string; map: SourceMap | null; parseFailed: boolean } {
   try {
-    const parsed = JSON.parse(content);
-    return { code: JSON.stringify(parsed, null, 2), parseFailed: false };
+    JSON.parse(content);
   } catch {
     // If parsing fails, return original content (Requirement 8.5)
-    return { code: content, parseFailed: true };
+    return { code: content, map: null, parseFailed: true };
   }
+  
+  const writer = createMappedWriter(content, sourceName);
+  let depth = 0;
+  let i = 0;
+  
+  const newlineIndent = (level: number): void => {
+    writer.newline();
+    writer.write(INDENT.repeat(level));
+  };
+  
+  const skipWhitespace = (from: number): number => {
+    let j = from;
+    while (j < content.length && /\s/.test(content[j])) j++;
+    return j;
+  };
+  
+  while (i < content.length) {
+    const ch = content[i];
+    
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '{' || ch === '[') {
+      writer.write(ch, i);
+      const next = skipWhitespace(i + 1);
+      if (content[next] === (ch === '{' ? '}' : ']')) {
+        // Empty object/array stays on one line, like JSON.stringify
+        writer.write(content[next], next);
+        i = next + 1;
+      } else {
+        depth++;
+        newlineIndent(depth);
+        i++;
+      }
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+      newlineIndent(depth);
+      writer.write(ch, i);
+      i++;
+    } else if (ch === ',') {
+      writer.write(ch, i);
+      newlineIndent(depth);
+      i++;
+    } else if (ch === ':') {
+      writer.write(':', i);
+      writer.write(' ');
+      i++;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < content.length && content[j] !== '"') {
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      writer.write(content.slice(i, j + 1), i);
+      i = j + 1;
+    } else {
+      // Number, true, false or null
+      let j = i;
+      while (j < content.length && !/[\s,:\]}]/.test(content[j])) j++;
+      writer.write(content.slice(i, j), i);
+      i = j;
+    }
+  }
+  
+  return { ...writer.toResult(), parseFailed: false };
+}
+
+/**
+ * Result of HTML/XML beautification
+ */
+export interface HtmlBeautifyResult extends MappedCode {
+  /** Inline scripts that were beautified as JavaScript (always empty for XML) */
+  scriptRegions: ScriptRegion[];
 }
 
+/** Maximum length of element text kept on the same line as its tags */
+const INLINE_TEXT_LIMIT = 80;
+
+/**
+ * HTML elements implicitly closed by a following sibling of the same name
+ */
+const IMPLICITLY_CLOSED_ELEMENTS = new Set(['p', 'li', 'option', 'dt', 'dd', 'tr', 'td', 'th']);
+
 /**
- * Simple HTML/XML beautification with indentation
- * This is a basic formatter that handles common cases
- * @param content - HTML/XML string to beautify
- * @returns Beautified HTML/XML string, or original content if formatting fails
+ * HTML elements whose start tag implicitly closes an open <p>
  */
-export function beautifyHtml(content: string): string {
+const P_CLOSING_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hgroup', 'hr', 'main', 'menu', 'nav', 'ol', 'p', 'pre', 'search', 'section',
+  'table', 'ul',
+]);
+
+/**
+ * Beautify a JavaScript fragment synchronously (used for inline <script> content)
+ * @param code - JavaScript source
+ * @returns Beautified code with a source map into the fragment, or null if it cannot be parsed
+ */
+function beautifyScriptFragment(code: string): MappedCode | null {
   try {
-    // Simple regex-based formatting for HTML/XML
-    // This handles basic indentation without a full parser
-    
-    let formatted = '';
-    let indent = 0;
-    const indentStr = '  '; // 2 spaces
+    const result = esbuild.transformSync(code, {
+      loader: 'js',
+      sourcemap: 'external',
+      sourcesContent: false,
+      minify: false,
+    });
+    return { code: result.code.replace(/\n+$/, ''), map: JSON.parse(result.map) as SourceMap };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the index of the end tag matching the start tag at `index`
+ * @returns Token index, or -1 if the element is not closed
+ */
+function findClosingToken(tokens: HtmlToken[], index: number): number {
+  const name = tokens[index].name;
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.name !== name) continue;
+    if (token.type === 'startTag' && !token.selfClosing) {
+      depth++;
+    } else if (token.type === 'endTag' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Format HTML/XML tokens with indentation and a source map
+ */
+function formatMarkup(content: string, sourceName: string, xml: boolean): HtmlBeautifyResult {
+  const tokens = tokenizeHtml(content, { xml });
+  const writer = createMappedWriter(content, sourceName);
+  const stack: string[] = [];
+  const scriptRegions: ScriptRegion[] = [];
+  let firstLine = true;
+  
+  const startLine = (): void => {
+    if (!firstLine) writer.newline();
+    firstLine = false;
+    writer.write(INDENT.repeat(stack.length));
+  };
+  
+  const emitLine = (text: string, offset: number): void => {
+    startLine();
+    writer.write(text, offset);
+  };
+  
+  // Text content - emit trimmed lines with current indentation
+  const emitText = (start: number, end: number): void => {
+    let lineStart = start;
+    while (lineStart < end) {
+      let lineEnd = content.indexOf('\n', lineStart);
+      if (lineEnd === -1 || lineEnd > end) lineEnd = end;
+      const line = content.slice(lineStart, lineEnd);
+      const trimmed = line.trim();
+      if (trimmed) {
+        emitLine(trimmed, lineStart + line.indexOf(trimmed));
+      }
+      lineStart = lineEnd + 1;
+    }
+  };
+  
+  // Embedded code with its own source map, indented one level inside its element
+  const emitMapped = (fragment: MappedCode, offset: number): void => {
+    if (!firstLine) writer.newline();
+    firstLine = false;
+    writer.writeMapped(fragment.code, fragment.map!, offset, INDENT.repeat(stack.length));
+  };
+  
+  // <script>/<style> content: beautify through the JS, JSON or CSS pipeline
+  const emitRawText = (token: HtmlToken, startTag: HtmlToken | undefined): void => {
+    if (!token.raw.trim()) return;
     
-    // Normalize line endings and split by tags
-    const normalized = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+    let fragment: MappedCode | null = null;
+    let isJavaScript = false;
+    if (token.name === 'style') {
+      fragment = beautifyCss(token.raw, sourceName);
+    } else if (token.name === 'script') {
+      const kind = getScriptKind(startTag?.attributes);
+      if (kind === 'javascript') {
+        fragment = beautifyScriptFragment(token.raw);
+        isJavaScript = true;
+      } else if (kind === 'json') {
+        const json = beautifyJson(token.raw, sourceName);
+        fragment = json.parseFailed ? null : json;
+      }
+    }
     
-    // Split content into tokens (tags and text)
-    const tokens = normalized.split(/(<[^>]+>)/g).filter(token => token.trim() !== '');
+    if (fragment?.map) {
+      emitMapped(fragment, token.start);
+      // Record where the script landed so it can be analyzed as JavaScript
+      if (isJavaScript) {
+        const type = startTag?.attributes?.find(attr => attr.name === 'type')?.value;
+        scriptRegions.push({
+          startLine: writer.line - fragment.code.split('\n').length + 1,
+          endLine: writer.line,
+          isModule: type?.trim().toLowerCase() === 'module',
+        });
+      }
+    } else {
+      emitText(token.start, token.end);
+    }
+  };
+  
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t];
     
-    for (const token of tokens) {
-      const trimmedToken = token.trim();
+    switch (token.type) {
+      case 'text':
+        emitText(token.start, token.end);
+        break;
+      
+      case 'rawText':
+        emitRawText(token, tokens[t - 1]);
+        break;
       
-      if (!trimmedToken) continue;
+      case 'endTag': {
+        // Close the matching element (and any unclosed children)
+        const index = stack.lastIndexOf(token.name!);
+        if (index !== -1) stack.length = index;
+        emitLine(token.raw, token.start);
+        break;
+      }
       
-      // Check if it's a tag
-      if (trimmedToken.startsWith('<')) {
-        // Self-closing tag or declaration
-        if (trimmedToken.startsWith('<!') || 
-            trimmedToken.startsWith('<?') || 
-            trimmedToken.endsWith('/>')) {
-          formatted += indentStr.repeat(indent) + trimmedToken + '\n';
+      case 'startTag': {
+        const name = token.name!;
+        const isVoid = token.selfClosing || (!xml && VOID_ELEMENTS.has(name));
+        
+        if (!xml && IMPLICITLY_CLOSED_ELEMENTS.has(name) && stack[stack.length - 1] === name) {
+          stack.pop();
         }
-        // Closing tag
-        else if (trimmedToken.startsWith('</')) {
-          indent = Math.max(0, indent - 1);
-          formatted += indentStr.repeat(indent) + trimmedToken + '\n';
+        if (!xml && P_CLOSING_ELEMENTS.has(name) && stack[stack.length - 1] === 'p') {
+          stack.pop();
         }
-        // Opening tag
-        else {
-          formatted += indentStr.repeat(indent) + trimmedToken + '\n';
-          indent++;
+        
+        // Preformatted elements are copied verbatim, including nested markup
+        if (!xml && !isVoid && PREFORMATTED_ELEMENTS.has(name)) {
+          const closeIndex = findClosingToken(tokens, t);
+          const end = closeIndex === -1 ? content.length : tokens[closeIndex].end;
+          emitLine(content.slice(token.start, end), token.start);
+          t = closeIndex === -1 ? tokens.length : closeIndex;
+          break;
         }
-      } else {
-        // Text content - preserve it with current indentation
-        const textLines = trimmedToken.split('\n');
-        for (const line of textLines) {
-          const trimmedLine = line.trim();
-          if (trimmedLine) {
-            formatted += indentStr.repeat(indent) + trimmedLine + '\n';
-          }
+        
+        emitLine(token.raw, token.start);
+        if (isVoid) break;
+        
+        // Keep empty elements and short single-line text on one line: <p>text</p>
+        const next = tokens[t + 1];
+        const afterNext = tokens[t + 2];
+        if (next?.type === 'endTag' && next.name === name) {
+          writer.write(next.raw, next.start);
+          t += 1;
+          break;
+        }
+        if ((next?.type === 'text' || (next?.type === 'rawText' && name === 'title')) &&
+            afterNext?.type === 'endTag' && afterNext.name === name &&
+            !next.raw.includes('\n') && next.raw.trim().length <= INLINE_TEXT_LIMIT) {
+          const trimmed = next.raw.trim();
+          writer.write(trimmed, next.start + next.raw.indexOf(trimmed));
+          writer.write(afterNext.raw, afterNext.start);
+          t += 2;
+          break;
         }
+        
+        stack.push(name);
+        break;
       }
+      
+      default:
+        // Comments, doctype, CDATA and processing instructions are kept verbatim
+        emitLine(token.raw, token.start);
     }
-    
-    return formatted.trimEnd();
+  }
+  
+  return { ...writer.toResult(), scriptRegions };
+}
+
+/**
+ * HTML beautification with indentation
+ * Uses a tokenizer that understands void elements, comments, raw-text elements
+ * and preformatted content. Inline <script> content is beautified with esbuild
+ * and inline <style> content with the CSS formatter; their source maps are
+ * merged so every line maps back to the original HTML.
+ * 
+ * @param content - HTML string to beautify
+ * @param sourceName - Source name recorded in the source map
+ * @returns Beautified HTML with source map and script regions, or original content (and null map) if formatting fails
+ */
+export function beautifyHtml(content: string, sourceName: string = 'input.html'): HtmlBeautifyResult {
+  try {
+    return formatMarkup(content, sourceName, false);
   } catch {
     // If formatting fails, return original content (Requirement 8.5)
-    return content;
+    return { code: content, map: null, scriptRegions: [] };
   }
 }
 
 /**
- * Simple CSS beautification with indentation
- * @param content - CSS string to beautify
- * @returns Beautified CSS string, or original content if formatting fails
+ * XML beautification with indentation
+ * Like beautifyHtml, but names are case-sensitive and no element is treated
+ * as void, raw-text or preformatted.
+ * 
+ * @param content - XML string to beautify
+ * @param sourceName - Source name recorded in the source map
+ * @returns Beautified XML with source map, or original content (and null map) if formatting fails
  */
-export function beautifyCss(content: string): string {
+export function beautifyXml(content: string, sourceName: string = 'input.xml'): HtmlBeautifyResult {
   try {
-    // Simple regex-based formatting for CSS
-    let formatted = content;
-    
-    // Normalize line endings
-    formatted = formatted.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-    
-    // Add newline after { and before }
-    formatted = formatted.replace(/\{/g, ' {\n');
-    formatted = formatted.replace(/\}/g, '\n}\n');
-    
-    // Add newline after ;
-    formatted = formatted.replace(/;/g, ';\n');
-    
-    // Clean up multiple newlines
-    formatted = formatted.replace(/\n\s*\n/g, '\n');
+    return formatMarkup(content, sourceName, true);
+  } catch {
+    // If formatting fails, return original content (Requirement 8.5)
+    return { code: content, map: null, scriptRegions: [] };
+  }
+}
+
+/**
+ * Format CSS tokens with indentation and a source map
+ * @throws Error on malformed input (unterminated strings/comments, unmatched braces)
+ */
+function formatCss(content: string, sourceName: string): MappedCode {
+  const tokens = tokenizeCss(content);
+  const writer = createMappedWriter(content, sourceName);
+  let depth = 0;
+  let parenDepth = 0;
+  let firstLine = true;
+  let pending: CssToken[] = [];
+  
+  const startLine = (): void => {
+    if (!firstLine) writer.newline();
+    firstLine = false;
+    writer.write(INDENT.repeat(depth));
+  };
+  
+  // Write tokens with surrounding whitespace removed and inner whitespace collapsed
+  // (except in custom property values)
+  const writeTokens = (parts: CssToken[], isDeclaration: boolean): void => {
+    let first = 0;
+    let last = parts.length - 1;
+    while (first <= last && parts[first].type === 'whitespace') first++;
+    while (last >= first && parts[last].type === 'whitespace') last--;
     
-    // Add indentation
-    const lines = formatted.split('\n');
-    let indent = 0;
-    const indentStr = '  ';
-    const result: string[] = [];
+    const customProperty = isDeclaration && parts[first]?.raw.startsWith('--');
+    let colonSpaced = !isDeclaration || customProperty;
+    let verbatim = false;
+    for (let i = first; i <= last; i++) {
+      const token = parts[i];
+      if (token.type === 'whitespace') {
+        if (verbatim) {
+          writer.write(token.raw, token.start);
+        } else {
+          writer.write(' ');
+        }
+        continue;
+      }
+      writer.write(token.raw, token.start);
+      // Custom property values are kept verbatim, whitespace included
+      if (customProperty && !verbatim && token.type === 'colon') {
+        verbatim = true;
+      }
+      // "color:red" -> "color: red"
+      if (!colonSpaced && token.type === 'colon') {
+        colonSpaced = true;
+        if (parts[i + 1] && parts[i + 1].type !== 'whitespace') writer.write(' ');
+      }
+    }
+  };
+  
+  const hasContent = (parts: CssToken[]): boolean => parts.some(token => token.type !== 'whitespace');
+  
+  // Emit pending tokens as one line, optionally followed by a delimiter token
+  const flush = (delimiter?: CssToken): void => {
+    const parts = pending;
+    pending = [];
+    if (!hasContent(parts)) {
+      if (delimiter?.type === 'openBrace') {
+        startLine();
+        writer.write(delimiter.raw, delimiter.start);
+      }
+      return;
+    }
+    startLine();
+    const isDeclaration = delimiter?.type !== 'openBrace' && depth > 0 &&
+      !parts.find(token => token.type !== 'whitespace')!.raw.startsWith('@');
+    writeTokens(parts, isDeclaration);
+    if (delimiter) {
+      if (delimiter.type === 'openBrace') writer.write(' ');
+      writer.write(delimiter.raw, delimiter.start);
+    }
+  };
+  
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t];
     
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
+    switch (token.type) {
+      case 'comment':
+        // Standalone comments get their own line; comments inside a value stay inline
+        if (hasContent(pending)) {
+          pending.push(token);
+        } else {
+          pending = [];
+          startLine();
+          writer.write(token.raw, token.start);
+        }
+        break;
       
-      // Decrease indent before closing brace
-      if (trimmed.startsWith('}')) {
-        indent = Math.max(0, indent - 1);
-      }
+      case 'openParen':
+        parenDepth++;
+        pending.push(token);
+        break;
+      
+      case 'closeParen':
+        parenDepth = Math.max(0, parenDepth - 1);
+        pending.push(token);
+        break;
       
-      result.push(indentStr.repeat(indent) + trimmed);
+      case 'semicolon':
+        if (parenDepth > 0) {
+          pending.push(token);
+        } else if (hasContent(pending)) {
+          flush(token);
+        }
+        break;
       
-      // Increase indent after opening brace
-      if (trimmed.endsWith('{')) {
-        indent++;
+      case 'openBrace': {
+        parenDepth = 0;
+        flush(token);
+        // Empty block stays on one line: "a {}"
+        let next = t + 1;
+        while (tokens[next]?.type === 'whitespace') next++;
+        if (tokens[next]?.type === 'closeBrace') {
+          writer.write(tokens[next].raw, tokens[next].start);
+          t = next;
+        } else {
+          depth++;
+        }
+        break;
       }
+      
+      case 'closeBrace':
+        if (depth === 0) {
+          throw new Error(`Unmatched "}" at offset ${token.start}`);
+        }
+        parenDepth = 0;
+        flush();
+        depth--;
+        startLine();
+        writer.write(token.raw, token.start);
+        break;
+      
+      default:
+        pending.push(token);
     }
-    
-    return result.join('\n');
+  }
+  flush();
+  
+  return writer.toResult();
+}
+
+/**
+ * CSS beautification with indentation
+ * Uses a tokenizer, so strings, comments and url() values are preserved
+ * verbatim; at-rules (@media, @supports, ...) and nested rules are indented
+ * by block depth.
+ * 
+ * @param content - CSS string to beautify
+ * @param sourceName - Source name recorded in the source map
+ * @returns Beautified CSS with source map, or original content (and null map) if formatting fails
+ */
+export function beautifyCss(content: string, sourceName: string = 'input.css'): MappedCode {
+  try {
+    return formatCss(content, sourceName);
   } catch {
     // If formatting fails, return original content (Requirement 8.5)
-    return content;
+    return { code: content, map: null };
   }
 }
 
@@ -316,64 +762,91 @@ export function beautifyCss(content: string): string {
  * Beautify code string directly based on language
  * @param code - Source code to beautify
  * @param language - Language type
- * @returns Beautified code (or original if fallback mode)
+ * @param sourceName - Source name recorded in the source map (defaults per language)
+ * @returns Beautified code (or original if fallback mode) and source map (null if unavailable)
  */
 export function beautifyCode(
   code: string,
-  language: SupportedLanguage
-): { code: string; usedFallback: boolean } {
+  language: SupportedLanguage,
+  sourceName?: string
+): { code: string; map: SourceMap | null; usedFallback: boolean; scriptRegions?: ScriptRegion[] } {
   const langInfo = getLanguageInfo(language);
   
   // If language doesn't support beautification, return original (fallback mode)
   if (!langInfo.supportsBeautify) {
-    return { code, usedFallback: true };
+    return { code, map: null, usedFallback: true };
   }
   
   switch (language) {
     case 'json': {
-      const result = beautifyJson(code);
+      const result = beautifyJson(code, sourceName);
       // If JSON parsing failed, use fallback mode (Requirement 8.4)
-      return { code: result.code, usedFallback: result.parseFailed };
+      return { code: result.code, map: result.map, usedFallback: result.parseFailed };
     }
     case 'html':
-    case 'xml':
-      return { code: beautifyHtml(code), usedFallback: false };
+      return { ...beautifyHtml(code, sourceName), usedFallback: false };
+    case 'xml': {
+      const result = beautifyXml(code, sourceName);
+      return { code: result.code, map: result.map, usedFallback: false };
+    }
     case 'css':
-      return { code: beautifyCss(code), usedFallback: false };
+      return { ...beautifyCss(code, sourceName), usedFallback: false };
     case 'javascript':
     case 'typescript':
       // JS/TS beautification requires async esbuild, handled separately
       // This function is for sync beautification of simple formats
-      return { code, usedFallback: true };
+      return { code, map: null, usedFallback: true };
     default:
       // Unknown language - fallback mode
-      return { code, usedFallback: true };
+      return { code, map: null, usedFallback: true };
   }
 }
 
 /**
  * Beautify file based on detected or specified language
  * - JS/TS: Use esbuild for formatting with source map
- * - JSON: Use JSON.stringify with indentation
- * - HTML/XML: Use simple indentation-based formatting
- * - CSS: Use simple formatting
+ * - JSON: Re-indent tokens with source map
+ * - HTML/XML: Use tokenizer-based formatting with source map (inline scripts/styles beautified)
+ * - CSS: Use tokenizer-based formatting with source map
  * - Unknown: Return original (fallback mode)
  * 
+ * Beautified output is also written next to the original file (or under
+ * options.outputDir) unless options.saveLocal is false.
+ * 
  * @param originalPath - Original file path
- * @param options - Optional beautify options (language, saveLocal, etc.)
- * @returns Beautified code and Source Map (null for non-JS/TS)
+ * @param options - Optional beautify options (language, saveLocal, outputDir, etc.)
+ * @returns Beautified code and Source Map (null for unknown languages or fallback)
  */
 export async function ensureBeautified(
   originalPath: string,
   options?: BeautifyOptions
+): Promise<BeautifyResult> {
+  const result = await beautifyFile(originalPath, options);
+  
+  // Compose with the file's own upstream map to reach the authored sources
+  if (options?.followSourceMap && result.rawMap) {
+    const absolutePath = path.resolve(originalPath);
+    const content = await fs.readFile(absolutePath, 'utf-8');
+    const upstreamMap = await loadUpstreamSourceMap(absolutePath, content);
+    result.authoredMap = upstreamMap ? composeSourceMaps(result.rawMap, upstreamMap) : null;
+  }
+  
+  return result;
+}
+
+/**
+ * Beautify a file with caching (see ensureBeautified)
+ */
+async function beautifyFile(
+  originalPath: string,
+  options?: BeautifyOptions
 ): Promise<BeautifyResult> {
   // Resolve to absolute path
   const absolutePath = path.resolve(originalPath);
   
   // Check if file exists
-  let stats: Awaited<ReturnType<typeof fs.stat>>;
   try {
-    stats = await fs.stat(absolutePath);
+    await fs.stat(absolutePath);
   } catch {
     throw new Error(`File not found: ${originalPath}`);
   }
@@ -386,26 +859,31 @@ export async function ensureBeautified(
   const language = langInfo.language;
   
   // Get local paths for local save/read
-  const localPaths = getLocalPaths(absolutePath);
+  const localPaths = getLocalPaths(absolutePath, options);
+  const saveLocal = options?.saveLocal ?? true;
   
-  // Handle non-JS/TS languages (no caching, no source map)
+  // Handle non-JS/TS languages (no caching, source map from the built-in formatters)
   if (language !== 'javascript' && language !== 'typescript') {
     const content = await fs.readFile(absolutePath, 'utf-8');
-    const beautified = beautifyCode(content, language);
+    const beautified = beautifyCode(content, language, path.basename(absolutePath));
     
     return {
       code: beautified.code,
-      rawMap: null, // No source map for non-JS/TS
+      rawMap: beautified.map,
       localPath: localPaths.beautifiedPath,
       localMapPath: localPaths.mapPath,
+      savedLocal: false,
       usedFallback: beautified.usedFallback,
+      scriptRegions: beautified.scriptRegions,
     };
   }
   
   // JS/TS processing with esbuild and caching
-  // Check local cache first
-  const localCacheCheck = await isLocalCacheValid(absolutePath);
-  if (localCacheCheck.isValid) {
+  // Check local cache first (skipped entirely when local output is disabled)
+  const localCacheCheck = saveLocal
+    ? await isLocalCacheValid(absolutePath, options)
+    : null;
+  if (localCacheCheck?.isValid) {
     // Local cache hit - read from local files
     try {
       const [code, mapContent] = await Promise.all([
@@ -417,6 +895,7 @@ export async function ensureBeautified(
         rawMap: JSON.parse(mapContent) as SourceMap,
         localPath: localPaths.beautifiedPath,
         localMapPath: localPaths.mapPath,
+        savedLocal: true,
         usedFallback: false,
       };
     } catch {
@@ -424,31 +903,34 @@ export async function ensureBeautified(
     }
   }
   
-  // Ensure temp cache directory exists
-  await ensureCacheDir();
-  
-  // Calculate cache key for temp directory
-  const hash = calculateCacheKey(absolutePath, stats.mtimeMs);
-  const { beautifiedPath, mapPath } = getCachePaths(absolutePath, hash);
+  // Calculate content-based cache key for the shared cache
+  const content = await fs.readFile(absolutePath);
+  const loader = getLoader(absolutePath, language);
+  const cacheKey = calculateCacheKey(content, {
+    ...ESBUILD_BEAUTIFY_OPTIONS,
+    loader,
+    upstreamSourceMaps: 'ignored',
+  });
   
-  // Check temp cache
-  if (await isCacheValid(beautifiedPath, mapPath)) {
-    // Temp cache hit - read from cache
-    const [code, mapContent] = await Promise.all([
-      fs.readFile(beautifiedPath, 'utf-8'),
-      fs.readFile(mapPath, 'utf-8')
-    ]);
+  // Check shared cache
+  const cached = await readCacheEntry(cacheKey);
+  if (cached) {
+    // Cache hit - relink the map to this file, since identical copies share entries
+    const { rawMap, mapText } = relinkSourceMap(cached.mapText, absolutePath, localPaths.mapPath);
     
     const result: BeautifyResult = {
-      code,
-      rawMap: JSON.parse(mapContent) as SourceMap,
+      code: cached.code,
+      rawMap,
       localPath: localPaths.beautifiedPath,
       localMapPath: localPaths.mapPath,
+      savedLocal: false,
       usedFallback: false,
     };
     
     // Also save to local directory
-    await saveToLocal(result, localPaths, mapContent);
+    if (saveLocal) {
+      await saveToLocal(result, localPaths, mapText);
+    }
     
     return result;
   }
@@ -456,27 +938,25 @@ export async function ensureBeautified(
   // Cache miss - beautify with Esbuild
   let esbuildResult: esbuild.BuildResult;
   try {
+    // sourceMappingURL comments are disabled so the map always points at
+    // this file; upstream maps are composed separately (followSourceMap)
     esbuildResult = await esbuild.build({
-      entryPoints: [absolutePath],
-      bundle: false,
-      write: false,
-      format: 'esm',
-      sourcemap: 'external',
-      sourcesContent: false,
-      outfile: 'out.js',
-      // Beautify settings
-      minify: false,
-      keepNames: true,
-      treeShaking: false,
+      ...ESBUILD_BEAUTIFY_OPTIONS,
+      stdin: {
+        contents: neutralizeSourceMappingUrls(content.toString('utf-8')),
+        sourcefile: path.basename(absolutePath),
+        resolveDir: path.dirname(absolutePath),
+        loader,
+      },
     });
   } catch (err) {
     // If esbuild fails, fall back to returning original content
-    const content = await fs.readFile(absolutePath, 'utf-8');
     return {
-      code: content,
+      code: content.toString('utf-8'),
       rawMap: null,
       localPath: localPaths.beautifiedPath,
       localMapPath: localPaths.mapPath,
+      savedLocal: false,
       usedFallback: true,
     };
   }
@@ -487,36 +967,35 @@ export async function ensureBeautified(
   
   if (!codeFile || !mapFile) {
     // If output files are missing, fall back to original content
-    const content = await fs.readFile(absolutePath, 'utf-8');
     return {
-      code: content,
+      code: content.toString('utf-8'),
       rawMap: null,
       localPath: localPaths.beautifiedPath,
       localMapPath: localPaths.mapPath,
+      savedLocal: false,
       usedFallback: true,
     };
   }
   
   const code = codeFile.text;
-  const rawMap = JSON.parse(mapFile.text) as SourceMap;
-  const mapText = mapFile.text;
+  const { rawMap, mapText } = relinkSourceMap(mapFile.text, absolutePath, localPaths.mapPath);
   
-  // Write to temp cache
-  await Promise.all([
-    fs.writeFile(beautifiedPath, code, 'utf-8'),
-    fs.writeFile(mapPath, mapText, 'utf-8')
-  ]);
+  // Write to shared cache (atomic, so concurrent readers never see partial files)
+  await writeCacheEntry(cacheKey, { code, mapText });
   
   const result: BeautifyResult = {
     code,
     rawMap,
     localPath: localPaths.beautifiedPath,
     localMapPath: localPaths.mapPath,
+    savedLocal: false,
     usedFallback: false,
   };
   
   // Save to local directory
-  await saveToLocal(result, localPaths, mapText);
+  if (saveLocal) {
+    await saveToLocal(result, localPaths, mapText);
+  }
   
   return result;
 }
@@ -531,12 +1010,13 @@ async function saveToLocal(
   mapText: string
 ): Promise<void> {
   try {
-    await Promise.all([
-      fs.writeFile(localPaths.beautifiedPath, result.code, 'utf-8'),
-      fs.writeFile(localPaths.mapPath, mapText, 'utf-8')
-    ]);
+    await fs.mkdir(path.dirname(localPaths.beautifiedPath), { recursive: true });
+    // Write the map first so a fresh beautified file is never paired with a stale map
+    await writeFileAtomic(localPaths.mapPath, mapText);
+    await writeFileAtomic(localPaths.beautifiedPath, result.code);
     result.localPath = localPaths.beautifiedPath;
     result.localMapPath = localPaths.mapPath;
+    result.savedLocal = true;
   } catch (err) {
     // Handle specific error types
     const error = err as NodeJS.ErrnoException;
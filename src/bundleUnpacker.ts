@@ -0,0 +1,658 @@
+import { SourceMapConsumer, SourceMapGenerator } from 'source-map-js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { NodePath } from '@babel/traverse';
+import type * as t from '@babel/types';
+import { ensureBeautified, type BeautifyResult, type LocalOutputOptions, type SourceMap } from './beautifier.js';
+import { parseCode, getTraverse, getStaticPropertyName, unwrapKeepNames } from './analyzer.js';
+
+/**
+ * Bundler that produced a bundle: a webpack or browserify module table,
+ * "scope-hoisted" for Rollup/esbuild output split at its module banner
+ * comments, "unknown" if none was found
+ */
+export type BundlerKind = 'webpack' | 'browserify' | 'scope-hoisted' | 'unknown';
+
+/**
+ * A module function found in a parsed bundle
+ */
+export interface BundleModuleFunction {
+  /** Module id (table key or array index) */
+  id: string;
+  /** Bundler whose module table contains the function */
+  bundler: Exclude<BundlerKind, 'scope-hoisted' | 'unknown'>;
+  /** The module function */
+  path: NodePath<t.Function>;
+  /** Browserify dependency map (require specifier -> module id) */
+  dependencyMap?: Record<string, string>;
+}
+
+/**
+ * One module of an unpacked bundle, as a virtual file
+ */
+export interface BundleModule {
+  /** Module id (table key, array index, or the path of a module banner) */
+  id: string;
+  /** Virtual file name derived from the id (e.g. "123.js" or "src/app.js") */
+  fileName: string;
+  /**
+   * Module code: the module function, wrapped in parentheses (the module's
+   * statements for scope-hoisted bundles)
+   */
+  code: string;
+  /** Source map from the module code to the original bundle */
+  map: SourceMap;
+  /** First line of the module function in the beautified bundle (1-based) */
+  startLine: number;
+  /** Last line of the module function in the beautified bundle (1-based) */
+  endLine: number;
+  /**
+   * Ids of the modules it requires (for scope-hoisted bundles: the modules
+   * declaring the top-level names it uses)
+   */
+  dependencies: string[];
+}
+
+/**
+ * Result of unpacking a bundle
+ */
+export interface UnpackResult {
+  /** Path of the bundle */
+  filePath: string;
+  /** Detected bundler */
+  bundler: BundlerKind;
+  /** Modules in bundle order */
+  modules: BundleModule[];
+  /** Paths of the written module files (only with modulesDir) */
+  writtenFiles?: string[];
+}
+
+/**
+ * Options for unpackBundle
+ */
+export interface UnpackOptions extends LocalOutputOptions {
+  /** Save the beautified bundle locally (default: true) */
+  saveLocal?: boolean;
+  /**
+   * Write every module (and its .map, pointing at the bundle) into this
+   * directory, named by fileName
+   */
+  modulesDir?: string;
+}
+
+/** Code that may contain webpack module tables */
+const WEBPACK_MARKERS = /__webpack_require__|webpackChunk|webpackJsonp/;
+
+/** Arrays webpack chunks push their module tables onto */
+const CHUNK_ARRAY_PATTERN = /webpackJsonp|webpackChunk/;
+
+/**
+ * Banner comment before each module of a scope-hoisted bundle (`// src/app.js`),
+ * as written by esbuild and by Rollup builds that keep module comments
+ */
+const MODULE_BANNER_PATTERN = /^[ \t]*\/\/ ((?:[\w.@~+-]+\/)*[\w.@~+-]+\.(?:[cm]?[jt]sx?|json|vue|svelte))[ \t]*$/gm;
+
+/** Webpack module ids: numbers or module paths */
+const MODULE_ID_PATTERN = /^\d+$|[./]/;
+
+/**
+ * Check for a function that can be a module function (at most 3 parameters)
+ */
+function isModuleFunction(p: NodePath): p is NodePath<t.FunctionExpression | t.ArrowFunctionExpression> {
+  return (p.isFunctionExpression() || p.isArrowFunctionExpression()) && p.node.params.length <= 3;
+}
+
+/**
+ * Check that an array is in a position webpack puts array module tables in:
+ * the argument of the bootstrap IIFE (`!function (e) {...}([...])`), the
+ * value of `__webpack_modules__`, or the modules of a chunk push
+ * (`(self.webpackChunkapp = ...).push([[1], [...]])`)
+ */
+function isModuleTablePosition(p: NodePath<t.ArrayExpression>, code: string): boolean {
+  const parent = p.parentPath;
+  if (parent?.isCallExpression()) {
+    const callee = parent.node.callee;
+    return p.listKey === 'arguments' && (callee.type === 'FunctionExpression' || callee.type === 'ArrowFunctionExpression');
+  }
+  if (parent?.isVariableDeclarator()) {
+    const id = parent.node.id;
+    return p.key === 'init' && id.type === 'Identifier' && id.name === '__webpack_modules__';
+  }
+  if (parent?.isAssignmentExpression()) {
+    const left = parent.node.left;
+    return p.key === 'right' && left.type === 'Identifier' && left.name === '__webpack_modules__';
+  }
+  if (parent?.isArrayExpression() && p.key === 1) {
+    const call = parent.parentPath;
+    if (!call?.isCallExpression() || parent.listKey !== 'arguments') return false;
+    const callee = call.node.callee;
+    return callee.type === 'MemberExpression'
+      && getStaticPropertyName(callee.property, callee.computed) === 'push'
+      && CHUNK_ARRAY_PATTERN.test(code.slice(callee.object.start!, callee.object.end!));
+  }
+  return false;
+}
+
+/**
+ * Read a browserify module entry: `[function (require, module, exports) {...}, {"./a": 2}]`
+ */
+function getBrowserifyEntry(
+  p: NodePath
+): { path: NodePath<t.Function>; dependencyMap: Record<string, string> } | null {
+  if (!p.isArrayExpression() || p.node.elements.length !== 2) return null;
+  const [element, deps] = p.get('elements') as NodePath[];
+  const fn = unwrapKeepNames(element);
+  if (!isModuleFunction(fn) || !deps.isObjectExpression()) return null;
+
+  const dependencyMap: Record<string, string> = {};
+  for (const property of deps.node.properties) {
+    if (property.type !== 'ObjectProperty') return null;
+    const specifier = getStaticPropertyName(property.key, property.computed);
+    const value = property.value;
+    if (specifier === null) return null;
+    if (value.type === 'NumericLiteral' || value.type === 'StringLiteral') {
+      dependencyMap[specifier] = String(value.value);
+    } else if (!(value.type === 'Identifier' && value.name === 'undefined')) {
+      // Browserify writes `undefined` for excluded modules
+      return null;
+    }
+  }
+  return { path: fn, dependencyMap };
+}
+
+/**
+ * Find the module functions of a parsed bundle
+ *
+ * Recognizes webpack module tables (`{123: function (e, t, n) {...}}` or
+ * `[function (e, t, n) {...}, ...]`, including the ones pushed onto
+ * `webpackJsonp`/`webpackChunk*` by chunks) and browserify module maps
+ * (`{1: [function (require, module, exports) {...}, {"./a": 2}]}`).
+ * Webpack tables are only looked for if the code contains webpack runtime
+ * markers, and arrays only where webpack puts its tables (other arrays of
+ * functions, such as callback lists, are left alone). Scope-hoisted Rollup
+ * and esbuild output has no module table (see splitBundle).
+ *
+ * @param ast - Parsed bundle
+ * @param code - Bundle code (used to detect webpack markers)
+ * @param traverse - Babel traverse
+ * @returns Module functions in source order
+ */
+export function findBundleModules(
+  ast: t.File,
+  code: string,
+  traverse: Awaited<ReturnType<typeof getTraverse>>
+): BundleModuleFunction[] {
+  const modules: BundleModuleFunction[] = [];
+  const webpack = WEBPACK_MARKERS.test(code);
+
+  traverse(ast, {
+    ObjectExpression(objectPath: NodePath<t.ObjectExpression>) {
+      const found: BundleModuleFunction[] = [];
+      let bundler: BundleModuleFunction['bundler'] | null = null;
+      for (const property of objectPath.get('properties')) {
+        if (property.isSpreadElement()) return;
+        const node = property.node as t.ObjectProperty | t.ObjectMethod;
+        const id = getStaticPropertyName(node.key, node.computed);
+        if (id === null || !MODULE_ID_PATTERN.test(id)) return;
+
+        if (property.isObjectMethod()) {
+          if (!webpack || bundler === 'browserify') return;
+          bundler = 'webpack';
+          found.push({ id, bundler, path: property });
+          continue;
+        }
+        const value = unwrapKeepNames((property as NodePath<t.ObjectProperty>).get('value'));
+        const entry = bundler !== 'webpack' ? getBrowserifyEntry(value) : null;
+        if (entry) {
+          bundler = 'browserify';
+          found.push({ id, bundler, ...entry });
+        } else if (webpack && bundler !== 'browserify' && isModuleFunction(value)) {
+          bundler = 'webpack';
+          found.push({ id, bundler, path: value });
+        } else {
+          return;
+        }
+      }
+      if (found.length > 0) {
+        modules.push(...found);
+        objectPath.skip();
+      }
+    },
+    ArrayExpression(arrayPath: NodePath<t.ArrayExpression>) {
+      if (!webpack || !isModuleTablePosition(arrayPath, code)) return;
+      const found: BundleModuleFunction[] = [];
+      const elements = arrayPath.get('elements');
+      for (let i = 0; i < elements.length; i++) {
+        if (elements[i].node === null) continue;
+        const element = unwrapKeepNames(elements[i] as NodePath);
+        if (!isModuleFunction(element)) return;
+        found.push({ id: String(i), bundler: 'webpack', path: element });
+      }
+      if (found.length > 0) {
+        modules.push(...found);
+        arrayPath.skip();
+      }
+    },
+  });
+
+  return modules;
+}
+
+/**
+ * A module of a scope-hoisted bundle: the statements after its banner
+ */
+interface HoistedModule {
+  /** Path of the module banner */
+  id: string;
+  /** Statements of the module, in source order */
+  statements: NodePath<t.Statement>[];
+  /** Ids of the modules declaring the top-level names it uses */
+  dependencies: string[];
+}
+
+/**
+ * Find the module banners of a bundle with their lines (1-based)
+ */
+function findModuleBanners(source: string): Array<{ id: string; line: number }> {
+  const banners: Array<{ id: string; line: number }> = [];
+  let line = 1;
+  let lastIndex = 0;
+  for (const match of source.matchAll(MODULE_BANNER_PATTERN)) {
+    line += source.slice(lastIndex, match.index).split('\n').length - 1;
+    lastIndex = match.index!;
+    banners.push({ id: match[1], line });
+  }
+  return banners;
+}
+
+/**
+ * Find the modules of a scope-hoisted bundle (Rollup/esbuild output)
+ *
+ * The beautified code has lost the comments, so statements are mapped back
+ * to the bundle and belong to the last module banner above them there.
+ * The modules are taken from the statement list (the program, or the body
+ * of a wrapping function) that spans the most banners. Statements before
+ * the first banner are runtime code; statements without a mapping stay with
+ * the statement before them.
+ *
+ * @param ast - Parsed beautified bundle
+ * @param source - Original bundle code, with the module banners
+ * @param rawMap - Source map from the beautified code to the bundle
+ * @param traverse - Babel traverse
+ * @returns Modules in source order (none unless at least two banners have code)
+ */
+function findHoistedModules(
+  ast: t.File,
+  source: string,
+  rawMap: SourceMap,
+  traverse: Awaited<ReturnType<typeof getTraverse>>
+): HoistedModule[] {
+  const banners = findModuleBanners(source);
+  if (banners.length < 2) return [];
+
+  const consumer = new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) });
+  // The first mapping at or after the start (`(() => {` is mapped after the paren)
+  const getOriginalLine = (node: t.Node) => consumer.originalPositionFor({
+    line: node.loc!.start.line,
+    column: node.loc!.start.column,
+    bias: SourceMapConsumer.LEAST_UPPER_BOUND,
+  }).line;
+
+  const groupByBanner = (statements: NodePath<t.Statement>[]): HoistedModule[] => {
+    const modules: HoistedModule[] = [];
+    let current: HoistedModule | null = null;
+    let bannerIndex = -1;
+    for (const statement of statements) {
+      const line = getOriginalLine(statement.node);
+      let index = bannerIndex;
+      while (line !== null && index + 1 < banners.length && banners[index + 1].line < line) {
+        index++;
+      }
+      if (index !== bannerIndex) {
+        bannerIndex = index;
+        current = { id: banners[index].id, statements: [], dependencies: [] };
+        modules.push(current);
+      }
+      current?.statements.push(statement);
+    }
+    return modules;
+  };
+
+  // Outer lists come first, so they win ties
+  let modules: HoistedModule[] = [];
+  const visitList = (statements: NodePath<t.Statement>[]) => {
+    const candidates = groupByBanner(statements);
+    if (candidates.length > modules.length) {
+      modules = candidates;
+    }
+  };
+  traverse(ast, {
+    Program(p: NodePath<t.Program>) {
+      visitList(p.get('body'));
+    },
+    BlockStatement(p: NodePath<t.BlockStatement>) {
+      visitList(p.get('body'));
+    },
+  });
+  if (modules.length < 2) return [];
+
+  // Dependencies: modules declaring the shared top-level names a module uses
+  const owners = new Map<t.Node, HoistedModule>();
+  for (const module of modules) {
+    for (const statement of module.statements) {
+      owners.set(statement.node, module);
+    }
+  }
+  const scope = modules[0].statements[0].parentPath!.scope;
+  for (const module of modules) {
+    const dependencies = new Set<string>();
+    for (const statement of module.statements) {
+      statement.traverse({
+        Identifier(p: NodePath<t.Identifier>) {
+          if (!p.isReferencedIdentifier()) return;
+          const binding = p.scope.getBinding(p.node.name);
+          if (binding?.scope !== scope) return;
+          const owner = binding.path.find(candidate => owners.has(candidate.node));
+          const dependency = owner ? owners.get(owner.node)! : null;
+          if (dependency && dependency !== module) {
+            dependencies.add(dependency.id);
+          }
+        },
+      });
+    }
+    module.dependencies = [...dependencies];
+  }
+  return modules;
+}
+
+/**
+ * Get the virtual file name of a module: "<id>.js" for numeric ids, the
+ * module path (without leading "./" and "../") for path ids
+ */
+function getModuleFileName(id: string): string {
+  const name = id
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..')
+    .join('/')
+    .replace(/[^\w./@-]/g, '_');
+  if (name === '') return '_.js';
+  return /\.[cm]?[jt]sx?$/.test(name) ? name : `${name}.js`;
+}
+
+/**
+ * Get the ids of the modules a module function requires
+ */
+function getDependencies(module: BundleModuleFunction): string[] {
+  if (module.dependencyMap) {
+    return [...new Set(Object.values(module.dependencyMap))];
+  }
+  const requireParam = module.path.node.params[2];
+  if (requireParam?.type !== 'Identifier') return [];
+
+  const dependencies = new Set<string>();
+  module.path.traverse({
+    CallExpression(p) {
+      const { callee, arguments: args } = p.node;
+      if (callee.type !== 'Identifier' || callee.name !== requireParam.name || args.length !== 1) return;
+      const [arg] = args;
+      if (arg.type === 'NumericLiteral' || arg.type === 'StringLiteral') {
+        dependencies.add(String(arg.value));
+      }
+    },
+  });
+  return [...dependencies];
+}
+
+/**
+ * Cut a module function (or the statements of a scope-hoisted module) out
+ * of the beautified bundle
+ *
+ * The function keeps its lines (the text before it on its first line is
+ * dropped) and is wrapped in parentheses so it parses as an expression
+ * statement. Object methods (`123(e, t, n) {...}`)
+ * are rewritten to function expressions. Statements are kept as they are.
+ *
+ * @returns Module code and a line/column translation from bundle positions
+ */
+function extractModuleCode(
+  lines: string[],
+  node: t.Function | t.Statement[]
+): { code: string; startLine: number; endLine: number; translate: (line: number, column: number) => number | null } {
+  const start = Array.isArray(node) ? node[0].loc!.start : node.loc!.start;
+  const end = Array.isArray(node) ? node[node.length - 1].loc!.end : node.loc!.end;
+  const firstLine = lines[start.line - 1];
+
+  // Text of the first line is kept from restStart on, after the head
+  let head = Array.isArray(node) ? '' : '(';
+  const tail = Array.isArray(node) ? '' : ');';
+  let restStart = start.column;
+  if (!Array.isArray(node) && node.type === 'ObjectMethod') {
+    head = '(function ';
+    restStart = firstLine.indexOf('(', node.key.loc!.end.column);
+  }
+  const shift = head.length - restStart;
+
+  const moduleLines = lines.slice(start.line - 1, end.line);
+  const lastIndex = moduleLines.length - 1;
+  moduleLines[lastIndex] = moduleLines[lastIndex].slice(0, end.column) + tail;
+  moduleLines[0] = head + moduleLines[0].slice(restStart);
+
+  const translate = (line: number, column: number): number | null => {
+    if (line < start.line || line > end.line) return null;
+    if (line === end.line && column >= end.column) return null;
+    if (line !== start.line) return column;
+    return column >= restStart ? column + shift : null;
+  };
+
+  return { code: moduleLines.join('\n'), startLine: start.line, endLine: end.line, translate };
+}
+
+/**
+ * Move the mappings of a bundle map that fall inside a module onto the module code
+ */
+function extractModuleMap(
+  mappingsByLine: Map<number, Array<{ column: number; source: string; line: number; originalColumn: number; name: string | null }>>,
+  startLine: number,
+  endLine: number,
+  translate: (line: number, column: number) => number | null
+): SourceMap {
+  const generator = new SourceMapGenerator();
+  for (let line = startLine; line <= endLine; line++) {
+    for (const mapping of mappingsByLine.get(line) ?? []) {
+      const column = translate(line, mapping.column);
+      if (column === null) continue;
+      generator.addMapping({
+        generated: { line: line - startLine + 1, column },
+        original: { line: mapping.line, column: mapping.originalColumn },
+        source: mapping.source,
+        name: mapping.name ?? undefined,
+      });
+    }
+  }
+  const json = generator.toJSON();
+  return { version: 3, sources: json.sources, names: json.names, mappings: json.mappings };
+}
+
+/**
+ * Group the mappings of a source map by generated line
+ */
+function groupMappingsByLine(map: SourceMap) {
+  const consumer = new SourceMapConsumer({ ...map, version: String(map.version) });
+  const byLine = new Map<number, Array<{ column: number; source: string; line: number; originalColumn: number; name: string | null }>>();
+  consumer.eachMapping(mapping => {
+    if (mapping.source == null || mapping.originalLine == null || mapping.originalColumn == null) return;
+    let entries = byLine.get(mapping.generatedLine);
+    if (!entries) {
+      entries = [];
+      byLine.set(mapping.generatedLine, entries);
+    }
+    entries.push({
+      column: mapping.generatedColumn,
+      source: mapping.source,
+      line: mapping.originalLine,
+      originalColumn: mapping.originalColumn,
+      name: mapping.name ?? null,
+    });
+  });
+  return byLine;
+}
+
+/**
+ * Split beautified bundle code into modules
+ *
+ * @param code - Beautified bundle code
+ * @param rawMap - Source map from the beautified code to the bundle
+ * @param extraMaps - Further maps of the beautified code to carry over
+ *   (e.g. the authored map); returned per module in the same order
+ * @param source - Original bundle code, to split scope-hoisted bundles at
+ *   their module banners (without it, they are reported as "unknown")
+ * @returns Detected bundler, and the modules with their maps
+ */
+export async function splitBundle(
+  code: string,
+  rawMap: SourceMap,
+  extraMaps: SourceMap[] = [],
+  source?: string
+): Promise<{ bundler: BundlerKind; modules: Array<BundleModule & { extraMaps: SourceMap[] }> }> {
+  const traverse = await getTraverse();
+  const ast = parseCode(code);
+  let bundler: BundlerKind = 'unknown';
+  let found: Array<{ id: string; node: t.Function | t.Statement[]; dependencies: string[] }> = [];
+
+  const tableModules = findBundleModules(ast, code, traverse);
+  if (tableModules.length > 0) {
+    bundler = tableModules[0].bundler;
+    found = tableModules.map(module => ({ id: module.id, node: module.path.node, dependencies: getDependencies(module) }));
+  } else if (source !== undefined) {
+    const hoistedModules = findHoistedModules(ast, source, rawMap, traverse);
+    if (hoistedModules.length > 0) {
+      bundler = 'scope-hoisted';
+      found = hoistedModules.map(module => ({
+        id: module.id,
+        node: module.statements.map(statement => statement.node),
+        dependencies: module.dependencies,
+      }));
+    }
+  }
+  if (found.length === 0) {
+    return { bundler: 'unknown', modules: [] };
+  }
+
+  const lines = code.split('\n');
+  const rawMappings = groupMappingsByLine(rawMap);
+  const extraMappings = extraMaps.map(groupMappingsByLine);
+  const usedNames = new Set<string>();
+
+  const modules = found.map(module => {
+    const { code: moduleCode, startLine, endLine, translate } = extractModuleCode(lines, module.node);
+
+    // Keep file names unique (the same id can appear in several chunks)
+    let fileName = getModuleFileName(module.id);
+    for (let n = 2; usedNames.has(fileName); n++) {
+      fileName = getModuleFileName(module.id).replace(/(\.[^./]+)$/, `~${n}$1`);
+    }
+    usedNames.add(fileName);
+
+    return {
+      id: module.id,
+      fileName,
+      code: moduleCode,
+      map: extractModuleMap(rawMappings, startLine, endLine, translate),
+      startLine,
+      endLine,
+      dependencies: module.dependencies,
+      extraMaps: extraMappings.map(mappings => extractModuleMap(mappings, startLine, endLine, translate)),
+    };
+  });
+
+  return { bundler, modules };
+}
+
+/**
+ * Narrow a beautified bundle down to one of its modules
+ *
+ * The returned result has the module's code, and rawMap/authoredMap
+ * translated onto it, so it can be searched and analyzed like a file.
+ *
+ * @param beautifyResult - Beautified bundle (must have a source map)
+ * @param moduleId - Id of the module
+ * @param filePath - Path to the bundle (read for the module banners of
+ *   scope-hoisted bundles)
+ * @throws Error if the bundle has no module with that id
+ */
+export async function selectBundleModule(
+  beautifyResult: BeautifyResult,
+  moduleId: string,
+  filePath: string
+): Promise<BeautifyResult> {
+  if (!beautifyResult.rawMap) {
+    throw new Error('Bundle modules are only available for JavaScript files');
+  }
+  const extraMaps = beautifyResult.authoredMap ? [beautifyResult.authoredMap] : [];
+  const source = await fs.readFile(filePath, 'utf-8');
+  const { modules } = await splitBundle(beautifyResult.code, beautifyResult.rawMap, extraMaps, source);
+  const module = modules.find(candidate => candidate.id === moduleId);
+  if (!module) {
+    throw new Error(`Module not found in bundle: ${moduleId}`);
+  }
+  return {
+    ...beautifyResult,
+    code: module.code,
+    rawMap: module.map,
+    scriptRegions: undefined,
+    ...(beautifyResult.authoredMap !== undefined && { authoredMap: module.extraMaps[0] ?? null }),
+  };
+}
+
+/**
+ * Unpack a bundle into its modules
+ *
+ * The bundle is beautified, the bundler is detected from its module table
+ * (webpack or browserify) and every module function becomes a virtual file
+ * named by its id, with a source map back to the original bundle.
+ * Scope-hoisted bundles (Rollup, esbuild) have no module table: they are
+ * split at their `// path/to/module.js` banner comments, and reported as
+ * "unknown" without modules when they have none (e.g. minified output).
+ *
+ * @param filePath - Path to the bundle
+ * @param options - Local output options and the directory to write modules to
+ * @returns Bundler and modules
+ * @throws Error if the file does not exist or cannot be parsed
+ */
+export async function unpackBundle(filePath: string, options?: UnpackOptions): Promise<UnpackResult> {
+  const absolutePath = path.resolve(filePath);
+  const beautifyResult = await ensureBeautified(absolutePath, {
+    saveLocal: options?.saveLocal,
+    outputDir: options?.outputDir,
+    workspaceRoot: options?.workspaceRoot,
+  });
+  if (!beautifyResult.rawMap) {
+    throw new Error(`Bundle unpacking is only supported for JavaScript files: ${filePath}`);
+  }
+
+  const source = await fs.readFile(absolutePath, 'utf-8');
+  const split = await splitBundle(beautifyResult.code, beautifyResult.rawMap, [], source);
+  const modules: BundleModule[] = split.modules.map(({ extraMaps: _extraMaps, ...module }) => module);
+  const result: UnpackResult = { filePath, bundler: split.bundler, modules };
+
+  if (options?.modulesDir) {
+    const modulesDir = path.resolve(options.modulesDir);
+    result.writtenFiles = [];
+    for (const module of modules) {
+      const modulePath = path.join(modulesDir, module.fileName);
+      const source = path.relative(path.dirname(modulePath), absolutePath).split(path.sep).join('/');
+      const map: SourceMap = { ...module.map, sources: module.map.sources.map(() => source) };
+      await fs.mkdir(path.dirname(modulePath), { recursive: true });
+      await fs.writeFile(
+        modulePath,
+        `${module.code}\n//# sourceMappingURL=${path.basename(modulePath)}.map\n`,
+        'utf-8'
+      );
+      await fs.writeFile(`${modulePath}.map`, JSON.stringify(map), 'utf-8');
+      result.writtenFiles.push(modulePath);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,333 @@
+import * as esbuild from 'esbuild';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+const DEFAULT_CACHE_DIR = path.join(os.tmpdir(), 'smart-fs-mcp-cache');
+
+/** Default maximum total cache size (512 MB) */
+const DEFAULT_MAX_SIZE_BYTES = 512 * 1024 * 1024;
+
+/** Default maximum age of an unused cache entry (7 days) */
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Minimum interval between automatic evictions triggered by writes */
+const EVICTION_INTERVAL_MS = 60 * 1000;
+
+/** Temp files older than this are considered abandoned by a crashed writer */
+const STALE_TEMP_MS = 10 * 60 * 1000;
+
+const BEAUTIFIED_SUFFIX = '.beautified.js';
+const MAP_SUFFIX = `${BEAUTIFIED_SUFFIX}.map`;
+const TEMP_MARKER = '.tmp-';
+
+/**
+ * Cache configuration
+ */
+export interface CacheConfig {
+  /** Cache directory (default: {os.tmpdir()}/smart-fs-mcp-cache) */
+  directory?: string;
+  /** Maximum total size of cached files in bytes (default: 512 MB) */
+  maxSizeBytes?: number;
+  /** Maximum age in milliseconds since an entry was last used (default: 7 days) */
+  maxAgeMs?: number;
+}
+
+/**
+ * A cached beautification result
+ */
+export interface CacheEntry {
+  /** Beautified code */
+  code: string;
+  /** Source map JSON text */
+  mapText: string;
+}
+
+/**
+ * Cache statistics
+ */
+export interface CacheStats {
+  /** Cache directory */
+  directory: string;
+  /** Number of cache entries (beautified file + source map pairs) */
+  entries: number;
+  /** Total size of cached files in bytes */
+  totalBytes: number;
+  /** Last-used time of the least recently used entry (null if empty) */
+  oldestEntryMs: number | null;
+  /** Last-used time of the most recently used entry (null if empty) */
+  newestEntryMs: number | null;
+}
+
+/**
+ * Result of an eviction pass
+ */
+export interface EvictionResult {
+  /** Number of entries removed */
+  removedEntries: number;
+  /** Number of bytes freed */
+  freedBytes: number;
+}
+
+const config: Required<CacheConfig> = {
+  directory: DEFAULT_CACHE_DIR,
+  maxSizeBytes: DEFAULT_MAX_SIZE_BYTES,
+  maxAgeMs: DEFAULT_MAX_AGE_MS,
+};
+
+let lastEvictionMs = 0;
+
+/**
+ * Update cache configuration. Unspecified fields keep their current value.
+ *
+ * @param options - Cache configuration overrides
+ */
+export function configureCache(options: CacheConfig): void {
+  if (options.directory !== undefined) {
+    config.directory = path.resolve(options.directory);
+  }
+  if (options.maxSizeBytes !== undefined) {
+    config.maxSizeBytes = options.maxSizeBytes;
+  }
+  if (options.maxAgeMs !== undefined) {
+    config.maxAgeMs = options.maxAgeMs;
+  }
+  lastEvictionMs = 0;
+}
+
+/**
+ * Get the current cache directory
+ */
+export function getCacheDir(): string {
+  return config.directory;
+}
+
+/**
+ * Calculate a cache key from file content
+ *
+ * The key covers the content itself, the esbuild version and the options used
+ * to produce the output, so identical files share an entry regardless of
+ * their path or modification time.
+ *
+ * @param content - File content
+ * @param options - Options that affect the beautified output
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function calculateCacheKey(content: string | Buffer, options: Record<string, unknown> = {}): string {
+  return crypto
+    .createHash('sha256')
+    .update(`esbuild@${esbuild.version}\0`)
+    .update(`${JSON.stringify(options)}\0`)
+    .update(content)
+    .digest('hex');
+}
+
+/**
+ * Get cache file paths for a given cache key
+ */
+export function getCacheEntryPaths(key: string): { beautifiedPath: string; mapPath: string } {
+  const beautifiedPath = path.join(config.directory, `${key}${BEAUTIFIED_SUFFIX}`);
+  const mapPath = `${beautifiedPath}.map`;
+  return { beautifiedPath, mapPath };
+}
+
+/**
+ * Write a file atomically
+ *
+ * Data is written to a unique temp file in the same directory and renamed
+ * over the target, so concurrent readers see either the old or the new
+ * content, never a partially written file.
+ *
+ * @param filePath - Target file path
+ * @param data - File content
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}${TEMP_MARKER}${process.pid}-${crypto.randomBytes(6).toString('hex')}`;
+  try {
+    await fs.writeFile(tempPath, data, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Read a cache entry
+ *
+ * @param key - Cache key from calculateCacheKey
+ * @returns The cached entry, or null on cache miss
+ */
+export async function readCacheEntry(key: string): Promise<CacheEntry | null> {
+  const { beautifiedPath, mapPath } = getCacheEntryPaths(key);
+  let code: string;
+  let mapText: string;
+  try {
+    [code, mapText] = await Promise.all([
+      fs.readFile(beautifiedPath, 'utf-8'),
+      fs.readFile(mapPath, 'utf-8'),
+    ]);
+  } catch {
+    return null;
+  }
+
+  // Record the access so age/size eviction keeps recently used entries
+  const now = new Date();
+  await Promise.all([
+    fs.utimes(beautifiedPath, now, now),
+    fs.utimes(mapPath, now, now),
+  ]).catch(() => {});
+
+  return { code, mapText };
+}
+
+/**
+ * Write a cache entry atomically and trigger periodic eviction
+ *
+ * @param key - Cache key from calculateCacheKey
+ * @param entry - Beautified code and source map text
+ */
+export async function writeCacheEntry(key: string, entry: CacheEntry): Promise<void> {
+  await fs.mkdir(config.directory, { recursive: true });
+  const { beautifiedPath, mapPath } = getCacheEntryPaths(key);
+
+  // Write the map first: readers require both files, so a visible
+  // beautified file always has its map in place
+  await writeFileAtomic(mapPath, entry.mapText);
+  await writeFileAtomic(beautifiedPath, entry.code);
+
+  if (Date.now() - lastEvictionMs >= EVICTION_INTERVAL_MS) {
+    await evictCache().catch(() => {});
+  }
+}
+
+/**
+ * Files of one cache entry grouped for eviction
+ */
+interface EntryGroup {
+  files: string[];
+  bytes: number;
+  lastUsedMs: number;
+}
+
+/**
+ * Scan the cache directory and group files by entry
+ * Temp files from crashed writers are returned separately.
+ */
+async function scanCache(): Promise<{ groups: Map<string, EntryGroup>; staleTemps: string[] }> {
+  const groups = new Map<string, EntryGroup>();
+  const staleTemps: string[] = [];
+
+  let names: string[];
+  try {
+    names = await fs.readdir(config.directory);
+  } catch {
+    return { groups, staleTemps };
+  }
+
+  const now = Date.now();
+  for (const name of names) {
+    const filePath = path.join(config.directory, name);
+    let stats: Awaited<ReturnType<typeof fs.stat>>;
+    try {
+      stats = await fs.stat(filePath);
+    } catch {
+      continue;
+    }
+    if (!stats.isFile()) {
+      continue;
+    }
+
+    if (name.includes(TEMP_MARKER)) {
+      if (now - stats.mtimeMs > STALE_TEMP_MS) {
+        staleTemps.push(filePath);
+      }
+      continue;
+    }
+
+    const groupKey = name.endsWith(MAP_SUFFIX) ? name.slice(0, -'.map'.length) : name;
+    const group = groups.get(groupKey) ?? { files: [], bytes: 0, lastUsedMs: 0 };
+    group.files.push(filePath);
+    group.bytes += stats.size;
+    group.lastUsedMs = Math.max(group.lastUsedMs, stats.mtimeMs);
+    groups.set(groupKey, group);
+  }
+
+  return { groups, staleTemps };
+}
+
+/**
+ * Evict cache entries
+ *
+ * Removes entries unused for longer than maxAgeMs, then removes least
+ * recently used entries until the total size is within maxSizeBytes.
+ *
+ * @returns Number of entries and bytes removed
+ */
+export async function evictCache(): Promise<EvictionResult> {
+  lastEvictionMs = Date.now();
+  const { groups, staleTemps } = await scanCache();
+
+  await Promise.all(staleTemps.map(file => fs.rm(file, { force: true }).catch(() => {})));
+
+  const sorted = [...groups.values()].sort((a, b) => a.lastUsedMs - b.lastUsedMs);
+  let totalBytes = sorted.reduce((sum, group) => sum + group.bytes, 0);
+  const now = Date.now();
+
+  let removedEntries = 0;
+  let freedBytes = 0;
+  for (const group of sorted) {
+    const expired = now - group.lastUsedMs > config.maxAgeMs;
+    if (!expired && totalBytes <= config.maxSizeBytes) {
+      continue;
+    }
+    await Promise.all(group.files.map(file => fs.rm(file, { force: true }).catch(() => {})));
+    totalBytes -= group.bytes;
+    freedBytes += group.bytes;
+    removedEntries++;
+  }
+
+  return { removedEntries, freedBytes };
+}
+
+/**
+ * Get statistics about the beautify cache
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const { groups } = await scanCache();
+
+  let totalBytes = 0;
+  let oldestEntryMs: number | null = null;
+  let newestEntryMs: number | null = null;
+  for (const group of groups.values()) {
+    totalBytes += group.bytes;
+    oldestEntryMs = oldestEntryMs === null ? group.lastUsedMs : Math.min(oldestEntryMs, group.lastUsedMs);
+    newestEntryMs = newestEntryMs === null ? group.lastUsedMs : Math.max(newestEntryMs, group.lastUsedMs);
+  }
+
+  return {
+    directory: config.directory,
+    entries: groups.size,
+    totalBytes,
+    oldestEntryMs,
+    newestEntryMs,
+  };
+}
+
+/**
+ * Remove all entries from the beautify cache
+ *
+ * @returns Number of entries and bytes removed
+ */
+export async function clearCache(): Promise<EvictionResult> {
+  const { groups } = await scanCache();
+
+  let freedBytes = 0;
+  for (const group of groups.values()) {
+    await Promise.all(group.files.map(file => fs.rm(file, { force: true }).catch(() => {})));
+    freedBytes += group.bytes;
+  }
+
+  return { removedEntries: groups.size, freedBytes };
+}
@@ -0,0 +1,355 @@
+import { SourceMapConsumer } from 'source-map-js';
+import type { NodePath, Binding } from '@babel/traverse';
+import type * as t from '@babel/types';
+import type { SourceMap } from './beautifier.js';
+import {
+  parseCode,
+  getTraverse,
+  formatSourcePosition,
+  getStaticPropertyName,
+  unwrapKeepNames,
+  KEEP_NAMES_HELPER,
+  type LocationInfo,
+} from './analyzer.js';
+import { getOriginalPosition } from './sourceMapper.js';
+
+/**
+ * Kind of a call graph node
+ */
+export type CallGraphNodeKind = 'function' | 'arrow' | 'method' | 'program';
+
+/**
+ * A function in the call graph
+ */
+export interface CallGraphNode {
+  /** Unique id: name and definition position in the beautified code ("sign@12:4") */
+  id: string;
+  /** Function name ("Class.method" for class methods, "<program>" for top-level code) */
+  name: string;
+  /** Kind of function */
+  kind: CallGraphNodeKind;
+  /** Definition location (the name of the function) */
+  location: LocationInfo;
+  /** Distance from the queried functions (callersOf/calleesOf results only) */
+  depth?: number;
+}
+
+/**
+ * A call from one function to another
+ */
+export interface CallGraphEdge {
+  /** Id of the calling function (the innermost enclosing graph node) */
+  from: string;
+  /** Id of the called function */
+  to: string;
+  /** Location of the call */
+  callSite: LocationInfo;
+}
+
+/**
+ * Call graph of a file
+ */
+export interface CallGraph {
+  /** Functions, in source order */
+  nodes: CallGraphNode[];
+  /** Calls between functions, in source order */
+  edges: CallGraphEdge[];
+  /** Calls whose callee could not be resolved to a function of the graph */
+  unresolvedCalls: number;
+}
+
+/**
+ * Output format of formatCallGraph
+ */
+export type CallGraphFormat = 'json' | 'dot';
+
+/** Id of the node for top-level code */
+const PROGRAM_NODE_ID = '<program>';
+
+/**
+ * Build the call graph of beautified code
+ *
+ * Nodes are function declarations, function and arrow function expressions
+ * assigned to a variable, and class methods. Calls are resolved through
+ * scope bindings (`sign()`, `sign.call(...)`, `sign.apply(...)`), `this.method()`
+ * inside a class, and `ClassName.method()` for static methods. Calls made by
+ * anonymous functions (callbacks) are attributed to the innermost enclosing
+ * node, and top-level calls to the "<program>" node.
+ *
+ * @param code - Beautified code to analyze
+ * @param rawMap - Source map for coordinate mapping
+ * @returns Call graph with original positions
+ * @throws Error if the code cannot be parsed
+ */
+export async function buildCallGraph(code: string, rawMap: SourceMap): Promise<CallGraph> {
+  const ast = parseCode(code);
+  const lines = code.split('\n');
+  const consumer = new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) });
+  const traverse = await getTraverse();
+
+  const createLocation = (node: t.Node): LocationInfo => {
+    const { line, column } = node.loc!.start;
+    return {
+      line,
+      column,
+      originalPosition: getOriginalPosition(consumer, line, column),
+      lineContent: lines[line - 1] ?? '',
+    };
+  };
+
+  const programNode: CallGraphNode = {
+    id: PROGRAM_NODE_ID,
+    name: PROGRAM_NODE_ID,
+    kind: 'program',
+    location: {
+      line: 1,
+      column: 0,
+      originalPosition: getOriginalPosition(consumer, 1, 0),
+      lineContent: lines[0] ?? '',
+    },
+  };
+  const nodes: CallGraphNode[] = [];
+  const nodesByFunction = new Map<t.Node, CallGraphNode>();
+  const nodesByBinding = new Map<Binding, CallGraphNode>();
+  // Class bindings (or class nodes for anonymous classes) -> method name -> node
+  const methodsByClass = new Map<object, Map<string, CallGraphNode>>();
+
+  type Callee = { binding: Binding } | { classKey: object; method: string };
+  const calls: Array<{ from: CallGraphNode; callee: Callee | null; node: t.Node }> = [];
+
+  const addNode = (fn: t.Node, nameNode: t.Node, name: string, kind: CallGraphNodeKind): CallGraphNode | null => {
+    if (!nameNode.loc) return null;
+    const location = createLocation(nameNode);
+    const graphNode: CallGraphNode = { id: `${name}@${location.line}:${location.column}`, name, kind, location };
+    nodes.push(graphNode);
+    nodesByFunction.set(fn, graphNode);
+    return graphNode;
+  };
+
+  const getClassKey = (classPath: NodePath): object | null => {
+    const classNode = classPath.node as t.Class;
+    if (classNode.id) {
+      return classPath.scope.getBinding(classNode.id.name) ?? classNode;
+    }
+    const parent = classPath.parentPath;
+    if (parent?.isVariableDeclarator() && parent.node.id.type === 'Identifier') {
+      return parent.scope.getBinding(parent.node.id.name) ?? classNode;
+    }
+    return classNode;
+  };
+
+  const getClassName = (classPath: NodePath): string => {
+    const classNode = classPath.node as t.Class;
+    if (classNode.id) return classNode.id.name;
+    const parent = classPath.parentPath;
+    return parent?.isVariableDeclarator() && parent.node.id.type === 'Identifier'
+      ? parent.node.id.name
+      : '<class>';
+  };
+
+  const getEnclosingNode = (path: NodePath): CallGraphNode => {
+    const fnPath = path.findParent(p => nodesByFunction.has(p.node));
+    return fnPath ? nodesByFunction.get(fnPath.node)! : programNode;
+  };
+
+  const resolveCallee = (path: NodePath, callee: t.Node): Callee | null => {
+    if (callee.type === 'Identifier') {
+      const binding = path.scope.getBinding(callee.name);
+      return binding ? { binding } : null;
+    }
+    if (callee.type !== 'MemberExpression' && callee.type !== 'OptionalMemberExpression') {
+      return null;
+    }
+    const property = getStaticPropertyName(callee.property, callee.computed);
+    if (property === null) return null;
+
+    // this.method() inside a class
+    if (callee.object.type === 'ThisExpression') {
+      const classPath = path.findParent(p => p.isClass());
+      const classKey = classPath ? getClassKey(classPath) : null;
+      return classKey ? { classKey, method: property } : null;
+    }
+
+    // ClassName.method(), or sign.call(...) / sign.apply(...) (resolved later)
+    if (callee.object.type === 'Identifier') {
+      const binding = path.scope.getBinding(callee.object.name);
+      return binding ? { classKey: binding, method: property } : null;
+    }
+    return null;
+  };
+
+  traverse(ast, {
+    FunctionDeclaration(path) {
+      const { id } = path.node;
+      if (!id) return;
+      const graphNode = addNode(path.node, id, id.name, 'function');
+      const binding = path.parentPath.scope.getBinding(id.name);
+      if (graphNode && binding) nodesByBinding.set(binding, graphNode);
+    },
+
+    VariableDeclarator(path) {
+      const { id } = path.node;
+      const init = path.node.init ? unwrapKeepNames(path.get('init') as NodePath).node : null;
+      if (id.type !== 'Identifier' || id.name === KEEP_NAMES_HELPER || !init) return;
+      if (init.type !== 'FunctionExpression' && init.type !== 'ArrowFunctionExpression') return;
+      const graphNode = addNode(init, id, id.name, init.type === 'ArrowFunctionExpression' ? 'arrow' : 'function');
+      const binding = path.scope.getBinding(id.name);
+      if (graphNode && binding) nodesByBinding.set(binding, graphNode);
+    },
+
+    ClassMethod(path) {
+      const name = getStaticPropertyName(path.node.key, path.node.computed);
+      const classPath = path.parentPath.parentPath;
+      if (name === null || !classPath?.isClass()) return;
+      const graphNode = addNode(path.node, path.node.key, `${getClassName(classPath)}.${name}`, 'method');
+      const classKey = getClassKey(classPath);
+      if (graphNode && classKey) {
+        const methods = methodsByClass.get(classKey) ?? new Map<string, CallGraphNode>();
+        methods.set(name, graphNode);
+        methodsByClass.set(classKey, methods);
+      }
+    },
+
+    CallExpression(path) {
+      const { callee } = path.node;
+      if (callee.type === 'Identifier' && callee.name === KEEP_NAMES_HELPER) return;
+      calls.push({ from: getEnclosingNode(path), callee: resolveCallee(path, callee), node: callee });
+    },
+
+    OptionalCallExpression(path) {
+      calls.push({ from: getEnclosingNode(path), callee: resolveCallee(path, path.node.callee), node: path.node.callee });
+    },
+  });
+
+  const edges: CallGraphEdge[] = [];
+  let unresolvedCalls = 0;
+  let programCalls = false;
+  for (const call of calls) {
+    let target: CallGraphNode | undefined;
+    if (call.callee && 'binding' in call.callee) {
+      target = nodesByBinding.get(call.callee.binding);
+    } else if (call.callee) {
+      const { classKey, method } = call.callee;
+      target = methodsByClass.get(classKey)?.get(method);
+      if (!target && (method === 'call' || method === 'apply')) {
+        target = nodesByBinding.get(classKey as Binding);
+      }
+    }
+    if (!target || !call.node.loc) {
+      unresolvedCalls++;
+      continue;
+    }
+    programCalls ||= call.from === programNode;
+    edges.push({ from: call.from.id, to: target.id, callSite: createLocation(call.node) });
+  }
+
+  return {
+    nodes: programCalls ? [programNode, ...nodes] : nodes,
+    edges,
+    unresolvedCalls,
+  };
+}
+
+/**
+ * Walk the call graph from the given functions
+ */
+function walkCallGraph(
+  graph: CallGraph,
+  target: string,
+  maxDepth: number,
+  direction: 'callers' | 'callees'
+): CallGraph {
+  const depths = new Map<string, number>();
+  for (const node of graph.nodes) {
+    if (node.id === target || node.name === target) {
+      depths.set(node.id, 0);
+    }
+  }
+
+  const edges = new Set<CallGraphEdge>();
+  let frontier = new Set(depths.keys());
+  for (let depth = 1; depth <= maxDepth && frontier.size > 0; depth++) {
+    const next = new Set<string>();
+    for (const edge of graph.edges) {
+      const [from, to] = direction === 'callers' ? [edge.to, edge.from] : [edge.from, edge.to];
+      if (!frontier.has(from)) continue;
+      edges.add(edge);
+      if (!depths.has(to)) {
+        depths.set(to, depth);
+        next.add(to);
+      }
+    }
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes
+      .filter(node => depths.has(node.id))
+      .map(node => ({ ...node, depth: depths.get(node.id) })),
+    edges: graph.edges.filter(edge => edges.has(edge)),
+    unresolvedCalls: 0,
+  };
+}
+
+/**
+ * Find the functions that (transitively) call a function
+ *
+ * @param graph - Call graph from buildCallGraph
+ * @param target - Node id ("sign@12:4") or function name (all functions with that name)
+ * @param maxDepth - Maximum number of call levels to follow (default 1: direct callers)
+ * @returns Sub-graph with the target, its callers (with their depth) and the edges between them
+ */
+export function callersOf(graph: CallGraph, target: string, maxDepth: number = 1): CallGraph {
+  return walkCallGraph(graph, target, maxDepth, 'callers');
+}
+
+/**
+ * Find the functions that a function (transitively) calls
+ *
+ * @param graph - Call graph from buildCallGraph
+ * @param target - Node id ("sign@12:4") or function name (all functions with that name)
+ * @param maxDepth - Maximum number of call levels to follow (default 1: direct callees)
+ * @returns Sub-graph with the target, its callees (with their depth) and the edges between them
+ */
+export function calleesOf(graph: CallGraph, target: string, maxDepth: number = 1): CallGraph {
+  return walkCallGraph(graph, target, maxDepth, 'callees');
+}
+
+/**
+ * Escape a string for a quoted DOT id or label
+ */
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Format a call graph as JSON or as a Graphviz DOT digraph
+ *
+ * DOT nodes are labeled with the function name and its original position,
+ * edges with the original position of the call site.
+ *
+ * @param graph - Call graph (or a callersOf/calleesOf sub-graph)
+ * @param format - Output format (default "json")
+ * @returns Formatted output string
+ */
+export function formatCallGraph(graph: CallGraph, format: CallGraphFormat = 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(graph, null, 2);
+  }
+
+  const outputParts: string[] = ['digraph calls {'];
+  for (const node of graph.nodes) {
+    const { originalPosition } = node.location;
+    const srcPos = formatSourcePosition(originalPosition.line, originalPosition.column);
+    const label = srcPos ? `${escapeDot(node.name)}\\n${srcPos}` : escapeDot(node.name);
+    outputParts.push(`  "${escapeDot(node.id)}" [label="${label}"];`);
+  }
+  for (const edge of graph.edges) {
+    const { originalPosition } = edge.callSite;
+    const srcPos = formatSourcePosition(originalPosition.line, originalPosition.column);
+    const label = srcPos ? ` [label="${srcPos}"]` : '';
+    outputParts.push(`  "${escapeDot(edge.from)}" -> "${escapeDot(edge.to)}"${label};`);
+  }
+  outputParts.push('}');
+  return outputParts.join('\n');
+}
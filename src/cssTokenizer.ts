@@ -0,0 +1,129 @@
+/**
+ * CSS token types
+ */
+export type CssTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  | 'url'
+  | 'openBrace'
+  | 'closeBrace'
+  | 'openParen'
+  | 'closeParen'
+  | 'semicolon'
+  | 'colon'
+  | 'other';
+
+/**
+ * A token produced by tokenizeCss
+ */
+export interface CssToken {
+  /** Token type */
+  type: CssTokenType;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+  /** Raw source text of the token */
+  raw: string;
+}
+
+const SINGLE_CHAR_TOKENS: Record<string, CssTokenType> = {
+  '{': 'openBrace',
+  '}': 'closeBrace',
+  '(': 'openParen',
+  ')': 'closeParen',
+  ';': 'semicolon',
+  ':': 'colon',
+};
+
+const WHITESPACE = /\s/;
+
+/** Start of an unquoted (or empty) url(...) */
+const UNQUOTED_URL = /url\((?=\s*[^\s"'])/iy;
+
+function isUnquotedUrl(content: string, index: number): boolean {
+  UNQUOTED_URL.lastIndex = index;
+  return UNQUOTED_URL.test(content);
+}
+
+/**
+ * Tokenize CSS
+ *
+ * Strings, comments and unquoted url(...) values are returned as single
+ * tokens, so delimiters inside them (e.g. `content: "a;b"` or
+ * `url(data:image/svg+xml;base64,...)`) are never treated as syntax.
+ * Concatenating the raw text of all tokens reproduces the input exactly.
+ *
+ * @param content - CSS source
+ * @returns Tokens in source order
+ * @throws Error on unterminated comments or strings
+ */
+export function tokenizeCss(content: string): CssToken[] {
+  const tokens: CssToken[] = [];
+  let i = 0;
+
+  const push = (type: CssTokenType, start: number, end: number): void => {
+    tokens.push({ type, start, end, raw: content.slice(start, end) });
+  };
+
+  while (i < content.length) {
+    const start = i;
+    const ch = content[i];
+
+    if (WHITESPACE.test(ch)) {
+      while (i < content.length && WHITESPACE.test(content[i])) i++;
+      push('whitespace', start, i);
+    } else if (ch === '/' && content[i + 1] === '*') {
+      const close = content.indexOf('*/', i + 2);
+      if (close === -1) {
+        throw new Error(`Unterminated comment at offset ${start}`);
+      }
+      i = close + 2;
+      push('comment', start, i);
+    } else if (ch === '"' || ch === "'") {
+      i++;
+      while (i < content.length && content[i] !== ch) {
+        if (content[i] === '\\') {
+          i += 2;
+        } else if (content[i] === '\n') {
+          throw new Error(`Unterminated string at offset ${start}`);
+        } else {
+          i++;
+        }
+      }
+      if (i >= content.length) {
+        throw new Error(`Unterminated string at offset ${start}`);
+      }
+      i++;
+      push('string', start, i);
+    } else if (isUnquotedUrl(content, i)) {
+      // Unquoted url(...) is a single token; quoted urls are url + ( + string + )
+      let j = i + 4;
+      while (j < content.length && content[j] !== ')') {
+        j += content[j] === '\\' ? 2 : 1;
+      }
+      i = Math.min(content.length, j + 1);
+      push('url', start, i);
+    } else if (SINGLE_CHAR_TOKENS[ch]) {
+      i++;
+      push(SINGLE_CHAR_TOKENS[ch], start, i);
+    } else {
+      while (
+        i < content.length &&
+        !WHITESPACE.test(content[i]) &&
+        !SINGLE_CHAR_TOKENS[content[i]] &&
+        content[i] !== '"' &&
+        content[i] !== "'" &&
+        !(content[i] === '/' && content[i + 1] === '*') &&
+        !(i > start && isUnquotedUrl(content, i))
+      ) {
+        i += content[i] === '\\' ? 2 : 1;
+      }
+      i = Math.min(i, content.length);
+      push('other', start, i);
+    }
+  }
+
+  return tokens;
+}
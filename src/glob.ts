@@ -0,0 +1,127 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Options for finding files under a directory
+ */
+export interface FindFilesOptions {
+  /** Glob patterns of files to include (default: every file) */
+  include?: string[];
+  /** Glob patterns of files and directories to skip */
+  exclude?: string[];
+}
+
+/**
+ * Convert a glob pattern into a regular expression matching relative paths
+ *
+ * Supported syntax: `*` (any characters except `/`), `?` (one character
+ * except `/`), `**` (any number of directories), `{a,b}` (alternatives) and
+ * `[...]` (character classes). A pattern without `/` matches the file name
+ * at any depth (`*.js` matches `app.js` and `lib/app.js`), and a trailing
+ * `/**` also matches the directory itself.
+ *
+ * @param pattern - Glob pattern with `/` separators
+ * @returns RegExp matching the whole relative path
+ * @throws Error naming the pattern if a `{` is not closed or a character
+ *   class is invalid (e.g. `[z-a]`)
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (!glob.includes('/') && glob !== '**') {
+    glob = `**/${glob}`;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length;
+      if (atStart && glob[i + 2] === '/') {
+        // "**/" matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (atStart && atEnd && source.endsWith('/')) {
+        // Trailing "/**" matches the directory itself and everything below it
+        source = source.slice(0, -1) + '(?:/.*)?';
+        i += 1;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = close;
+      }
+    } else if (ch === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (ch === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (ch === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += ch.replace(/[.+^$()|\\[\]{}]/g, '\\$&');
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob pattern: ${pattern} (unclosed "{")`);
+  }
+  try {
+    return new RegExp(`^${source}$`);
+  } catch {
+    throw new Error(`Invalid glob pattern: ${pattern} (invalid character class)`);
+  }
+}
+
+/**
+ * Check whether a relative path matches any of the given patterns
+ */
+function matchesAny(relativePath: string, patterns: RegExp[]): boolean {
+  return patterns.some(pattern => pattern.test(relativePath));
+}
+
+/**
+ * Recursively find files under a directory that match include/exclude globs
+ *
+ * Excluded directories are not descended into. Symbolic links are skipped.
+ *
+ * @param rootDir - Directory to search
+ * @param options - Include/exclude patterns (relative to rootDir)
+ * @returns Matching file paths (rootDir joined with the relative path), sorted
+ */
+export async function findFiles(rootDir: string, options?: FindFilesOptions): Promise<string[]> {
+  const include = (options?.include ?? ['**/*']).map(globToRegExp);
+  const exclude = (options?.exclude ?? []).map(globToRegExp);
+  const files: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<void> => {
+    const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (matchesAny(relativePath, exclude)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(relativePath);
+      } else if (entry.isFile() && matchesAny(relativePath, include)) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  await walk('');
+  return files.sort().map(relativePath => path.join(rootDir, relativePath));
+}
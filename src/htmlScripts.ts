@@ -0,0 +1,58 @@
+/**
+ * Location of a beautified inline script inside beautified HTML
+ */
+export interface ScriptRegion {
+  /** First line of the script content in the beautified HTML (1-based) */
+  startLine: number;
+  /** Last line of the script content in the beautified HTML (1-based, inclusive) */
+  endLine: number;
+  /** Whether the script is an ES module (type="module") with its own scope */
+  isModule: boolean;
+}
+
+/**
+ * Build virtual JavaScript documents from the inline scripts of beautified HTML
+ *
+ * Every document has exactly as many lines as the beautified HTML: lines
+ * outside its scripts are blanked, so line and column numbers in the
+ * document are the beautified HTML's, and the HTML source map applies to
+ * the document unchanged.
+ *
+ * Classic scripts share the global scope, so they are combined into a single
+ * document (globals defined in one script resolve in the others). Each module
+ * script has its own scope and gets its own document.
+ *
+ * @param code - Beautified HTML
+ * @param regions - Script regions recorded by beautifyHtml
+ * @returns Virtual JavaScript documents (classic scripts first)
+ */
+export function createScriptDocuments(code: string, regions: ScriptRegion[]): string[] {
+  if (regions.length === 0) {
+    return [];
+  }
+
+  const lines = code.split('\n');
+  const buildDocument = (included: ScriptRegion[]): string => {
+    const output: string[] = new Array(lines.length).fill('');
+    for (const region of included) {
+      for (let line = region.startLine; line <= region.endLine; line++) {
+        output[line - 1] = lines[line - 1];
+      }
+      // Terminate each script so ASI never joins it with the next one
+      if (region.endLine < lines.length && output[region.endLine] === '') {
+        output[region.endLine] = ';';
+      }
+    }
+    return output.join('\n');
+  };
+
+  const documents: string[] = [];
+  const classic = regions.filter(region => !region.isModule);
+  if (classic.length > 0) {
+    documents.push(buildDocument(classic));
+  }
+  for (const region of regions.filter(region => region.isModule)) {
+    documents.push(buildDocument([region]));
+  }
+  return documents;
+}
@@ -0,0 +1,249 @@
+/**
+ * HTML/XML token types
+ */
+export type HtmlTokenType =
+  | 'text'
+  | 'startTag'
+  | 'endTag'
+  | 'comment'
+  | 'doctype'
+  | 'cdata'
+  | 'processingInstruction'
+  | 'rawText';
+
+/**
+ * Attribute of a start tag
+ */
+export interface HtmlAttribute {
+  /** Attribute name (lowercased in HTML mode) */
+  name: string;
+  /** Attribute value without quotes (null for boolean attributes) */
+  value: string | null;
+}
+
+/**
+ * A token produced by tokenizeHtml
+ */
+export interface HtmlToken {
+  /** Token type */
+  type: HtmlTokenType;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive) */
+  end: number;
+  /** Raw source text of the token */
+  raw: string;
+  /**
+   * Element name for startTag/endTag (lowercased in HTML mode),
+   * or the enclosing element name for rawText
+   */
+  name?: string;
+  /** Attributes of a startTag */
+  attributes?: HtmlAttribute[];
+  /** Whether a startTag ends with "/>" */
+  selfClosing?: boolean;
+}
+
+/**
+ * Tokenizer options
+ */
+export interface TokenizeHtmlOptions {
+  /**
+   * XML mode: names are case-sensitive and no element has raw text content
+   * (default: false)
+   */
+  xml?: boolean;
+}
+
+/**
+ * HTML elements that never have content or an end tag
+ */
+export const VOID_ELEMENTS: ReadonlySet<string> = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/**
+ * HTML elements whose content is raw text up to the matching end tag
+ * (script/style contain no markup; textarea/title contain no child elements)
+ */
+export const RAW_TEXT_ELEMENTS: ReadonlySet<string> = new Set([
+  'script', 'style', 'textarea', 'title',
+]);
+
+/**
+ * HTML elements whose whitespace is significant
+ */
+export const PREFORMATTED_ELEMENTS: ReadonlySet<string> = new Set([
+  'pre', 'textarea',
+]);
+
+/**
+ * Content kinds of a <script> element
+ */
+export type ScriptKind = 'javascript' | 'json' | 'other';
+
+const JAVASCRIPT_TYPES = new Set([
+  '', 'module', 'text/javascript', 'application/javascript', 'text/ecmascript',
+  'application/ecmascript', 'application/x-javascript', 'text/jscript',
+]);
+
+const JSON_TYPES = new Set([
+  'application/json', 'application/ld+json', 'importmap', 'speculationrules',
+]);
+
+/**
+ * Determine what a <script> element contains from its type attribute
+ * Scripts without a type, or with a JavaScript MIME type or "module", are JavaScript.
+ *
+ * @param attributes - Attributes of the script start tag
+ * @returns Script content kind
+ */
+export function getScriptKind(attributes: HtmlAttribute[] | undefined): ScriptKind {
+  const type = (attributes?.find(attr => attr.name === 'type')?.value ?? '').trim().toLowerCase();
+  const mimeType = type.split(';')[0].trim();
+  if (JAVASCRIPT_TYPES.has(mimeType)) {
+    return 'javascript';
+  }
+  if (JSON_TYPES.has(mimeType)) {
+    return 'json';
+  }
+  return 'other';
+}
+
+/**
+ * Find the end of a tag starting at `start` (the '<'), skipping quoted
+ * attribute values so a '>' inside quotes does not end the tag
+ * @returns Offset just past the closing '>', or content.length if unterminated
+ */
+function findTagEnd(content: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < content.length; i++) {
+    const ch = content[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i + 1;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * Parse attributes from the inside of a start tag (after the name)
+ */
+function parseAttributes(source: string, xml: boolean): HtmlAttribute[] {
+  const attributes: HtmlAttribute[] = [];
+  const pattern = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4];
+    attributes.push({
+      name: xml ? match[1] : match[1].toLowerCase(),
+      value: value ?? null,
+    });
+  }
+  return attributes;
+}
+
+/**
+ * Tokenize HTML or XML
+ *
+ * Recognizes comments, doctype/declarations, CDATA sections, processing
+ * instructions, start/end tags (with quoted attributes containing '>') and
+ * text. In HTML mode the content of script, style, textarea and title is
+ * returned as a single rawText token, so '<' inside scripts never starts a tag.
+ *
+ * Concatenating the raw text of all tokens reproduces the input exactly.
+ *
+ * @param content - HTML/XML source
+ * @param options - Tokenizer options
+ * @returns Tokens in source order
+ */
+export function tokenizeHtml(content: string, options?: TokenizeHtmlOptions): HtmlToken[] {
+  const xml = options?.xml ?? false;
+  const tokens: HtmlToken[] = [];
+  let textStart = 0;
+  let i = 0;
+
+  const push = (token: Omit<HtmlToken, 'raw'>): void => {
+    tokens.push({ ...token, raw: content.slice(token.start, token.end) });
+  };
+
+  const flushText = (end: number): void => {
+    if (end > textStart) {
+      push({ type: 'text', start: textStart, end });
+    }
+  };
+
+  // Find the end of a construct closed by `terminator`
+  const endOf = (from: number, terminator: string): number => {
+    const index = content.indexOf(terminator, from);
+    return index === -1 ? content.length : index + terminator.length;
+  };
+
+  while (i < content.length) {
+    const lt = content.indexOf('<', i);
+    if (lt === -1) {
+      break;
+    }
+    const next = content[lt + 1] ?? '';
+
+    let token: Omit<HtmlToken, 'raw'> | null = null;
+    if (content.startsWith('<!--', lt)) {
+      token = { type: 'comment', start: lt, end: endOf(lt + 4, '-->') };
+    } else if (content.startsWith('<![CDATA[', lt)) {
+      token = { type: 'cdata', start: lt, end: endOf(lt + 9, ']]>') };
+    } else if (next === '!') {
+      token = { type: 'doctype', start: lt, end: findTagEnd(content, lt) };
+    } else if (next === '?') {
+      token = { type: 'processingInstruction', start: lt, end: endOf(lt + 2, '>') };
+    } else if (next === '/' && /[A-Za-z]/.test(content[lt + 2] ?? '')) {
+      const end = findTagEnd(content, lt);
+      const rawName = /^<\/([^\s>\/]+)/.exec(content.slice(lt, end))?.[1] ?? '';
+      token = { type: 'endTag', start: lt, end, name: xml ? rawName : rawName.toLowerCase() };
+    } else if (/[A-Za-z_:]/.test(next)) {
+      const end = findTagEnd(content, lt);
+      const source = content.slice(lt, end);
+      const rawName = /^<([^\s>\/]+)/.exec(source)?.[1] ?? '';
+      const inner = source.slice(1 + rawName.length, source.endsWith('>') ? -1 : undefined);
+      token = {
+        type: 'startTag',
+        start: lt,
+        end,
+        name: xml ? rawName : rawName.toLowerCase(),
+        attributes: parseAttributes(inner, xml),
+        selfClosing: source.endsWith('/>'),
+      };
+    }
+
+    if (!token) {
+      // A '<' that does not start markup is plain text
+      i = lt + 1;
+      continue;
+    }
+
+    flushText(token.start);
+    push(token);
+    i = token.end;
+    textStart = i;
+
+    // Raw text content runs until the matching end tag
+    if (!xml && token.type === 'startTag' && !token.selfClosing && RAW_TEXT_ELEMENTS.has(token.name!)) {
+      const closePattern = new RegExp(`</${token.name}[\\s/>]`, 'ig');
+      closePattern.lastIndex = i;
+      const close = closePattern.exec(content);
+      const rawEnd = close ? close.index : content.length;
+      if (rawEnd > i) {
+        push({ type: 'rawText', start: i, end: rawEnd, name: token.name });
+      }
+      i = rawEnd;
+      textStart = i;
+    }
+  }
+
+  flushText(content.length);
+  return tokens;
+}
@@ -29,26 +29,118 @@ export {
   type SourceMap,
   type BeautifyOptions,
   type BeautifyResult,
+  type LocalOutputOptions,
+  type HtmlBeautifyResult,
   type LocalPaths,
   type LocalCacheCheck,
   ensureBeautified,
   beautifyCode,
   beautifyJson,
   beautifyHtml,
+  beautifyXml,
   beautifyCss,
   getLocalPaths,
   isLocalCacheValid,
 } from './beautifier.js';
 
+// Re-export HTML tokenizer
+export {
+  type HtmlTokenType,
+  type HtmlAttribute,
+  type HtmlToken,
+  type TokenizeHtmlOptions,
+  type ScriptKind,
+  tokenizeHtml,
+  getScriptKind,
+} from './htmlTokenizer.js';
+
+// Re-export CSS tokenizer
+export {
+  type CssTokenType,
+  type CssToken,
+  tokenizeCss,
+} from './cssTokenizer.js';
+
+// Re-export HTML inline script helpers
+export {
+  type ScriptRegion,
+  createScriptDocuments,
+} from './htmlScripts.js';
+
+// Re-export file globbing
+export {
+  type FindFilesOptions,
+  globToRegExp,
+  findFiles,
+} from './glob.js';
+
+// Re-export source map helpers
+export {
+  type MappedCode,
+  type OriginalPosition,
+  findSourceMappingUrl,
+  loadUpstreamSourceMap,
+  composeSourceMaps,
+  offsetSourceMapLines,
+} from './sourceMapper.js';
+
+// Re-export call graph
+export {
+  type CallGraphNodeKind,
+  type CallGraphNode,
+  type CallGraphEdge,
+  type CallGraph,
+  type CallGraphFormat,
+  buildCallGraph,
+  callersOf,
+  calleesOf,
+  formatCallGraph,
+} from './callGraph.js';
+
+// Re-export outline
+export {
+  type OutlineEntryKind,
+  type OutlineEntry,
+  type OutlineOptions,
+  type OutlineResult,
+  buildOutline,
+  formatOutline,
+} from './outline.js';
+
+// Re-export bundle unpacker
+export {
+  type BundlerKind,
+  type BundleModule,
+  type UnpackResult,
+  type UnpackOptions,
+  unpackBundle,
+} from './bundleUnpacker.js';
+
+// Re-export cache management
+export {
+  type CacheConfig,
+  type CacheStats,
+  type EvictionResult,
+  configureCache,
+  getCacheDir,
+  getCacheStats,
+  clearCache,
+  evictCache,
+} from './cache.js';
+
 // Re-export truncator
 export {
   type TruncateOptions,
   type TruncateResult,
+  type TruncationKind,
+  type TruncationRange,
+  type Truncation,
   truncateCode,
   truncateCodeFromFile,
   truncateFallback,
   truncateLongLines,
   truncateCodeHighPerf,
+  getTruncatedValue,
 } from './truncator.js';
 
 // Re-export searcher
@@ -58,9 +150,13 @@ export {
   type SearchMatch,
   type SearchOptions,
   type SearchResult,
+  type FileSearchResult,
+  type MultiFileSearchResult,
   searchInCode,
   formatSearchResult,
+  formatMultiFileSearchResult,
   formatSourcePosition as formatSearchSourcePosition,
+  formatOriginalPosition,
   createRegex,
   escapeRegex,
   unescapeBackslashes,
@@ -69,16 +165,41 @@ export {
 // Re-export analyzer
 export {
   type OriginalPosition as AnalyzeOriginalPosition,
+  type AccessKind,
+  type AnalysisMode,
+  type FormatAnalysisOptions,
+  type TargetPosition,
   type LocationInfo,
+  type ParseDiagnostic,
   type BindingInfo,
   type AnalysisResult,
   type AnalyzeOptions,
+  type ParseOptions,
+  type TraceDirection,
+  type TraceStepKind,
+  type TraceStep,
+  type TraceStart,
+  type TraceOptions,
+  type TraceResult,
   analyzeBindings,
   formatAnalysisResult,
   formatSourcePosition as formatAnalyzeSourcePosition,
+  traceDataFlow,
+  formatTraceResult,
   parseCode,
 } from './analyzer.js';
 
+// Re-export project analyzer
+export {
+  type ProjectFile,
+  type ProjectLocation,
+  type ProjectSymbol,
+  type ProjectAnalysisResult,
+  type ProjectAnalyzeOptions,
+  analyzeProject,
+  formatProjectAnalysisResult,
+} from './projectAnalyzer.js';
+
 // Re-export transformer
 export {
   type TransformOptions,
@@ -93,14 +214,152 @@ export {
 } from './transformer.js';
 
 // Import types for convenience functions
-import type { SmartReadOptions, ProcessingResult } from './types.js';
-import type { SearchOptions, SearchResult } from './searcher.js';
-import type { AnalyzeOptions, AnalysisResult } from './analyzer.js';
+import type {
+  SmartReadOptions,
+  ProcessingResult,
+  ProcessingOptions,
+  ExpandTruncationOptions,
+  ExpandTruncationResult,
+  TruncateLimits,
+  MultiFileSearchOptions,
+  DirSearchOptions,
+  MultiFileAnalyzeOptions,
+} from './types.js';
+import type { SearchOptions, SearchResult, FileSearchResult, MultiFileSearchResult } from './searcher.js';
+import type {
+  AnalyzeOptions,
+  AnalysisResult,
+  AccessKind,
+  FormatAnalysisOptions,
+  TraceStart,
+  TraceOptions,
+  TraceResult,
+} from './analyzer.js';
 import { detectLanguage, getLanguageInfo } from './languageDetector.js';
 import { ensureBeautified } from './beautifier.js';
-import { truncateCodeFromFile } from './truncator.js';
-import { searchInCode, formatSearchResult } from './searcher.js';
-import { analyzeBindings, formatAnalysisResult } from './analyzer.js';
+import { truncateCodeFromFile, getTruncatedValue, type Truncation } from './truncator.js';
+import { getOriginalPosition, composeSourceMaps, offsetSourceMapLines } from './sourceMapper.js';
+import { SourceMapConsumer } from 'source-map-js';
+import { searchInCode, formatSearchResult, formatMultiFileSearchResult } from './searcher.js';
+import { analyzeBindings, formatAnalysisResult, traceDataFlow, formatTraceResult } from './analyzer.js';
+import { createScriptDocuments } from './htmlScripts.js';
+import { findFiles } from './glob.js';
+import { selectBundleModule } from './bundleUnpacker.js';
+import { buildOutline, formatOutline, type OutlineEntry, type OutlineOptions, type OutlineResult } from './outline.js';
+import {
+  analyzeProject,
+  formatProjectAnalysisResult,
+  type ProjectFile,
+  type ProjectAnalysisResult,
+} from './projectAnalyzer.js';
+import type { SourceMap } from './beautifier.js';
+
+/**
+ * Create an analysis result without bindings that echoes the target options
+ */
+function createEmptyAnalysis(identifier: string, options?: AnalyzeOptions): AnalysisResult {
+  const targetColumn = options?.targetLine !== undefined ? options?.targetColumn : undefined;
+  return {
+    bindings: [],
+    identifier,
+    isTargeted: options?.targetLine !== undefined || options?.targetOriginalPosition !== undefined,
+    targetLine: options?.targetLine,
+    ...(targetColumn !== undefined && { targetColumn }),
+    ...(options?.targetOriginalPosition && { targetOriginalPosition: options.targetOriginalPosition }),
+    accessKinds: options?.accessKinds,
+  };
+}
+
+/**
+ * Analyze bindings across several documents that share one source map
+ * (e.g. the inline script documents of an HTML page) and merge the results.
+ * Targeted searches stop at the first document with a matching binding.
+ */
+async function analyzeDocuments(
+  documents: string[],
+  rawMap: SourceMap,
+  identifier: string,
+  options?: AnalyzeOptions
+): Promise<AnalysisResult> {
+  const merged = createEmptyAnalysis(identifier, options);
+  
+  for (const document of documents) {
+    const result = await analyzeBindings(document, rawMap, identifier, options);
+    merged.bindings.push(...result.bindings);
+    if (result.diagnostics) {
+      merged.diagnostics = [...(merged.diagnostics ?? []), ...result.diagnostics];
+    }
+    if (result.mode === 'property' || result.mode === 'global') {
+      merged.mode = result.mode;
+      merged.isTargeted = false;
+      merged.targetLine = undefined;
+      merged.targetColumn = undefined;
+      merged.targetOriginalPosition = undefined;
+      merged.accesses = [...(merged.accesses ?? []), ...(result.accesses ?? [])]
+        .slice(0, options?.maxReferences ?? 10);
+      merged.totalAccesses = (merged.totalAccesses ?? 0) + (result.totalAccesses ?? 0);
+      const counts = { ...merged.accessCounts };
+      for (const [kind, count] of Object.entries(result.accessCounts ?? {}) as Array<[AccessKind, number]>) {
+        counts[kind] = (counts[kind] ?? 0) + count;
+      }
+      merged.accessCounts = counts;
+    }
+    if (merged.isTargeted && merged.bindings.length > 0) {
+      break;
+    }
+  }
+  
+  return merged;
+}
+
+
+/**
+ * Map items with at most `concurrency` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Default files skipped by smartSearchDir (replaced by the exclude option)
+ */
+const DEFAULT_SEARCH_EXCLUDE = [
+  '**/node_modules/**',
+  '**/.git/**',
+];
+
+/**
+ * Files always skipped by smartSearchDir: beautified output and source maps
+ * (searching them would also write new local files next to them)
+ */
+const SIDECAR_EXCLUDE = [
+  '*.beautified.js',
+  '*.map',
+];
+
+/**
+ * Add the bundle module to the header of a formatted result
+ */
+function addModuleHeader(formatted: string, moduleId: string | undefined): string {
+  if (moduleId === undefined) {
+    return formatted;
+  }
+  const [header, ...rest] = formatted.split('\n');
+  return [header, `Module=${moduleId} (line numbers within the module)`, ...rest].join('\n');
+}
 
 
 /**
@@ -156,36 +415,85 @@ export async function smartRead(
     : detectLanguage(absolutePath);
   
   try {
-    // Beautify the file
-    const beautifyResult = await ensureBeautified(absolutePath, {
+    // Beautify the file (and narrow it down to a bundle module)
+    let beautifyResult = await ensureBeautified(absolutePath, {
       language: options?.language,
       saveLocal: options?.saveLocal,
+      outputDir: options?.outputDir,
+      workspaceRoot: options?.workspaceRoot,
     });
+    if (options?.moduleId !== undefined) {
+      beautifyResult = await selectBundleModule(beautifyResult, options.moduleId, absolutePath);
+    }
     
-    let code = beautifyResult.code;
-    
-    // Extract line range if specified
-    if (options?.startLine !== undefined || options?.endLine !== undefined) {
-      const lines = code.split('\n');
-      const startLine = Math.max(1, options?.startLine ?? 1);
-      const endLine = Math.min(lines.length, options?.endLine ?? lines.length);
-      code = lines.slice(startLine - 1, endLine).join('\n');
+    // Extract line range (up to the number of lines the output budget can hold)
+    const lines = beautifyResult.code.split('\n');
+    const totalLines = lines.length;
+    const startLine = Math.max(1, options?.startLine ?? 1);
+    let endLine = Math.min(totalLines, options?.endLine ?? totalLines);
+    if (options?.maxOutputChars !== undefined) {
+      endLine = Math.min(endLine, startLine + Math.max(1, options.maxOutputChars) - 1);
     }
+    const code = lines.slice(startLine - 1, endLine).join('\n');
+    const lineOffset = startLine - 1;
     
     // Apply truncation
-    const truncateResult = truncateCodeFromFile(absolutePath, code, {
+    let limits: TruncateLimits = {
+      charLimit: options?.charLimit ?? 200,
+      maxLineChars: options?.maxLineChars ?? 500,
+      previewLength: options?.previewLength ?? 50,
+    };
+    const truncateRange = () => truncateCodeFromFile(absolutePath, code, {
       language: options?.language,
-      charLimit: options?.charLimit,
-      maxLineChars: options?.maxLineChars,
-      previewLength: options?.previewLength,
+      ...limits,
+      maxElements: options?.maxElements,
+      previewElements: options?.previewElements,
+      // The map also tells which input lines a budget-fitted output consumed
+      sourceMap: beautifyResult.rawMap !== null || options?.maxOutputChars !== undefined,
     });
+    let truncateResult = truncateRange();
+    let tightened = false;
+    
+    // Fit the output into the budget: cut after the last line that fits, and
+    // truncate harder while not even the first line fits
+    if (options?.maxOutputChars !== undefined) {
+      let lineCount = countFittingLines(truncateResult.code, options.maxOutputChars);
+      while (lineCount === 0 && limits.maxLineChars > MIN_LINE_CHARS) {
+        limits = tightenLimits(limits);
+        tightened = true;
+        truncateResult = truncateRange();
+        lineCount = countFittingLines(truncateResult.code, options.maxOutputChars);
+      }
+      // Always return at least one line so paging makes progress
+      lineCount = Math.max(1, lineCount);
+      // The next page starts after the input lines the fitted lines cover
+      endLine = lineOffset + countConsumedLines(truncateResult.map, truncateResult.code, lineCount, endLine - lineOffset);
+      const fittedCode = truncateResult.code.split('\n').slice(0, lineCount).join('\n');
+      truncateResult = {
+        ...truncateResult,
+        code: fittedCode,
+        // By position: the same value elsewhere in the range has the same id
+        truncations: truncateResult.truncations.filter(truncation => truncation.range.startLine <= lineCount),
+      };
+    }
+    
+    // Keep columns after shortened literals mapped to the original file
+    const sourceMap = truncateResult.map && beautifyResult.rawMap
+      ? composeSourceMaps(offsetSourceMapLines(truncateResult.map, lineOffset), beautifyResult.rawMap)
+      : beautifyResult.rawMap;
     
     return {
       code: truncateResult.code,
-      sourceMap: beautifyResult.rawMap,
+      sourceMap,
       language: langInfo.language,
       usedFallback: beautifyResult.usedFallback || truncateResult.usedFallback,
-      localPath: beautifyResult.localPath,
+      localPath: beautifyResult.savedLocal ? beautifyResult.localPath : undefined,
+      ...(truncateResult.truncations.length > 0 && {
+        truncations: locateTruncations(truncateResult.truncations, lineOffset, beautifyResult.rawMap),
+      }),
+      ...(tightened && { truncateLimits: limits }),
+      totalLines,
+      ...(endLine < totalLines && { nextStartLine: endLine + 1 }),
     };
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -199,6 +507,161 @@ export async function smartRead(
   }
 }
 
+/** Smallest maxLineChars smartRead tightens to when fitting maxOutputChars */
+const MIN_LINE_CHARS = 80;
+
+/**
+ * Count the leading lines of code that fit into a character budget
+ * (newlines between lines included)
+ */
+function countFittingLines(code: string, maxChars: number): number {
+  let used = -1;
+  let count = 0;
+  for (const line of code.split('\n')) {
+    used += line.length + 1;
+    if (used > maxChars) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Count the input lines consumed by the leading lines of truncated code:
+ * everything before the first input line the rest of the output maps to
+ * (a partly shown line is shown again on the next page)
+ */
+function countConsumedLines(map: SourceMap | undefined, code: string, fittedLines: number, inputLines: number): number {
+  // Without truncations the output lines are the input lines
+  if (!map) return fittedLines;
+
+  const consumer = new SourceMapConsumer({ ...map, version: String(map.version) });
+  let firstRest = Infinity;
+  consumer.eachMapping(mapping => {
+    if (mapping.originalLine !== null && mapping.generatedLine > fittedLines) {
+      firstRest = Math.min(firstRest, mapping.originalLine);
+    }
+  });
+  // Unmapped trailing lines line up with the last input lines
+  const consumed = firstRest === Infinity
+    ? inputLines - (code.split('\n').length - fittedLines)
+    : firstRest - 1;
+  // Always consume at least one line so paging makes progress
+  return Math.max(1, consumed);
+}
+
+/**
+ * Halve the truncation limits (down to MIN_LINE_CHARS), keeping previews at
+ * most a tenth of a line
+ */
+function tightenLimits(limits: TruncateLimits): TruncateLimits {
+  const maxLineChars = Math.max(MIN_LINE_CHARS, Math.floor(limits.maxLineChars / 2));
+  return {
+    charLimit: Math.min(limits.charLimit, Math.max(MIN_LINE_CHARS, Math.floor(limits.charLimit / 2))),
+    maxLineChars,
+    previewLength: Math.min(limits.previewLength, Math.floor(maxLineChars / 10)),
+  };
+}
+
+/**
+ * Move truncation ranges from a line range to the whole beautified file and
+ * add their original positions
+ */
+function locateTruncations(truncations: Truncation[], lineOffset: number, rawMap: SourceMap | null): Truncation[] {
+  const consumer = rawMap ? new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) }) : null;
+  return truncations.map(truncation => {
+    const range = {
+      ...truncation.range,
+      startLine: truncation.range.startLine + lineOffset,
+      endLine: truncation.range.endLine + lineOffset,
+    };
+    return {
+      ...truncation,
+      range,
+      ...(consumer && {
+        originalRange: {
+          start: getOriginalPosition(consumer, range.startLine, range.startColumn),
+          end: getOriginalPosition(consumer, range.endLine, range.endColumn),
+        },
+      }),
+    };
+  });
+}
+
+/**
+ * Read the full value behind a truncation marker
+ * 
+ * smartRead replaces long strings and lines with markers such as
+ * `...[TRUNCATED 5000 CHARS #1a2b3c4d]...`. Pass the id to page through the
+ * elided value. Use the same options (charLimit, maxLineChars, moduleId, ...)
+ * as the smartRead call that produced the marker.
+ * 
+ * @param filePath - Path to the file
+ * @param id - Truncation id from the marker or from ProcessingResult.truncations
+ * @param offset - Offset in the value to start at (default 0)
+ * @param length - Maximum number of characters to return (default 10000)
+ * @param options - Options the content was read with
+ * @returns ExpandTruncationResult with the requested part and the next offset
+ * 
+ * @example
+ * ```typescript
+ * const part = await expandTruncation('./src/app.js', '1a2b3c4d');
+ * const next = await expandTruncation('./src/app.js', '1a2b3c4d', part.nextOffset);
+ * ```
+ */
+export async function expandTruncation(
+  filePath: string,
+  id: string,
+  offset: number = 0,
+  length: number = 10000,
+  options?: ExpandTruncationOptions
+): Promise<ExpandTruncationResult> {
+  const absolutePath = path.resolve(filePath);
+  const emptyResult: ExpandTruncationResult = { id, content: '', offset, totalLength: 0 };
+  
+  try {
+    await fs.access(absolutePath);
+  } catch {
+    return { ...emptyResult, error: `File not found: ${filePath}` };
+  }
+  
+  try {
+    let beautifyResult = await ensureBeautified(absolutePath, {
+      language: options?.language,
+      saveLocal: options?.saveLocal,
+      outputDir: options?.outputDir,
+      workspaceRoot: options?.workspaceRoot,
+    });
+    if (options?.moduleId !== undefined) {
+      beautifyResult = await selectBundleModule(beautifyResult, options.moduleId, absolutePath);
+    }
+    
+    const value = getTruncatedValue(beautifyResult.code, id, {
+      language: options?.language ?? detectLanguage(absolutePath).language,
+      charLimit: options?.charLimit,
+      maxLineChars: options?.maxLineChars,
+      previewLength: options?.previewLength,
+      maxElements: options?.maxElements,
+      previewElements: options?.previewElements,
+    });
+    if (value === null) {
+      return { ...emptyResult, error: `Truncation not found: ${id} (read the file with the same options first)` };
+    }
+    
+    const start = Math.max(0, Math.min(offset, value.length));
+    const end = Math.min(value.length, start + Math.max(0, length));
+    return {
+      id,
+      content: value.slice(start, end),
+      offset: start,
+      totalLength: value.length,
+      ...(end < value.length && { nextOffset: end }),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ...emptyResult, error: message };
+  }
+}
+
 /**
  * Smart search in file with beautification and source map support
  * 
@@ -226,7 +689,7 @@ export async function smartRead(
 export async function smartSearch(
   filePath: string,
   query: string,
-  options?: SearchOptions
+  options?: SearchOptions & Pick<ProcessingOptions, 'saveLocal' | 'outputDir' | 'workspaceRoot' | 'followSourceMap' | 'moduleId'>
 ): Promise<SearchResult & { formatted: string; error?: string }> {
   const absolutePath = path.resolve(filePath);
   
@@ -244,8 +707,16 @@ export async function smartSearch(
   }
   
   try {
-    // Beautify the file first
-    const beautifyResult = await ensureBeautified(absolutePath);
+    // Beautify the file first (and narrow it down to a bundle module)
+    let beautifyResult = await ensureBeautified(absolutePath, {
+      saveLocal: options?.saveLocal,
+      outputDir: options?.outputDir,
+      workspaceRoot: options?.workspaceRoot,
+      followSourceMap: options?.followSourceMap,
+    });
+    if (options?.moduleId !== undefined) {
+      beautifyResult = await selectBundleModule(beautifyResult, options.moduleId, absolutePath);
+    }
     
     // Source map is required for search
     if (!beautifyResult.rawMap) {
@@ -262,18 +733,18 @@ export async function smartSearch(
     const searchResult = searchInCode(
       beautifyResult.code,
       beautifyResult.rawMap,
-      options ?? { query }
+      { ...(options ?? { query }), authoredMap: beautifyResult.authoredMap }
     );
     
     // Format result
-    const formatted = formatSearchResult(
+    const formatted = addModuleHeader(formatSearchResult(
       filePath,
       query,
       options?.caseSensitive ?? false,
       searchResult,
       options?.maxMatches ?? 50,
       options?.isRegex ?? false
-    );
+    ), options?.moduleId);
     
     return {
       ...searchResult,
@@ -296,6 +767,8 @@ export async function smartSearch(
  * 
  * This function analyzes the code to find all bindings (definitions and references)
  * for a specific identifier. Results include original file positions via source map.
+ * For HTML files the inline scripts are analyzed (classic scripts together, since
+ * they share the global scope); line numbers refer to the beautified page.
  * 
  * @param filePath - Path to the file to analyze
  * @param identifier - Variable or function name to find
@@ -316,7 +789,9 @@ export async function smartSearch(
 export async function findUsage(
   filePath: string,
   identifier: string,
-  options?: AnalyzeOptions
+  options?: AnalyzeOptions &
+    Pick<FormatAnalysisOptions, 'groupByAccess'> &
+    Pick<ProcessingOptions, 'saveLocal' | 'outputDir' | 'workspaceRoot' | 'followSourceMap' | 'moduleId'>
 ): Promise<AnalysisResult & { formatted: string; error?: string }> {
   const absolutePath = path.resolve(filePath);
   
@@ -325,45 +800,57 @@ export async function findUsage(
     await fs.access(absolutePath);
   } catch {
     return {
-      bindings: [],
-      identifier,
-      isTargeted: options?.targetLine !== undefined,
-      targetLine: options?.targetLine,
+      ...createEmptyAnalysis(identifier, options),
       formatted: `File not found: ${filePath}`,
       error: `File not found: ${filePath}`,
     };
   }
   
   try {
-    // Beautify the file first
-    const beautifyResult = await ensureBeautified(absolutePath);
+    // Beautify the file first (and narrow it down to a bundle module)
+    let beautifyResult = await ensureBeautified(absolutePath, {
+      saveLocal: options?.saveLocal,
+      outputDir: options?.outputDir,
+      workspaceRoot: options?.workspaceRoot,
+      followSourceMap: options?.followSourceMap,
+    });
+    if (options?.moduleId !== undefined) {
+      beautifyResult = await selectBundleModule(beautifyResult, options.moduleId, absolutePath);
+    }
     
-    // Source map is required for analysis
-    if (!beautifyResult.rawMap) {
+    // HTML pages are analyzed through their inline scripts
+    const documents = beautifyResult.scriptRegions
+      ? createScriptDocuments(beautifyResult.code, beautifyResult.scriptRegions)
+      : [beautifyResult.code];
+    
+    // Source map and AST (or inline script) support are required for analysis
+    if (!beautifyResult.rawMap || (!beautifyResult.scriptRegions && !detectLanguage(absolutePath).supportsAST)) {
       return {
-        bindings: [],
-        identifier,
-        isTargeted: options?.targetLine !== undefined,
-        targetLine: options?.targetLine,
+        ...createEmptyAnalysis(identifier, options),
         formatted: `Analysis not supported for this file type (no source map available)`,
         error: `Analysis requires source map support`,
       };
     }
     
     // Perform analysis
-    const analysisResult = await analyzeBindings(
-      beautifyResult.code,
+    const analysisResult = await analyzeDocuments(
+      documents,
       beautifyResult.rawMap,
       identifier,
-      options
+      {
+        ...options,
+        authoredMap: beautifyResult.authoredMap,
+        parseOptions: { filePath: absolutePath, ...options?.parseOptions },
+      }
     );
     
     // Format result
-    const formatted = formatAnalysisResult(
+    const formatted = addModuleHeader(formatAnalysisResult(
       filePath,
       analysisResult,
-      options?.maxReferences ?? 10
-    );
+      options?.maxReferences ?? 10,
+      { groupByAccess: options?.groupByAccess }
+    ), options?.moduleId);
     
     return {
       ...analysisResult,
@@ -372,12 +859,379 @@ export async function findUsage(
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
     return {
-      bindings: [],
-      identifier,
-      isTargeted: options?.targetLine !== undefined,
-      targetLine: options?.targetLine,
+      ...createEmptyAnalysis(identifier, options),
       formatted: `Analysis error: ${message}`,
       error: message,
     };
   }
 }
+
+/**
+ * Trace where a value comes from (or goes to) in a file
+ * 
+ * The file is beautified first; the start refers to the beautified code
+ * (line/column) or to the original file (originalPosition). For HTML files
+ * the inline scripts are traced and the first one containing the start is used.
+ * 
+ * @param filePath - Path to the file to analyze
+ * @param start - Binding or expression to trace
+ * @param options - Trace options
+ * @returns TraceResult with formatted output
+ * 
+ * @example
+ * ```typescript
+ * // Where do the headers passed to fetch on line 120 come from?
+ * const result = await traceValue('./src/app.js', { line: 120, column: 24 });
+ * 
+ * // Where does the token parameter end up?
+ * const result = await traceValue('./src/app.js', { identifier: 'token', line: 42 }, {
+ *   direction: 'forward',
+ * });
+ * ```
+ */
+export async function traceValue(
+  filePath: string,
+  start: TraceStart,
+  options?: TraceOptions &
+    Pick<ProcessingOptions, 'saveLocal' | 'outputDir' | 'workspaceRoot' | 'followSourceMap' | 'moduleId'>
+): Promise<TraceResult & { formatted: string; error?: string }> {
+  const absolutePath = path.resolve(filePath);
+  const emptyResult: TraceResult = {
+    start,
+    direction: options?.direction ?? 'backward',
+    steps: [],
+    truncated: false,
+  };
+  
+  try {
+    await fs.access(absolutePath);
+  } catch {
+    return {
+      ...emptyResult,
+      formatted: `File not found: ${filePath}`,
+      error: `File not found: ${filePath}`,
+    };
+  }
+  
+  try {
+    let beautifyResult = await ensureBeautified(absolutePath, {
+      saveLocal: options?.saveLocal,
+      outputDir: options?.outputDir,
+      workspaceRoot: options?.workspaceRoot,
+      followSourceMap: options?.followSourceMap,
+    });
+    if (options?.moduleId !== undefined) {
+      beautifyResult = await selectBundleModule(beautifyResult, options.moduleId, absolutePath);
+    }
+    
+    const documents = beautifyResult.scriptRegions
+      ? createScriptDocuments(beautifyResult.code, beautifyResult.scriptRegions)
+      : [beautifyResult.code];
+    
+    if (!beautifyResult.rawMap || (!beautifyResult.scriptRegions && !detectLanguage(absolutePath).supportsAST)) {
+      return {
+        ...emptyResult,
+        formatted: `Analysis not supported for this file type (no source map available)`,
+        error: `Analysis requires source map support`,
+      };
+    }
+    
+    let traceResult = emptyResult;
+    for (const document of documents) {
+      traceResult = await traceDataFlow(document, beautifyResult.rawMap, start, {
+        ...options,
+        authoredMap: beautifyResult.authoredMap,
+        parseOptions: { filePath: absolutePath, ...options?.parseOptions },
+      });
+      if (traceResult.steps.length > 0) {
+        break;
+      }
+    }
+    
+    return {
+      ...traceResult,
+      formatted: addModuleHeader(formatTraceResult(filePath, traceResult), options?.moduleId),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      ...emptyResult,
+      formatted: `Analysis error: ${message}`,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Outline a file: its functions, classes, methods, IIFEs and large object
+ * literals with line ranges and original positions
+ * 
+ * Line ranges refer to the beautified code, so they can be passed to
+ * smartRead as startLine/endLine. For HTML files the inline scripts are
+ * outlined. Use offset and limit to page through large files.
+ * 
+ * @param filePath - Path to the file to outline
+ * @param options - Outline filters and pagination
+ * @returns OutlineResult with formatted output
+ * 
+ * @example
+ * ```typescript
+ * const outline = await outlineFile('./bundle.min.js', { maxDepth: 1 });
+ * const next = await outlineFile('./bundle.min.js', { maxDepth: 1, offset: 100 });
+ * ```
+ */
+export async function outlineFile(
+  filePath: string,
+  options?: OutlineOptions &
+    Pick<ProcessingOptions, 'saveLocal' | 'outputDir' | 'workspaceRoot' | 'followSourceMap' | 'moduleId'>
+): Promise<OutlineResult & { formatted: string; error?: string }> {
+  const absolutePath = path.resolve(filePath);
+  const offset = options?.offset ?? 0;
+  const emptyResult: OutlineResult = { entries: [], totalEntries: 0, offset, totalLines: 0 };
+  
+  try {
+    await fs.access(absolutePath);
+  } catch {
+    return {
+      ...emptyResult,
+      formatted: `File not found: ${filePath}`,
+      error: `File not found: ${filePath}`,
+    };
+  }
+  
+  try {
+    let beautifyResult = await ensureBeautified(absolutePath, {
+      saveLocal: options?.saveLocal,
+      outputDir: options?.outputDir,
+      workspaceRoot: options?.workspaceRoot,
+      followSourceMap: options?.followSourceMap,
+    });
+    if (options?.moduleId !== undefined) {
+      beautifyResult = await selectBundleModule(beautifyResult, options.moduleId, absolutePath);
+    }
+    
+    const documents = beautifyResult.scriptRegions
+      ? createScriptDocuments(beautifyResult.code, beautifyResult.scriptRegions)
+      : [beautifyResult.code];
+    
+    if (!beautifyResult.rawMap || (!beautifyResult.scriptRegions && !detectLanguage(absolutePath).supportsAST)) {
+      return {
+        ...emptyResult,
+        formatted: `Outline not supported for this file type (no source map available)`,
+        error: `Outline requires source map support`,
+      };
+    }
+    
+    // Outline every document, then paginate the combined entries
+    const entries: OutlineEntry[] = [];
+    for (const document of documents) {
+      const documentOutline = await buildOutline(document, beautifyResult.rawMap, {
+        ...options,
+        offset: 0,
+        limit: Infinity,
+        parseOptions: { filePath: absolutePath, ...options?.parseOptions },
+      });
+      entries.push(...documentOutline.entries);
+    }
+    const outline: OutlineResult = {
+      entries: entries.slice(offset, offset + (options?.limit ?? 100)),
+      totalEntries: entries.length,
+      offset,
+      totalLines: beautifyResult.code.split('\n').length,
+    };
+    
+    return {
+      ...outline,
+      formatted: addModuleHeader(formatOutline(filePath, outline), options?.moduleId),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      ...emptyResult,
+      formatted: `Outline error: ${message}`,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Search several files with one shared match budget
+ * 
+ * Files are beautified (using the beautify cache) and searched in parallel,
+ * at most `concurrency` at a time. Matches are then kept in file order until
+ * the global `maxMatches` budget is used up. Files that cannot be searched
+ * are reported with an error instead of failing the whole search.
+ * 
+ * @param filePaths - Paths of the files to search
+ * @param query - Search query (text or regex pattern)
+ * @param options - Search options
+ * @returns Per-file results and combined formatted output
+ * 
+ * @example
+ * ```typescript
+ * const result = await smartSearchFiles(['./chunk-1.js', './chunk-2.js'], 'decrypt', {
+ *   maxMatches: 20,
+ * });
+ * ```
+ */
+export async function smartSearchFiles(
+  filePaths: string[],
+  query: string,
+  options?: MultiFileSearchOptions
+): Promise<MultiFileSearchResult & { formatted: string }> {
+  const maxMatches = options?.maxMatches ?? 50;
+  const concurrency = Math.max(1, options?.concurrency ?? 4);
+  
+  const files = await mapWithConcurrency(filePaths, concurrency, async (filePath): Promise<FileSearchResult> => {
+    const { formatted: _formatted, ...result } = await smartSearch(filePath, query, {
+      ...options,
+      query,
+      maxMatches,
+    });
+    return { filePath, ...result };
+  });
+  
+  // Apply the global budget in file order
+  let remaining = maxMatches;
+  let totalMatches = 0;
+  for (const file of files) {
+    totalMatches += file.totalMatches;
+    file.matches = file.matches.slice(0, remaining);
+    file.truncated = file.matches.length < file.totalMatches;
+    remaining -= file.matches.length;
+  }
+  
+  const result: MultiFileSearchResult = {
+    files,
+    totalMatches,
+    truncated: totalMatches > maxMatches,
+  };
+  
+  return {
+    ...result,
+    formatted: formatMultiFileSearchResult(
+      query,
+      options?.caseSensitive ?? false,
+      result,
+      maxMatches,
+      options?.isRegex ?? false
+    ),
+  };
+}
+
+/**
+ * Search all matching files under a directory
+ * 
+ * Files are selected with include/exclude globs relative to `rootDir`
+ * (by default every file with source map support, skipping node_modules,
+ * .git and beautified output) and searched with smartSearchFiles.
+ * 
+ * @param rootDir - Directory to search
+ * @param query - Search query (text or regex pattern)
+ * @param options - Search and file selection options
+ * @returns Per-file results and combined formatted output
+ * 
+ * @example
+ * ```typescript
+ * const result = await smartSearchDir('./site', 'decrypt', {
+ *   include: ['*.js'],
+ *   exclude: ['vendor', '*.beautified.js'],
+ *   concurrency: 8,
+ * });
+ * ```
+ */
+export async function smartSearchDir(
+  rootDir: string,
+  query: string,
+  options?: DirSearchOptions
+): Promise<MultiFileSearchResult & { formatted: string; error?: string }> {
+  let filePaths: string[];
+  try {
+    filePaths = await findFiles(rootDir, {
+      include: options?.include,
+      exclude: [...(options?.exclude ?? DEFAULT_SEARCH_EXCLUDE), ...SIDECAR_EXCLUDE],
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      files: [],
+      totalMatches: 0,
+      truncated: false,
+      formatted: `Search error: ${message}`,
+      error: message,
+    };
+  }
+  
+  // Without include patterns, only search files that can be source-mapped
+  if (!options?.include) {
+    filePaths = filePaths.filter(filePath => detectLanguage(filePath).supportsSourceMap);
+  }
+  
+  return smartSearchFiles(filePaths, query, options);
+}
+
+/**
+ * Find usage of an identifier across several files
+ * 
+ * Files are beautified (using the beautify cache) and analyzed together:
+ * ES module imports/exports, CommonJS require/module.exports and webpack
+ * module ids are followed, so an exported function is reported with its
+ * references in every file (or webpack module) that imports it. The
+ * identifier may be a local name or an exported name.
+ * 
+ * @param filePaths - Paths of the JavaScript/TypeScript files to analyze
+ * @param identifier - Variable, function or export name to find
+ * @param options - Analysis options
+ * @returns ProjectAnalysisResult with symbols and formatted output
+ * 
+ * @example
+ * ```typescript
+ * const result = await findUsageInFiles(
+ *   ['./runtime.js', './chunk-vendors.js', './app.js'],
+ *   'encryptPayload'
+ * );
+ * ```
+ */
+export async function findUsageInFiles(
+  filePaths: string[],
+  identifier: string,
+  options?: MultiFileAnalyzeOptions
+): Promise<ProjectAnalysisResult & { formatted: string }> {
+  const concurrency = Math.max(1, options?.concurrency ?? 4);
+  
+  const loaded = await mapWithConcurrency(filePaths, concurrency, async (filePath) => {
+    const absolutePath = path.resolve(filePath);
+    try {
+      await fs.access(absolutePath);
+    } catch {
+      return { filePath, error: `File not found: ${filePath}` };
+    }
+    if (!detectLanguage(absolutePath).supportsAST) {
+      return { filePath, error: 'Analysis not supported for this file type' };
+    }
+    try {
+      const beautifyResult = await ensureBeautified(absolutePath, {
+        saveLocal: options?.saveLocal,
+        outputDir: options?.outputDir,
+        workspaceRoot: options?.workspaceRoot,
+      });
+      if (!beautifyResult.rawMap) {
+        return { filePath, error: 'Analysis requires source map support' };
+      }
+      return { filePath, code: beautifyResult.code, rawMap: beautifyResult.rawMap };
+    } catch (err) {
+      return { filePath, error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+  
+  const projectFiles = loaded.filter((file): file is ProjectFile => 'code' in file);
+  const loadErrors = loaded.filter((file): file is { filePath: string; error: string } => 'error' in file);
+  
+  const result = await analyzeProject(projectFiles, identifier, options);
+  result.errors.unshift(...loadErrors);
+  
+  return {
+    ...result,
+    formatted: formatProjectAnalysisResult(result, options?.maxReferences ?? 10),
+  };
+}
@@ -46,25 +46,25 @@ const LANGUAGE_CONFIG: Record<SupportedLanguage, LanguageInfo> = {
     language: 'json',
     supportsAST: false,
     supportsBeautify: true,
-    supportsSourceMap: false,
+    supportsSourceMap: true,
   },
   html: {
     language: 'html',
     supportsAST: false,
     supportsBeautify: true,
-    supportsSourceMap: false,
+    supportsSourceMap: true,
   },
   xml: {
     language: 'xml',
     supportsAST: false,
     supportsBeautify: true,
-    supportsSourceMap: false,
+    supportsSourceMap: true,
   },
   css: {
     language: 'css',
     supportsAST: false,
     supportsBeautify: true,
-    supportsSourceMap: false,
+    supportsSourceMap: true,
   },
   unknown: {
     language: 'unknown',
@@ -140,7 +140,7 @@ export function getLanguageInfo(language: SupportedLanguage): LanguageInfo {
  * @example
  * ```typescript
  * isFullySupportedLanguage('javascript'); // true
- * isFullySupportedLanguage('json'); // false (no AST or source map)
+ * isFullySupportedLanguage('json'); // false (no AST)
  * isFullySupportedLanguage('unknown'); // false
  * ```
  */
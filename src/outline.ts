@@ -0,0 +1,316 @@
+import { SourceMapConsumer } from 'source-map-js';
+import type { NodePath } from '@babel/traverse';
+import type * as t from '@babel/types';
+import type { SourceMap } from './beautifier.js';
+import {
+  parseCode,
+  getTraverse,
+  formatSourcePosition,
+  getStaticPropertyName,
+  unwrapKeepNames,
+  KEEP_NAMES_HELPER,
+  type LocationInfo,
+  type ParseOptions,
+} from './analyzer.js';
+import { getOriginalPosition } from './sourceMapper.js';
+
+/**
+ * Kind of an outline entry
+ */
+export type OutlineEntryKind = 'function' | 'class' | 'method' | 'object' | 'iife';
+
+/**
+ * A region of the code listed in the outline
+ */
+export interface OutlineEntry {
+  /** Kind of region */
+  kind: OutlineEntryKind;
+  /** Name ("Class.method" for class methods, "<anonymous>" when unnamed) */
+  name: string;
+  /** Parameter names (functions, methods and IIFEs) */
+  params?: string[];
+  /** Number of properties (object literals) */
+  properties?: number;
+  /** First line in the beautified code (1-based) */
+  startLine: number;
+  /** Last line in the beautified code (1-based) */
+  endLine: number;
+  /** Size in characters */
+  size: number;
+  /** Number of enclosing outline entries */
+  depth: number;
+  /** Start of the region, with its original position */
+  location: LocationInfo;
+}
+
+/**
+ * Options for building an outline
+ */
+export interface OutlineOptions {
+  /** Only list object literals with at least this many properties (default 20) */
+  minObjectProperties?: number;
+  /** Only list regions spanning at least this many lines (default 1) */
+  minLines?: number;
+  /** Only list entries nested at most this deep (default: all) */
+  maxDepth?: number;
+  /** Index of the first entry to return (default 0) */
+  offset?: number;
+  /** Maximum number of entries to return (default 100) */
+  limit?: number;
+  /** File path (picks the parser plugins) and Babel parser options */
+  parseOptions?: ParseOptions;
+}
+
+/**
+ * Outline of a file (one page of entries)
+ */
+export interface OutlineResult {
+  /** Entries of this page, in source order */
+  entries: OutlineEntry[];
+  /** Total number of entries (before pagination) */
+  totalEntries: number;
+  /** Index of the first returned entry */
+  offset: number;
+  /** Number of lines of the beautified code */
+  totalLines: number;
+}
+
+/**
+ * Describe a function parameter (`a`, `a = 1` as "a", `...rest`, patterns as "{…}" / "[…]")
+ */
+function getParamName(param: t.Node): string {
+  if (param.type === 'Identifier') return param.name;
+  if (param.type === 'AssignmentPattern') return getParamName(param.left);
+  if (param.type === 'RestElement') return `...${getParamName(param.argument)}`;
+  if (param.type === 'ObjectPattern') return '{…}';
+  if (param.type === 'ArrayPattern') return '[…]';
+  if (param.type === 'TSParameterProperty') return getParamName(param.parameter);
+  return '?';
+}
+
+/**
+ * Name an expression a region is assigned to (`a`, `this.sign`, `e.exports`)
+ */
+function getTargetName(node: t.Node, code: string): string | null {
+  if (node.type === 'Identifier') return node.name;
+  if (node.type === 'MemberExpression' || node.type === 'ThisExpression') {
+    const text = code.slice(node.start!, node.end!);
+    return text.length <= 40 && !text.includes('\n') ? text : null;
+  }
+  return null;
+}
+
+/**
+ * Find the name a function, class or object literal is declared or stored
+ * under (variable, assignment target or property key)
+ */
+function getHolderName(path: NodePath, code: string): string | null {
+  let holder = path.parentPath;
+  // __name(function () {...}, "sign")
+  if (holder && unwrapKeepNames(holder) === path) {
+    holder = holder.parentPath;
+  }
+  if (holder?.isVariableDeclarator()) {
+    return getTargetName(holder.node.id, code);
+  }
+  if (holder?.isAssignmentExpression()) {
+    return getTargetName(holder.node.left, code);
+  }
+  if (holder?.isObjectProperty() || holder?.isClassProperty()) {
+    return getStaticPropertyName(holder.node.key, holder.node.computed);
+  }
+  return null;
+}
+
+/**
+ * Check whether a function is called right where it is defined
+ * (`(function () {...})()`, `!function () {...}()`, `(() => {...})()`,
+ * `(function () {...}).call(this)`)
+ */
+function isImmediatelyInvoked(path: NodePath): boolean {
+  let callee: NodePath = path;
+  let parent = path.parentPath;
+  while (parent?.isParenthesizedExpression()) {
+    callee = parent;
+    parent = parent.parentPath;
+  }
+  if (parent?.isMemberExpression() && parent.node.object === callee.node &&
+      ['call', 'apply'].includes(getStaticPropertyName(parent.node.property, parent.node.computed) ?? '')) {
+    callee = parent;
+    parent = parent.parentPath;
+  }
+  return !!parent && (parent.isCallExpression() || parent.isNewExpression()) && parent.node.callee === callee.node;
+}
+
+/**
+ * Build an outline of beautified code
+ *
+ * Lists named functions (declarations and functions or arrows stored in a
+ * variable, property or assignment target), classes and their methods,
+ * immediately invoked functions and large object literals (e.g. webpack
+ * module tables), with their line ranges and original positions. Anonymous
+ * callbacks are not listed, but the named regions inside them are.
+ *
+ * @param code - Beautified code to outline
+ * @param rawMap - Source map for coordinate mapping
+ * @param options - Filters and pagination
+ * @returns One page of outline entries in source order
+ * @throws Error if the code cannot be parsed
+ */
+export async function buildOutline(
+  code: string,
+  rawMap: SourceMap,
+  options?: OutlineOptions
+): Promise<OutlineResult> {
+  const minObjectProperties = options?.minObjectProperties ?? 20;
+  const minLines = options?.minLines ?? 1;
+  const maxDepth = options?.maxDepth ?? Infinity;
+  const offset = options?.offset ?? 0;
+  const limit = options?.limit ?? 100;
+  const ast = parseCode(code, options?.parseOptions);
+  const lines = code.split('\n');
+  const consumer = new SourceMapConsumer({ ...rawMap, version: String(rawMap.version) });
+  const traverse = await getTraverse();
+
+  const entries: OutlineEntry[] = [];
+  // Regions enclosing the current traversal position, and whether each is listed
+  const stack: Array<{ node: t.Node; listed: boolean }> = [];
+  let depth = 0;
+
+  const describe = (path: NodePath): Pick<OutlineEntry, 'kind' | 'name' | 'params' | 'properties'> | null => {
+    const { node } = path;
+    if (path.isClassMethod() || path.isClassPrivateMethod()) {
+      const classPath = path.parentPath.parentPath!;
+      const className = (classPath.node as t.Class).id?.name ?? getHolderName(classPath, code) ?? '<class>';
+      const key = path.isClassMethod() ? getStaticPropertyName(path.node.key, path.node.computed) : getStaticPropertyName(path.node.key, false);
+      return {
+        kind: 'method',
+        name: `${className}.${key ?? '<computed>'}`,
+        params: (node as t.Function).params.map(getParamName),
+      };
+    }
+    if (path.isObjectMethod()) {
+      return {
+        kind: 'method',
+        name: getStaticPropertyName(path.node.key, path.node.computed) ?? '<computed>',
+        params: path.node.params.map(getParamName),
+      };
+    }
+    if (path.isFunction()) {
+      const params = path.node.params.map(getParamName);
+      const ownName = path.isFunctionDeclaration() || path.isFunctionExpression() ? path.node.id?.name : undefined;
+      if (isImmediatelyInvoked(path)) {
+        return { kind: 'iife', name: ownName ?? '<anonymous>', params };
+      }
+      const name = ownName ?? getHolderName(path, code);
+      return name && name !== KEEP_NAMES_HELPER ? { kind: 'function', name, params } : null;
+    }
+    if (path.isClass()) {
+      return { kind: 'class', name: path.node.id?.name ?? getHolderName(path, code) ?? '<anonymous>' };
+    }
+    if (path.isObjectExpression() && path.node.properties.length >= minObjectProperties) {
+      return { kind: 'object', name: getHolderName(path, code) ?? '<anonymous>', properties: path.node.properties.length };
+    }
+    return null;
+  };
+
+  const enter = (path: NodePath): void => {
+    const { node } = path;
+    if (!node.loc) return;
+    const description = describe(path);
+    if (!description) return;
+    const { start, end } = node.loc;
+    const listed = depth <= maxDepth && end.line - start.line + 1 >= minLines;
+    if (listed) {
+      entries.push({
+        ...description,
+        startLine: start.line,
+        endLine: end.line,
+        size: node.end! - node.start!,
+        depth,
+        location: {
+          line: start.line,
+          column: start.column,
+          originalPosition: getOriginalPosition(consumer, start.line, start.column),
+          lineContent: lines[start.line - 1] ?? '',
+        },
+      });
+    }
+    stack.push({ node, listed });
+    if (listed) depth++;
+  };
+
+  const exit = (path: NodePath): void => {
+    if (stack[stack.length - 1]?.node === path.node) {
+      if (stack.pop()!.listed) depth--;
+    }
+  };
+
+  try {
+    traverse(ast, {
+      Function: { enter, exit },
+      Class: { enter, exit },
+      ObjectExpression: { enter, exit },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Outline error: ${message}`);
+  }
+
+  return {
+    entries: entries.slice(offset, offset + limit),
+    totalEntries: entries.length,
+    offset,
+    totalLines: lines.length,
+  };
+}
+
+/**
+ * Describe an outline entry ("function sign(a, b)", "object modules {120 props}")
+ */
+function describeEntry(entry: OutlineEntry): string {
+  const params = entry.params ? `(${entry.params.join(', ')})` : '';
+  const properties = entry.properties !== undefined ? ` {${entry.properties} props}` : '';
+  const lineCount = entry.endLine - entry.startLine + 1;
+  return `${entry.kind} ${entry.name}${params}${properties} [${lineCount} ${lineCount === 1 ? 'line' : 'lines'}]`;
+}
+
+/**
+ * Format an outline for output
+ *
+ * Each entry shows its line range (for smartRead startLine/endLine), its
+ * original position and a description indented by nesting depth.
+ *
+ * @param filePath - Path to the file
+ * @param result - Outline result
+ * @returns Formatted output string
+ */
+export function formatOutline(filePath: string, result: OutlineResult): string {
+  const { entries, totalEntries, offset, totalLines } = result;
+  const outputParts: string[] = [];
+
+  outputParts.push(`${filePath}`);
+  outputParts.push(`Lines: ${totalLines}`);
+  outputParts.push(`Src=original position for breakpoints`);
+
+  if (totalEntries === 0) {
+    outputParts.push('Outline: None');
+    return outputParts.join('\n');
+  }
+
+  const range = entries.length > 0 ? `, showing ${offset + 1}-${offset + entries.length}` : '';
+  outputParts.push(`Outline: ${totalEntries} entries${range}`);
+  for (const entry of entries) {
+    const lineRange = `${entry.startLine}-${entry.endLine}`.padStart(13, ' ');
+    const { originalPosition } = entry.location;
+    const srcPos = formatSourcePosition(originalPosition.line, originalPosition.column).padEnd(10, ' ');
+    outputParts.push(`${lineRange} ${srcPos} ${'  '.repeat(entry.depth)}${describeEntry(entry)}`);
+  }
+
+  const next = offset + entries.length;
+  if (next < totalEntries) {
+    outputParts.push(`  ... (${totalEntries - next} more entries; use offset ${next})`);
+  }
+
+  return outputParts.join('\n');
+}
@@ -0,0 +1,795 @@
+import { SourceMapConsumer } from 'source-map-js';
+import * as path from 'path';
+import type { NodePath, Binding, Visitor } from '@babel/traverse';
+import type * as t from '@babel/types';
+import type { SourceMap } from './beautifier.js';
+import {
+  parseCode,
+  getTraverse,
+  formatSourcePosition,
+  formatCodeLine,
+  KEEP_NAMES_HELPER,
+  type LocationInfo,
+} from './analyzer.js';
+import { getOriginalPosition } from './sourceMapper.js';
+import { findBundleModules } from './bundleUnpacker.js';
+
+/**
+ * A beautified file taking part in a project analysis
+ */
+export interface ProjectFile {
+  /** Path of the file (relative imports are resolved against it) */
+  filePath: string;
+  /** Beautified code */
+  code: string;
+  /** Source map from the beautified code to the original file */
+  rawMap: SourceMap;
+}
+
+/**
+ * Location of a definition or reference in one of the project files
+ */
+export interface ProjectLocation extends LocationInfo {
+  /** File containing the location */
+  filePath: string;
+  /** Bundle module id, if the location is inside a module of a webpack or browserify module table */
+  moduleId?: string;
+}
+
+/**
+ * A definition together with its references across all files
+ */
+export interface ProjectSymbol {
+  /** Binding kind (var, let, const, param, module, ...) or "export" for exported expressions */
+  kind: string;
+  /** Definition location */
+  definition: ProjectLocation;
+  /** Names the definition is exported under by its module */
+  exportedAs: string[];
+  /** References in the defining module and in the modules importing it */
+  references: ProjectLocation[];
+  /** Total reference count (before limiting) */
+  totalReferences: number;
+}
+
+/**
+ * Result of a project-level analysis
+ */
+export interface ProjectAnalysisResult {
+  /** The identifier that was searched (local or exported name) */
+  identifier: string;
+  /** Symbols found for the identifier */
+  symbols: ProjectSymbol[];
+  /** Number of files that were parsed */
+  filesAnalyzed: number;
+  /** Files that could not be analyzed */
+  errors: Array<{ filePath: string; error: string }>;
+}
+
+/**
+ * Options for project-level analysis
+ */
+export interface ProjectAnalyzeOptions {
+  /** Maximum references to return per symbol (default 10) */
+  maxReferences?: number;
+}
+
+/**
+ * Module referenced by an import: a path specifier or a webpack module id
+ */
+type ModuleTarget = { specifier: string } | { id: string };
+
+interface ParsedFile {
+  filePath: string;
+  absolutePath: string;
+  lines: string[];
+  consumer: SourceMapConsumer;
+}
+
+/** An export: a local binding, or an exported expression without one */
+interface ExportEntry {
+  binding: Binding | null;
+  node: t.Node;
+}
+
+/** A local binding that imports a name from another module ("*" for namespaces) */
+interface ImportLink {
+  binding: Binding;
+  node: t.Node;
+  target: ModuleTarget;
+  importedName: string;
+  commonJs: boolean;
+}
+
+/** A use of another module's export without a local binding (e.g. ns.foo) */
+interface MemberRef {
+  node: t.Node;
+  target: ModuleTarget;
+  importedName: string;
+}
+
+/**
+ * A module: a whole file, or one function of a bundle module table
+ */
+interface ModuleUnit {
+  file: ParsedFile;
+  moduleId?: string;
+  exports: Map<string, ExportEntry>;
+  reexports: Map<string, { target: ModuleTarget; importedName: string }>;
+  starReexports: ModuleTarget[];
+  imports: ImportLink[];
+  memberRefs: MemberRef[];
+  matched: Set<Binding>;
+}
+
+/** Names of the module, exports and require variables inside a module */
+interface ModuleNames {
+  module: string;
+  exports: string;
+  requires: Set<string>;
+  webpackRequires: Set<string>;
+  /** Browserify dependency map (require specifier -> module id) */
+  dependencyMap?: Record<string, string>;
+}
+
+interface SymbolRoot {
+  unit: ModuleUnit;
+  binding: Binding | null;
+  node: t.Node;
+}
+
+/** Extensions tried when resolving relative specifiers */
+const RESOLVE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.tsx', '.jsx'];
+
+/**
+ * Get the static name of a property key or member property
+ */
+function getPropertyName(node: t.Node, computed: boolean): string | null {
+  if (node.type === 'Identifier' && !computed) return node.name;
+  if (node.type === 'StringLiteral') return node.value;
+  if (node.type === 'NumericLiteral') return String(node.value);
+  return null;
+}
+
+/**
+ * Get the identifier returned by an export getter (`() => x` or `function () { return x; }`)
+ */
+function getReturnedIdentifier(node: t.Node): t.Identifier | null {
+  // Unwrap keepNames helpers: __name(function () { ... }, "foo")
+  if (node.type === 'CallExpression' && node.callee.type === 'Identifier' &&
+      node.callee.name === KEEP_NAMES_HELPER && node.arguments.length > 0) {
+    return getReturnedIdentifier(node.arguments[0]);
+  }
+  if (node.type === 'ArrowFunctionExpression' && node.body.type === 'Identifier') {
+    return node.body;
+  }
+  if (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression' || node.type === 'ObjectMethod') {
+    const body = node.body;
+    if (body.type === 'BlockStatement' && body.body[0]?.type === 'ReturnStatement') {
+      const argument = body.body[0].argument;
+      return argument?.type === 'Identifier' ? argument : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a visitor that records the imports, exports and identifier
+ * bindings of one module
+ */
+function createModuleVisitor(
+  unit: ModuleUnit,
+  names: ModuleNames,
+  identifier: string,
+  skipNodes: Set<t.Node>
+): Visitor {
+  const addExport = (name: string | null, binding: Binding | null, node: t.Node): void => {
+    if (name === null) return;
+    const existing = unit.exports.get(name);
+    // Prefer bound exports over placeholders like `exports.foo = void 0`
+    if (!existing || (!existing.binding && binding)) {
+      unit.exports.set(name, { binding, node });
+    }
+  };
+
+  const addGetterExport = (name: string | null, getter: NodePath): void => {
+    const returned = getReturnedIdentifier(getter.node);
+    if (returned) {
+      addExport(name, getter.scope.getBinding(returned.name) ?? null, returned);
+    } else {
+      addExport(name, null, getter.node);
+    }
+  };
+
+  const addImport = (p: NodePath, local: t.Identifier, target: ModuleTarget, importedName: string, commonJs: boolean): void => {
+    const binding = p.scope.getBinding(local.name);
+    if (binding) {
+      unit.imports.push({ binding, node: local, target, importedName, commonJs });
+    }
+  };
+
+  const getRequireTarget = (node: t.CallExpression): ModuleTarget | null => {
+    const { callee, arguments: args } = node;
+    if (callee.type !== 'Identifier' || !names.requires.has(callee.name) || args.length !== 1) {
+      return null;
+    }
+    const [arg] = args;
+    if (arg.type === 'NumericLiteral') {
+      return { id: String(arg.value) };
+    }
+    if (arg.type === 'StringLiteral') {
+      const dependency = names.dependencyMap?.[arg.value];
+      if (dependency !== undefined) {
+        return { id: dependency };
+      }
+      return names.webpackRequires.has(callee.name) ? { id: arg.value } : { specifier: arg.value };
+    }
+    return null;
+  };
+
+  const isExportsObject = (node: t.Node): boolean =>
+    (node.type === 'Identifier' && node.name === names.exports) ||
+    (node.type === 'MemberExpression' &&
+      node.object.type === 'Identifier' &&
+      node.object.name === names.module &&
+      getPropertyName(node.property, node.computed) === 'exports');
+
+  return {
+    Function(p) {
+      if (skipNodes.has(p.node)) {
+        p.skip();
+      }
+    },
+
+    Identifier(p) {
+      if (p.node.name !== identifier) return;
+      const parent = p.parent;
+      if ((parent.type === 'MemberExpression' || parent.type === 'OptionalMemberExpression') &&
+          parent.property === p.node && !parent.computed) {
+        return;
+      }
+      if (parent.type === 'ObjectProperty' && parent.key === p.node && !parent.computed && !parent.shorthand) {
+        return;
+      }
+      const binding = p.scope.getBinding(identifier);
+      if (binding) {
+        unit.matched.add(binding);
+      }
+    },
+
+    ImportDeclaration(p) {
+      const target = { specifier: p.node.source.value };
+      for (const specifier of p.node.specifiers) {
+        const importedName = specifier.type === 'ImportSpecifier'
+          ? getPropertyName(specifier.imported, false) ?? 'default'
+          : specifier.type === 'ImportDefaultSpecifier' ? 'default' : '*';
+        addImport(p, specifier.local, target, importedName, false);
+      }
+    },
+
+    ExportNamedDeclaration(p) {
+      const { node } = p;
+      if (node.source) {
+        const target = { specifier: node.source.value };
+        for (const specifier of node.specifiers) {
+          const importedName = specifier.type === 'ExportSpecifier'
+            ? specifier.local.name
+            : specifier.type === 'ExportDefaultSpecifier' ? 'default' : '*';
+          const exported = getPropertyName(specifier.exported, false);
+          if (exported !== null) {
+            unit.reexports.set(exported, { target, importedName });
+          }
+        }
+        return;
+      }
+      if (node.declaration) {
+        const ids = p.get('declaration').getBindingIdentifiers() as unknown as Record<string, t.Identifier>;
+        for (const [name, id] of Object.entries(ids)) {
+          addExport(name, p.scope.getBinding(name) ?? null, id);
+        }
+        return;
+      }
+      for (const specifier of node.specifiers) {
+        if (specifier.type === 'ExportSpecifier') {
+          addExport(
+            getPropertyName(specifier.exported, false),
+            p.scope.getBinding(specifier.local.name) ?? null,
+            specifier.local
+          );
+        }
+      }
+    },
+
+    ExportDefaultDeclaration(p) {
+      const declaration = p.node.declaration;
+      if (declaration.type === 'Identifier') {
+        addExport('default', p.scope.getBinding(declaration.name) ?? null, declaration);
+      } else if ((declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') && declaration.id) {
+        addExport('default', p.scope.getBinding(declaration.id.name) ?? null, declaration.id);
+      } else {
+        addExport('default', null, declaration);
+      }
+    },
+
+    ExportAllDeclaration(p) {
+      unit.starReexports.push({ specifier: p.node.source.value });
+    },
+
+    AssignmentExpression(p) {
+      const { left, right, operator } = p.node;
+      if (operator !== '=' || left.type !== 'MemberExpression') return;
+
+      // exports.foo = ... / module.exports.foo = ...
+      if (isExportsObject(left.object)) {
+        const name = getPropertyName(left.property, left.computed);
+        if (right.type === 'Identifier') {
+          addExport(name, p.scope.getBinding(right.name) ?? null, right);
+        } else {
+          addExport(name, null, left.property);
+        }
+        return;
+      }
+
+      // module.exports = ...
+      if (isExportsObject(left) && left.object.type === 'Identifier' && left.object.name === names.module) {
+        if (right.type === 'Identifier') {
+          addExport('default', p.scope.getBinding(right.name) ?? null, right);
+        } else if (right.type === 'ObjectExpression') {
+          for (const property of right.properties) {
+            if (property.type === 'SpreadElement') continue;
+            const name = getPropertyName(property.key, property.computed);
+            if (property.type === 'ObjectProperty' && property.value.type === 'Identifier') {
+              addExport(name, p.scope.getBinding(property.value.name) ?? null, property.value);
+            } else {
+              addExport(name, null, property.key);
+            }
+          }
+        } else {
+          addExport('default', null, right);
+        }
+      }
+    },
+
+    CallExpression(p) {
+      const { node } = p;
+
+      // require('./a') / __webpack_require__(123)
+      const target = getRequireTarget(node);
+      if (target) {
+        const parent = p.parentPath;
+        if (parent?.isVariableDeclarator() && parent.node.init === node) {
+          const id = parent.node.id;
+          if (id.type === 'Identifier') {
+            addImport(parent, id, target, '*', true);
+          } else if (id.type === 'ObjectPattern') {
+            for (const property of id.properties) {
+              if (property.type !== 'ObjectProperty' || property.value.type !== 'Identifier') continue;
+              const name = getPropertyName(property.key, property.computed);
+              if (name !== null) addImport(parent, property.value, target, name, true);
+            }
+          }
+        } else if (parent?.isMemberExpression() && parent.node.object === node) {
+          const name = getPropertyName(parent.node.property, parent.node.computed);
+          if (name === null) return;
+          const grandparent = parent.parentPath;
+          if (grandparent?.isVariableDeclarator() && grandparent.node.init === parent.node &&
+              grandparent.node.id.type === 'Identifier') {
+            addImport(grandparent, grandparent.node.id, target, name, true);
+          } else {
+            unit.memberRefs.push({ node: parent.node.property, target, importedName: name });
+          }
+        }
+        return;
+      }
+
+      const { callee } = node;
+      if (callee.type !== 'MemberExpression' || callee.object.type !== 'Identifier') return;
+      const method = getPropertyName(callee.property, callee.computed);
+      const args = p.get('arguments');
+
+      // __webpack_require__.d(exports, { foo: () => foo }) / (exports, 'foo', getter)
+      if (names.requires.has(callee.object.name) && method === 'd' && args.length >= 2) {
+        const [, definitions, getter] = args;
+        if (definitions.isObjectExpression()) {
+          for (const property of definitions.get('properties')) {
+            if (property.isObjectProperty()) {
+              addGetterExport(getPropertyName(property.node.key, property.node.computed), property.get('value'));
+            } else if (property.isObjectMethod()) {
+              addGetterExport(getPropertyName(property.node.key, property.node.computed), property);
+            }
+          }
+        } else if (definitions.isStringLiteral() && getter) {
+          addGetterExport(definitions.node.value, getter);
+        }
+        return;
+      }
+
+      // Object.defineProperty(exports, 'foo', { get: function () { return foo; } })
+      if (callee.object.name === 'Object' && method === 'defineProperty' && args.length === 3 &&
+          isExportsObject(args[0].node) && args[1].isStringLiteral() && args[2].isObjectExpression()) {
+        const name = args[1].node.value;
+        for (const property of args[2].get('properties')) {
+          const key = property.node.type === 'SpreadElement' ? null : getPropertyName(property.node.key, property.node.computed);
+          if (key !== 'get') continue;
+          if (property.isObjectProperty()) {
+            addGetterExport(name, property.get('value'));
+          } else if (property.isObjectMethod()) {
+            addGetterExport(name, property);
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Create a location in a project file
+ */
+function createProjectLocation(unit: ModuleUnit, node: t.Node): ProjectLocation | null {
+  const loc = node.loc;
+  if (!loc) {
+    return null;
+  }
+  const { line, column } = loc.start;
+  return {
+    line,
+    column,
+    originalPosition: getOriginalPosition(unit.file.consumer, line, column),
+    lineContent: unit.file.lines[line - 1] ?? '',
+    filePath: unit.file.filePath,
+    ...(unit.moduleId !== undefined && { moduleId: unit.moduleId }),
+  };
+}
+
+/**
+ * Analyze an identifier across several files
+ *
+ * Each file is split into modules: the file itself, plus every function of
+ * a webpack or browserify module table it contains. Modules are linked
+ * through ES module imports/exports (including re-exports), CommonJS
+ * `require`/`module.exports`/`exports.x`, webpack `__webpack_require__(id)` /
+ * `__webpack_require__.d` export definitions, and browserify dependency maps.
+ * Relative specifiers are resolved against the given file paths; numeric and
+ * path-like ids against bundle module ids.
+ *
+ * The identifier is matched against local binding names and exported names.
+ * Every matched definition is returned once, with the references in its own
+ * module and in every module importing it (import specifiers, local uses of
+ * the imported binding and namespace member accesses such as `ns.foo`).
+ *
+ * @param files - Beautified files with their source maps
+ * @param identifier - Local or exported name to find
+ * @param options - Analysis options
+ * @returns Symbols with definitions and references across files
+ */
+export async function analyzeProject(
+  files: ProjectFile[],
+  identifier: string,
+  options?: ProjectAnalyzeOptions
+): Promise<ProjectAnalysisResult> {
+  const maxReferences = options?.maxReferences ?? 10;
+  const traverse = await getTraverse();
+  const units: ModuleUnit[] = [];
+  const unitsByPath = new Map<string, ModuleUnit>();
+  const unitsById = new Map<string, ModuleUnit>();
+  const errors: ProjectAnalysisResult['errors'] = [];
+  let filesAnalyzed = 0;
+
+  const createUnit = (file: ParsedFile, moduleId?: string): ModuleUnit => ({
+    file,
+    moduleId,
+    exports: new Map(),
+    reexports: new Map(),
+    starReexports: [],
+    imports: [],
+    memberRefs: [],
+    matched: new Set(),
+  });
+
+  for (const projectFile of files) {
+    try {
+      const ast = parseCode(projectFile.code, { filePath: projectFile.filePath });
+      const file: ParsedFile = {
+        filePath: projectFile.filePath,
+        absolutePath: path.resolve(projectFile.filePath),
+        lines: projectFile.code.split('\n'),
+        consumer: new SourceMapConsumer({ ...projectFile.rawMap, version: String(projectFile.rawMap.version) }),
+      };
+
+      const bundleModules = findBundleModules(ast, projectFile.code, traverse);
+      const skipNodes = new Set<t.Node>(bundleModules.map(module => module.path.node));
+
+      // The file itself (for bundles: the runtime around the module table)
+      const fileUnit = createUnit(file);
+      traverse(ast, createModuleVisitor(fileUnit, {
+        module: 'module',
+        exports: 'exports',
+        requires: new Set(['require', '__webpack_require__']),
+        webpackRequires: new Set(['__webpack_require__']),
+      }, identifier, skipNodes));
+      units.push(fileUnit);
+      unitsByPath.set(file.absolutePath, fileUnit);
+
+      for (const module of bundleModules) {
+        const unit = createUnit(file, module.id);
+        if (module.bundler === 'browserify') {
+          const [requireParam, moduleParam, exportsParam] = module.path.node.params;
+          module.path.traverse(createModuleVisitor(unit, {
+            module: moduleParam?.type === 'Identifier' ? moduleParam.name : 'module',
+            exports: exportsParam?.type === 'Identifier' ? exportsParam.name : 'exports',
+            requires: new Set([requireParam?.type === 'Identifier' ? requireParam.name : 'require']),
+            webpackRequires: new Set(),
+            dependencyMap: module.dependencyMap,
+          }, identifier, skipNodes));
+        } else {
+          const [moduleParam, exportsParam, requireParam] = module.path.node.params;
+          const requireName = requireParam?.type === 'Identifier' ? requireParam.name : '__webpack_require__';
+          module.path.traverse(createModuleVisitor(unit, {
+            module: moduleParam?.type === 'Identifier' ? moduleParam.name : 'module',
+            exports: exportsParam?.type === 'Identifier' ? exportsParam.name : 'exports',
+            requires: new Set([requireName, '__webpack_require__']),
+            webpackRequires: new Set([requireName, '__webpack_require__']),
+          }, identifier, skipNodes));
+        }
+        units.push(unit);
+        unitsById.set(module.id, unit);
+      }
+      filesAnalyzed++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      errors.push({ filePath: projectFile.filePath, error: message });
+    }
+  }
+
+  // Namespace imports: member accesses (ns.foo) use the module's exports, other
+  // uses of a CommonJS require result use module.exports itself
+  for (const unit of units) {
+    for (const link of unit.imports) {
+      if (link.importedName !== '*') continue;
+      for (const reference of link.binding.referencePaths) {
+        const parent = reference.parent;
+        if ((parent.type === 'MemberExpression' || parent.type === 'OptionalMemberExpression') &&
+            parent.object === reference.node) {
+          const name = getPropertyName(parent.property, parent.computed);
+          if (name !== null) {
+            unit.memberRefs.push({ node: parent.property, target: link.target, importedName: name });
+          }
+        } else if (link.commonJs) {
+          unit.memberRefs.push({ node: reference.node, target: link.target, importedName: 'default' });
+        }
+      }
+    }
+  }
+
+  const resolveUnit = (from: ModuleUnit, target: ModuleTarget): ModuleUnit | null => {
+    if ('id' in target) {
+      return unitsById.get(target.id) ?? null;
+    }
+    const { specifier } = target;
+    if (!specifier.startsWith('.') && !specifier.startsWith('/')) {
+      return unitsById.get(specifier) ?? null;
+    }
+    const base = path.resolve(path.dirname(from.file.absolutePath), specifier);
+    const candidates = [
+      base,
+      ...RESOLVE_EXTENSIONS.map(ext => base + ext),
+      ...RESOLVE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+    ];
+    for (const candidate of candidates) {
+      const unit = unitsByPath.get(candidate);
+      if (unit) return unit;
+    }
+    return null;
+  };
+
+  const resolveExport = (
+    unit: ModuleUnit | null,
+    name: string,
+    depth: number = 0
+  ): { unit: ModuleUnit; entry: ExportEntry } | null => {
+    if (!unit || name === '*' || depth > 10) {
+      return null;
+    }
+    const entry = unit.exports.get(name);
+    if (entry) {
+      return { unit, entry };
+    }
+    const reexport = unit.reexports.get(name);
+    if (reexport) {
+      return resolveExport(resolveUnit(unit, reexport.target), reexport.importedName, depth + 1);
+    }
+    if (name !== 'default') {
+      for (const target of unit.starReexports) {
+        const resolved = resolveExport(resolveUnit(unit, target), name, depth + 1);
+        if (resolved) return resolved;
+      }
+    }
+    return null;
+  };
+
+  // Collect definitions: matched bindings (following imports to their
+  // definition) and exports under the identifier's name
+  const roots = new Map<object, SymbolRoot>();
+  const linkByBinding = new Map<Binding, { unit: ModuleUnit; link: ImportLink }>();
+  for (const unit of units) {
+    for (const link of unit.imports) {
+      linkByBinding.set(link.binding, { unit, link });
+    }
+  }
+  const addExportRoot = (resolved: { unit: ModuleUnit; entry: ExportEntry }): void => {
+    const key = resolved.entry.binding ?? resolved.entry;
+    if (!roots.has(key)) {
+      roots.set(key, {
+        unit: resolved.unit,
+        binding: resolved.entry.binding,
+        node: resolved.entry.binding?.identifier ?? resolved.entry.node,
+      });
+    }
+  };
+  for (const unit of units) {
+    for (const binding of unit.matched) {
+      const imported = linkByBinding.get(binding);
+      const resolved = imported && resolveExport(resolveUnit(unit, imported.link.target), imported.link.importedName);
+      if (resolved) {
+        addExportRoot(resolved);
+      } else if (!roots.has(binding)) {
+        roots.set(binding, { unit, binding, node: binding.identifier });
+      }
+    }
+    const exported = resolveExport(unit, identifier);
+    if (exported) {
+      addExportRoot(exported);
+    }
+  }
+
+  // Collect references from other modules
+  const crossReferences = new Map<object, ProjectLocation[]>();
+  const addCrossReference = (key: object, unit: ModuleUnit, node: t.Node): void => {
+    const location = createProjectLocation(unit, node);
+    if (location && roots.has(key)) {
+      const list = crossReferences.get(key) ?? [];
+      list.push(location);
+      crossReferences.set(key, list);
+    }
+  };
+  for (const unit of units) {
+    for (const link of unit.imports) {
+      const resolved = resolveExport(resolveUnit(unit, link.target), link.importedName);
+      if (!resolved) continue;
+      const key = resolved.entry.binding ?? resolved.entry;
+      addCrossReference(key, unit, link.node);
+      for (const reference of link.binding.referencePaths) {
+        addCrossReference(key, unit, reference.node);
+      }
+    }
+    for (const ref of unit.memberRefs) {
+      const resolved = resolveExport(resolveUnit(unit, ref.target), ref.importedName);
+      if (resolved) {
+        addCrossReference(resolved.entry.binding ?? resolved.entry, unit, ref.node);
+      }
+    }
+  }
+
+  const symbols: ProjectSymbol[] = [];
+  for (const [key, root] of roots) {
+    const definition = createProjectLocation(root.unit, root.node);
+    if (!definition) continue;
+
+    const exportedAs = [...root.unit.exports]
+      .filter(([, entry]) => (entry.binding ?? entry) === key)
+      .map(([name]) => name);
+
+    const allReferences: ProjectLocation[] = [];
+    for (const reference of root.binding?.referencePaths ?? []) {
+      // `export function foo` references foo through the declaration itself
+      if (reference.isExportDeclaration()) continue;
+      const location = createProjectLocation(root.unit, reference.node);
+      if (location) allReferences.push(location);
+    }
+    allReferences.push(...(crossReferences.get(key) ?? []));
+
+    // Deduplicate (an export specifier can also be a reference)
+    const seen = new Set<string>();
+    const references = allReferences.filter(location => {
+      const id = `${location.filePath}:${location.line}:${location.column}`;
+      if (seen.has(id) || (location.filePath === definition.filePath &&
+          location.line === definition.line && location.column === definition.column)) {
+        return false;
+      }
+      seen.add(id);
+      return true;
+    });
+
+    symbols.push({
+      kind: root.binding?.kind ?? 'export',
+      definition,
+      exportedAs,
+      references: references.slice(0, maxReferences),
+      totalReferences: references.length,
+    });
+  }
+
+  return {
+    identifier,
+    symbols,
+    filesAnalyzed,
+    errors,
+  };
+}
+
+/**
+ * Describe the file (and bundle module) of a location
+ */
+function formatLocationFile(location: ProjectLocation): string {
+  return location.moduleId !== undefined
+    ? `${location.filePath} [module ${location.moduleId}]`
+    : location.filePath;
+}
+
+/**
+ * Format project analysis result for output
+ * @param result - Project analysis result
+ * @param maxReferences - Maximum references shown per symbol
+ * @returns Formatted output string
+ */
+export function formatProjectAnalysisResult(
+  result: ProjectAnalysisResult,
+  maxReferences: number = 10
+): string {
+  const { symbols, identifier, filesAnalyzed, errors } = result;
+
+  const outputParts: string[] = [];
+
+  outputParts.push(`Identifier="${identifier}"`);
+  outputParts.push(`Src=original position for breakpoints`);
+  outputParts.push(`Files: ${filesAnalyzed} analyzed`);
+  outputParts.push(symbols.length > 0 ? `Symbols: ${symbols.length}` : 'Symbols: None');
+
+  for (let i = 0; i < symbols.length; i++) {
+    const symbol = symbols[i];
+    const exported = symbol.exportedAs.length > 0 ? ` exported as ${symbol.exportedAs.join(', ')}` : '';
+    outputParts.push(`--- Symbol #${i + 1} (${symbol.kind})${exported} ---`);
+
+    const { definition } = symbol;
+    outputParts.push(`📍 Definition: ${formatLocationFile(definition)}`);
+    outputParts.push(formatCodeLine(
+      definition.line,
+      formatSourcePosition(definition.originalPosition.line, definition.originalPosition.column),
+      definition.lineContent
+    ));
+
+    if (symbol.totalReferences === 0) {
+      outputParts.push('🔎 References: None');
+      continue;
+    }
+
+    outputParts.push(`🔎 References (${symbol.totalReferences}):`);
+    let currentFile: string | null = null;
+    for (const ref of symbol.references) {
+      const file = formatLocationFile(ref);
+      if (file !== currentFile) {
+        outputParts.push(`  ${file}`);
+        currentFile = file;
+      }
+      outputParts.push(formatCodeLine(
+        ref.line,
+        formatSourcePosition(ref.originalPosition.line, ref.originalPosition.column),
+        ref.lineContent
+      ));
+    }
+
+    if (symbol.totalReferences > maxReferences) {
+      const remaining = symbol.totalReferences - maxReferences;
+      outputParts.push(`  ... (${remaining} more references not shown)`);
+    }
+  }
+
+  if (errors.length > 0) {
+    outputParts.push(`Errors (${errors.length}):`);
+    for (const { filePath, error } of errors) {
+      outputParts.push(`  ${filePath}: ${error}`);
+    }
+  }
+
+  return outputParts.join('\n');
+}
@@ -1,13 +1,8 @@
 import { SourceMapConsumer } from 'source-map-js';
 import type { SourceMap } from './beautifier.js';
+import { getOriginalPosition, isSameSourceFile, type OriginalPosition } from './sourceMapper.js';
 
-/**
- * Original position from source map
- */
-export interface OriginalPosition {
-  line: number | null;
-  column: number | null;
-}
+export type { OriginalPosition } from './sourceMapper.js';
 
 /**
  * Context line with position info
@@ -24,10 +19,16 @@ export interface ContextLine {
 export interface SearchMatch {
   /** Match line number (1-based, in beautified code) */
   lineNumber: number;
+  /** Match start column (0-based, in beautified code) */
+  column: number;
+  /** Match length in characters */
+  length: number;
   /** Match line content */
   lineContent: string;
-  /** Original file coordinates */
+  /** Original file coordinates of the match start */
   originalPosition: OriginalPosition;
+  /** Authored source coordinates (only when an authoredMap was given) */
+  authoredPosition?: OriginalPosition;
   /** Context lines before match */
   contextBefore: ContextLine[];
   /** Context lines after match */
@@ -46,10 +47,20 @@ export interface SearchOptions {
   caseSensitive?: boolean;
   /** Maximum matches to return (default 50) */
   maxMatches?: number;
+  /**
+   * Return every match on a line as its own result instead of only the
+   * first one per line (default false)
+   */
+  allMatchesPerLine?: boolean;
   /** Treat query as regex pattern (default false for literal text search) */
   isRegex?: boolean;
   /** Timeout in milliseconds for search operation (default 500) */
   timeoutMs?: number;
+  /**
+   * Map from the beautified code to the authored sources (see
+   * BeautifyResult.authoredMap); adds authoredPosition to each match
+   */
+  authoredMap?: SourceMap | null;
 }
 
 /**
@@ -58,12 +69,34 @@ export interface SearchOptions {
 export interface SearchResult {
   /** Matched results */
   matches: SearchMatch[];
-  /** Total matches found (before truncation) */
+  /** Total matches found (before truncation; lines unless allMatchesPerLine) */
   totalMatches: number;
   /** Whether results were truncated */
   truncated: boolean;
 }
 
+/**
+ * Search result for one file of a multi-file search
+ */
+export interface FileSearchResult extends SearchResult {
+  /** Path of the searched file */
+  filePath: string;
+  /** Error message if the file could not be searched */
+  error?: string;
+}
+
+/**
+ * Result of searching several files with a shared match budget
+ */
+export interface MultiFileSearchResult {
+  /** Per-file results in search order */
+  files: FileSearchResult[];
+  /** Total matches found across all files (before truncation) */
+  totalMatches: number;
+  /** Whether matches were dropped to stay within the global budget */
+  truncated: boolean;
+}
+
 
 /**
  * Convert double-escaped backslashes to single backslashes.
@@ -110,19 +143,29 @@ export function createRegex(query: string, caseSensitive: boolean = false, isReg
 }
 
 /**
- * Get original position for a line using source map consumer
+ * Get the original position of a match start
+ * Falls back to the first mapping after the column when nothing is mapped
+ * before it (e.g. a match in generated indentation).
  */
-function getOriginalPosition(
+function getMatchPosition(
   consumer: SourceMapConsumer,
-  lineNumber: number
+  lineNumber: number,
+  column: number
 ): OriginalPosition {
-  const pos = consumer.originalPositionFor({
+  const pos = getOriginalPosition(consumer, lineNumber, column);
+  if (pos.line !== null) {
+    return pos;
+  }
+  const next = consumer.originalPositionFor({
     line: lineNumber,
-    column: 0,
+    column,
+    bias: SourceMapConsumer.LEAST_UPPER_BOUND,
   });
   return {
-    line: pos.line,
-    column: pos.column,
+    source: next.source,
+    line: next.line,
+    column: next.column,
+    name: next.name ?? null,
   };
 }
 
@@ -227,6 +270,8 @@ export function searchInCode(
     maxMatches = 10,
     isRegex = false,
     timeoutMs = 500,
+    authoredMap,
+    allMatchesPerLine = false,
   } = options;
 
   // Build line offset index (memory efficient)
@@ -249,6 +294,9 @@ export function searchInCode(
     ...rawMap,
     version: String(rawMap.version),
   });
+  const authoredConsumer = authoredMap
+    ? new SourceMapConsumer({ ...authoredMap, version: String(authoredMap.version) })
+    : null;
 
   const matches: SearchMatch[] = [];
   let lastMatchedLine = -1;
@@ -268,7 +316,7 @@ export function searchInCode(
     const lineNumber = getLineNumberFromIndex(offsets, totalLines, match.index);
 
     // Dedupe: skip if same line already matched
-    if (lineNumber === lastMatchedLine) {
+    if (lineNumber === lastMatchedLine && !allMatchesPerLine) {
       continue;
     }
     lastMatchedLine = lineNumber;
@@ -282,7 +330,7 @@ export function searchInCode(
         contextBefore.push({
           lineNumber: i,
           content: getLineContent(code, offsets, totalLines, i),
-          originalPosition: getOriginalPosition(consumer, i),
+          originalPosition: getOriginalPosition(consumer, i, 0),
         });
       }
 
@@ -291,14 +339,20 @@ export function searchInCode(
         contextAfter.push({
           lineNumber: i,
           content: getLineContent(code, offsets, totalLines, i),
-          originalPosition: getOriginalPosition(consumer, i),
+          originalPosition: getOriginalPosition(consumer, i, 0),
         });
       }
 
+      const column = match.index - offsets[lineNumber - 1];
       matches.push({
         lineNumber,
+        column,
+        length: match[0].length,
         lineContent: getLineContent(code, offsets, totalLines, lineNumber),
-        originalPosition: getOriginalPosition(consumer, lineNumber),
+        originalPosition: getMatchPosition(consumer, lineNumber, column),
+        ...(authoredConsumer && {
+          authoredPosition: getMatchPosition(authoredConsumer, lineNumber, column),
+        }),
         contextBefore,
         contextAfter,
       });
@@ -327,6 +381,28 @@ export function formatSourcePosition(line: number | null, column: number | null)
   return '';
 }
 
+/**
+ * Format a position with its source as "{source} L{line}:{column} ({name})" or placeholder
+ */
+export function formatOriginalPosition(position: OriginalPosition | undefined): string {
+  if (!position || position.source == null) {
+    return '';
+  }
+  const name = position.name ? ` (${position.name})` : '';
+  return `${position.source} ${formatSourcePosition(position.line, position.column)}${name}`;
+}
+
+/**
+ * Format the source of a position if it is not the file being read
+ * (e.g. after a Babel transform or with a multi-source map), or placeholder
+ */
+export function formatForeignSource(position: OriginalPosition, filePath: string): string {
+  if (position.source == null || isSameSourceFile(position.source, filePath)) {
+    return '';
+  }
+  return formatOriginalPosition(position);
+}
+
 /**
  * Format a single code line with line number, source coordinates, and content
  * Matches the format used in read_code_smart
@@ -337,6 +413,52 @@ function formatCodeLine(lineNumber: number, sourcePos: string, code: string, max
   return `${prefix}${lineNumStr} ${srcPosPadded} ${code}`;
 }
 
+/**
+ * Format matches with their context lines
+ */
+function formatMatches(filePath: string, matches: SearchMatch[]): string[] {
+  const outputParts: string[] = [];
+
+  for (const match of matches) {
+    outputParts.push(`--- Line ${match.lineNumber}:${match.column} ---`);
+
+    // Calculate max line number width for alignment
+    const allLineNumbers = [
+      ...match.contextBefore.map((c) => c.lineNumber),
+      match.lineNumber,
+      ...match.contextAfter.map((c) => c.lineNumber),
+    ];
+    const maxLineNumWidth = Math.max(...allLineNumbers.map((n) => String(n).length));
+
+    // Format context before
+    for (const ctx of match.contextBefore) {
+      const srcPos = formatSourcePosition(ctx.originalPosition.line, ctx.originalPosition.column);
+      outputParts.push(formatCodeLine(ctx.lineNumber, srcPos, ctx.content, maxLineNumWidth, '  '));
+    }
+
+    // Format match line with >> prefix
+    const matchSrcPos = formatSourcePosition(match.originalPosition.line, match.originalPosition.column);
+    outputParts.push(formatCodeLine(match.lineNumber, matchSrcPos, match.lineContent, maxLineNumWidth, '>>'));
+    const indent = `  ${' '.repeat(maxLineNumWidth)}`;
+    const foreignSource = formatForeignSource(match.originalPosition, filePath);
+    if (foreignSource) {
+      outputParts.push(`${indent} ↳ source: ${foreignSource}`);
+    }
+    const authoredPos = formatOriginalPosition(match.authoredPosition);
+    if (authoredPos) {
+      outputParts.push(`${indent} ↳ authored: ${authoredPos}`);
+    }
+
+    // Format context after
+    for (const ctx of match.contextAfter) {
+      const srcPos = formatSourcePosition(ctx.originalPosition.line, ctx.originalPosition.column);
+      outputParts.push(formatCodeLine(ctx.lineNumber, srcPos, ctx.content, maxLineNumWidth, '  '));
+    }
+  }
+
+  return outputParts;
+}
+
 /**
  * Format search result for output
  * @param filePath - Path to the file
@@ -377,35 +499,69 @@ export function formatSearchResult(
   outputParts.push(matchInfo);
 
   // Format each match
-  for (const match of matches) {
-    outputParts.push(`--- Line ${match.lineNumber} ---`);
+  outputParts.push(...formatMatches(filePath, matches));
 
-    // Calculate max line number width for alignment
-    const allLineNumbers = [
-      ...match.contextBefore.map((c) => c.lineNumber),
-      match.lineNumber,
-      ...match.contextAfter.map((c) => c.lineNumber),
-    ];
-    const maxLineNumWidth = Math.max(...allLineNumbers.map((n) => String(n).length));
+  // Add truncation message if needed
+  if (truncated) {
+    outputParts.push(`\n... (${totalMatches - maxMatches} more matches not shown)`);
+  }
 
-    // Format context before
-    for (const ctx of match.contextBefore) {
-      const srcPos = formatSourcePosition(ctx.originalPosition.line, ctx.originalPosition.column);
-      outputParts.push(formatCodeLine(ctx.lineNumber, srcPos, ctx.content, maxLineNumWidth, '  '));
-    }
+  return outputParts.join('\n');
+}
 
-    // Format match line with >> prefix
-    const matchSrcPos = formatSourcePosition(match.originalPosition.line, match.originalPosition.column);
-    outputParts.push(formatCodeLine(match.lineNumber, matchSrcPos, match.lineContent, maxLineNumWidth, '>>'));
+/**
+ * Format a multi-file search result for output
+ * Only files with matches or errors are listed.
+ * @param query - Search query
+ * @param caseSensitive - Whether search was case sensitive
+ * @param result - Multi-file search result
+ * @param maxMatches - Global maximum matches limit
+ * @param isRegex - Whether query was treated as regex pattern
+ * @returns Formatted output string
+ */
+export function formatMultiFileSearchResult(
+  query: string,
+  caseSensitive: boolean,
+  result: MultiFileSearchResult,
+  maxMatches: number = 50,
+  isRegex: boolean = false
+): string {
+  const { files, totalMatches, truncated } = result;
 
-    // Format context after
-    for (const ctx of match.contextAfter) {
-      const srcPos = formatSourcePosition(ctx.originalPosition.line, ctx.originalPosition.column);
-      outputParts.push(formatCodeLine(ctx.lineNumber, srcPos, ctx.content, maxLineNumWidth, '  '));
+  const outputParts: string[] = [];
+
+  const caseInfo = caseSensitive ? 'case-sensitive' : 'case-insensitive';
+  const modeInfo = isRegex ? 'regex' : 'literal';
+  const matchedFiles = files.filter((file) => file.totalMatches > 0);
+  const failedFiles = files.filter((file) => file.error);
+  outputParts.push(`Query="${query}" (${modeInfo}, ${caseInfo})`);
+  outputParts.push(`Src=original position for breakpoints`);
+  outputParts.push(`Files: ${files.length} searched, ${matchedFiles.length} with matches`);
+
+  if (totalMatches === 0) {
+    outputParts.push('Matches: None');
+  } else {
+    const matchInfo = truncated
+      ? `Matches: ${totalMatches} (showing first ${maxMatches})`
+      : `Matches: ${totalMatches}`;
+    outputParts.push(matchInfo);
+  }
+
+  for (const file of matchedFiles) {
+    const shown = file.matches.length < file.totalMatches
+      ? `${file.totalMatches}, showing ${file.matches.length}`
+      : `${file.totalMatches}`;
+    outputParts.push(`=== ${file.filePath} (matches: ${shown}) ===`);
+    outputParts.push(...formatMatches(file.filePath, file.matches));
+  }
+
+  if (failedFiles.length > 0) {
+    outputParts.push(`Errors (${failedFiles.length}):`);
+    for (const file of failedFiles) {
+      outputParts.push(`  ${file.filePath}: ${file.error}`);
     }
   }
 
-  // Add truncation message if needed
   if (truncated) {
     outputParts.push(`\n... (${totalMatches - maxMatches} more matches not shown)`);
   }
@@ -0,0 +1,414 @@
+import { SourceMapConsumer, SourceMapGenerator } from 'source-map-js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { SourceMap } from './beautifier.js';
+
+/**
+ * Code together with a source map back to its input
+ */
+export interface MappedCode {
+  /** Generated code */
+  code: string;
+  /** Source map (null if it could not be produced) */
+  map: SourceMap | null;
+}
+
+/**
+ * Incremental writer that records a source map while output is appended
+ *
+ * Original positions are given as character offsets into the original
+ * content and converted to line/column on the fly.
+ */
+export interface MappedWriter {
+  /**
+   * Append text to the output
+   * @param text - Text to append
+   * @param originalOffset - Offset in the original content the text was copied
+   *   from. When given, the text is treated as a verbatim copy and every
+   *   line it spans is mapped back to the original.
+   */
+  write(text: string, originalOffset?: number): void;
+  /**
+   * Append code that carries its own source map into a fragment of the original
+   * @param code - Code to append (e.g. beautified inline script)
+   * @param map - Source map from code to the fragment
+   * @param fragmentOffset - Offset of the fragment in the original content
+   * @param linePrefix - Text prepended to each non-empty line (e.g. indentation)
+   */
+  writeMapped(code: string, map: SourceMap, fragmentOffset: number, linePrefix?: string): void;
+  /** Append a line break */
+  newline(): void;
+  /** Current generated line (1-based) */
+  readonly line: number;
+  /** Current generated column (0-based) */
+  readonly column: number;
+  /** Finish writing and return the code and source map */
+  toResult(): MappedCode;
+}
+
+/**
+ * Build an index of line start offsets for a string
+ */
+export function buildLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Convert a character offset into a 1-based line and 0-based column
+ */
+export function offsetToPosition(lineStarts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >>> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] };
+}
+
+/**
+ * Create a writer that produces code together with a v3 source map
+ *
+ * Each line of output is also mapped at column 0 to the first mapped token
+ * on it, so lookups for a whole line (as done by the searcher) resolve even
+ * when the line starts with generated indentation.
+ *
+ * @param original - Original content that offsets refer to
+ * @param sourceName - Name recorded in the map's sources
+ * @returns MappedWriter instance
+ */
+export function createMappedWriter(original: string, sourceName: string): MappedWriter {
+  const lineStarts = buildLineStarts(original);
+  const generator = new SourceMapGenerator();
+  const parts: string[] = [];
+  let line = 1;
+  let column = 0;
+  let lineMapped = false;
+
+  const addPositionMapping = (generatedColumn: number, original: { line: number; column: number }): void => {
+    generator.addMapping({
+      generated: { line, column: generatedColumn },
+      original,
+      source: sourceName,
+    });
+  };
+
+  const addMapping = (generatedColumn: number, originalOffset: number): void => {
+    addPositionMapping(generatedColumn, offsetToPosition(lineStarts, originalOffset));
+  };
+
+  const newline = (): void => {
+    parts.push('\n');
+    line++;
+    column = 0;
+    lineMapped = false;
+  };
+
+  return {
+    write(text: string, originalOffset?: number): void {
+      if (text.length === 0) {
+        return;
+      }
+      if (originalOffset !== undefined) {
+        if (!lineMapped && column > 0) {
+          addMapping(0, originalOffset);
+        }
+        addMapping(column, originalOffset);
+        lineMapped = true;
+      }
+
+      let lineStart = 0;
+      let newlineIndex = text.indexOf('\n');
+      while (newlineIndex !== -1) {
+        line++;
+        column = 0;
+        lineMapped = false;
+        lineStart = newlineIndex + 1;
+        if (originalOffset !== undefined && lineStart < text.length) {
+          addMapping(0, originalOffset + lineStart);
+          lineMapped = true;
+        }
+        newlineIndex = text.indexOf('\n', lineStart);
+      }
+      column += text.length - lineStart;
+      parts.push(text);
+    },
+
+    writeMapped(code: string, map: SourceMap, fragmentOffset: number, linePrefix: string = ''): void {
+      // Group the fragment map's mappings by generated line
+      const byLine = new Map<number, Array<{ column: number; line: number; originalColumn: number }>>();
+      const consumer = new SourceMapConsumer({ ...map, version: String(map.version) });
+      consumer.eachMapping(m => {
+        if (m.originalLine == null || m.originalColumn == null) return;
+        const list = byLine.get(m.generatedLine) ?? [];
+        list.push({ column: m.generatedColumn, line: m.originalLine, originalColumn: m.originalColumn });
+        byLine.set(m.generatedLine, list);
+      });
+
+      // Fragment positions are relative to the fragment start
+      const base = offsetToPosition(lineStarts, fragmentOffset);
+      const toOriginal = (relLine: number, relColumn: number) => relLine === 1
+        ? { line: base.line, column: base.column + relColumn }
+        : { line: base.line + relLine - 1, column: relColumn };
+
+      const codeLines = code.split('\n');
+      for (let i = 0; i < codeLines.length; i++) {
+        if (i > 0) newline();
+        const text = codeLines[i];
+        if (text.length === 0) continue;
+
+        const startColumn = column + linePrefix.length;
+        const mappings = (byLine.get(i + 1) ?? []).sort((a, b) => a.column - b.column);
+        if (mappings.length > 0 && !lineMapped && startColumn + mappings[0].column > 0) {
+          addPositionMapping(0, toOriginal(mappings[0].line, mappings[0].originalColumn));
+        }
+        for (const m of mappings) {
+          addPositionMapping(startColumn + m.column, toOriginal(m.line, m.originalColumn));
+        }
+        if (mappings.length > 0) lineMapped = true;
+
+        parts.push(linePrefix, text);
+        column = startColumn + text.length;
+      }
+    },
+
+    newline,
+
+    get line(): number {
+      return line;
+    },
+
+    get column(): number {
+      return column;
+    },
+
+    toResult(): MappedCode {
+      const json = generator.toJSON();
+      return {
+        code: parts.join(''),
+        map: {
+          version: 3,
+          sources: json.sources,
+          names: json.names,
+          mappings: json.mappings,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Position in a source file resolved through a source map
+ */
+export interface OriginalPosition {
+  /** Source file (as listed in the map's sources, null if unmapped) */
+  source: string | null;
+  line: number | null;
+  column: number | null;
+  /** Original identifier name, if recorded */
+  name: string | null;
+}
+
+/**
+ * Matches `//# sourceMappingURL=...` and `/*# sourceMappingURL=... *\/` comments
+ * at the start of a line (group 3 is the URL)
+ */
+const SOURCE_MAPPING_URL_PATTERN = /^([ \t]*\/[*/])[#@]([ \t]*sourceMappingURL=([^\s'"*]+)[ \t]*(?:\*\/)?)/gm;
+
+/**
+ * Find the URL of the last sourceMappingURL comment in code
+ * @param code - JavaScript or CSS source
+ * @returns The URL, or null if the code has no sourceMappingURL comment
+ */
+export function findSourceMappingUrl(code: string): string | null {
+  let url: string | null = null;
+  for (const match of code.matchAll(SOURCE_MAPPING_URL_PATTERN)) {
+    url = match[3];
+  }
+  return url;
+}
+
+/**
+ * Disable sourceMappingURL comments without changing code length or positions
+ * Used before beautification so esbuild maps back to the file itself instead
+ * of silently following the upstream map.
+ */
+export function neutralizeSourceMappingUrls(code: string): string {
+  return code.replace(SOURCE_MAPPING_URL_PATTERN, '$1 $2');
+}
+
+/**
+ * Decode a data: URL containing a source map
+ */
+function decodeDataUrl(url: string): string | null {
+  const match = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(url);
+  if (!match) {
+    return null;
+  }
+  return match[2]
+    ? Buffer.from(match[3], 'base64').toString('utf-8')
+    : decodeURIComponent(match[3]);
+}
+
+/**
+ * Load the upstream source map of a file
+ *
+ * Follows the file's sourceMappingURL comment (inline data: URL, relative
+ * path or file: URL), falling back to a sibling `{file}.map`. Remote URLs
+ * are not fetched.
+ *
+ * @param filePath - Absolute path of the file
+ * @param content - Content of the file
+ * @returns The upstream source map, or null if none could be loaded
+ */
+export async function loadUpstreamSourceMap(filePath: string, content: string): Promise<SourceMap | null> {
+  const url = findSourceMappingUrl(content);
+
+  let mapText: string | null = null;
+  try {
+    if (url?.startsWith('data:')) {
+      mapText = decodeDataUrl(url);
+    } else {
+      let mapPath: string | null = `${filePath}.map`;
+      if (url?.startsWith('file:')) {
+        mapPath = fileURLToPath(url);
+      } else if (url && !/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+        mapPath = path.resolve(path.dirname(filePath), decodeURIComponent(url.split(/[?#]/)[0]));
+      } else if (url) {
+        mapPath = null;
+      }
+      mapText = mapPath ? await fs.readFile(mapPath, 'utf-8') : null;
+    }
+  } catch {
+    return null;
+  }
+
+  if (!mapText) {
+    return null;
+  }
+  try {
+    const map = JSON.parse(mapText) as SourceMap;
+    return Array.isArray(map.sources) && typeof map.mappings === 'string' ? map : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compose two source maps
+ *
+ * @param outer - Map from generated code to intermediate code (e.g. beautified -> minified)
+ * @param inner - Map from intermediate code to its sources (e.g. minified -> authored)
+ * @returns Map from generated code directly to the inner map's sources.
+ *   Mappings that have no counterpart in the inner map are dropped.
+ */
+export function composeSourceMaps(outer: SourceMap, inner: SourceMap): SourceMap {
+  const outerConsumer = new SourceMapConsumer({ ...outer, version: String(outer.version) });
+  const innerConsumer = new SourceMapConsumer({ ...inner, version: String(inner.version) });
+  const generator = new SourceMapGenerator();
+
+  outerConsumer.eachMapping(mapping => {
+    if (mapping.originalLine == null || mapping.originalColumn == null) return;
+    const pos = innerConsumer.originalPositionFor({
+      line: mapping.originalLine,
+      column: mapping.originalColumn,
+    });
+    if (pos.source == null || pos.line == null || pos.column == null) return;
+    generator.addMapping({
+      generated: { line: mapping.generatedLine, column: mapping.generatedColumn },
+      original: { line: pos.line, column: pos.column },
+      source: pos.source,
+      name: pos.name ?? undefined,
+    });
+  });
+
+  const json = generator.toJSON();
+  return {
+    version: 3,
+    sources: json.sources,
+    names: json.names,
+    mappings: json.mappings,
+  };
+}
+
+/**
+ * Shift the generated and original lines of a source map
+ *
+ * @param map - Map of a fragment (e.g. a line range of a file)
+ * @param lineOffset - Number of lines before the fragment
+ * @returns Map with positions numbered as in the whole file
+ */
+export function offsetSourceMapLines(map: SourceMap, lineOffset: number): SourceMap {
+  if (lineOffset === 0) {
+    return map;
+  }
+  const consumer = new SourceMapConsumer({ ...map, version: String(map.version) });
+  const generator = new SourceMapGenerator();
+
+  consumer.eachMapping(mapping => {
+    if (mapping.originalLine == null || mapping.originalColumn == null) return;
+    generator.addMapping({
+      generated: { line: mapping.generatedLine + lineOffset, column: mapping.generatedColumn },
+      original: { line: mapping.originalLine + lineOffset, column: mapping.originalColumn },
+      source: mapping.source,
+      name: mapping.name ?? undefined,
+    });
+  });
+
+  const json = generator.toJSON();
+  return {
+    version: 3,
+    sources: json.sources,
+    names: json.names,
+    mappings: json.mappings,
+  };
+}
+
+/**
+ * Look up the original position of a generated position
+ */
+export function getOriginalPosition(
+  consumer: SourceMapConsumer,
+  line: number,
+  column: number
+): OriginalPosition {
+  const pos = consumer.originalPositionFor({ line, column });
+  return {
+    source: pos.source,
+    line: pos.line,
+    column: pos.column,
+    name: pos.name ?? null,
+  };
+}
+
+/**
+ * Check whether a source map source refers to the given file
+ *
+ * Sources are usually relative to the map (e.g. "app.js" or
+ * "../../site/app.js") or are URLs ("webpack://app/./src/x.js"), so the
+ * source's path segments (without scheme and host) are compared against
+ * the end of the file's absolute path.
+ */
+export function isSameSourceFile(source: string, filePath: string): boolean {
+  const normalize = (p: string) => p.replace(/\\/g, '/');
+  const segments = normalize(source)
+    .replace(/^[a-z][a-z0-9+.-]*:(\/\/[^/]*)?/i, '')
+    .split('/')
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+  if (segments.length === 0) {
+    return false;
+  }
+  const target = normalize(path.resolve(filePath));
+  return target === `/${segments.join('/')}` || target.endsWith(`/${segments.join('/')}`);
+}
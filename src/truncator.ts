@@ -1,8 +1,11 @@
-import { parse } from 'meriyah';
+import { parse, type ESTree } from 'meriyah';
 import { walk } from 'estree-walker';
 import MagicString from 'magic-string';
+import * as crypto from 'crypto';
 import type { Node } from 'estree';
 import { detectLanguage, getLanguageInfo, type SupportedLanguage } from './languageDetector.js';
+import { composeSourceMaps, type OriginalPosition } from './sourceMapper.js';
+import type { SourceMap } from './beautifier.js';
 
 /**
  * Count newlines in a string
@@ -15,28 +18,173 @@ function countNewlines(str: string): number {
   return count;
 }
 
+/**
+ * Kind of truncated content
+ */
+export type TruncationKind = 'string' | 'template' | 'elements' | 'line';
+
+/**
+ * Range in the code passed to truncation (lines 1-based, columns 0-based)
+ */
+export interface TruncationRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * A value elided by truncation
+ */
+export interface Truncation {
+  /** Stable id shown in the marker (derived from the elided value) */
+  id: string;
+  /** String literal, template literal part, array elements / object properties or whole line */
+  kind: TruncationKind;
+  /** Range of the literal or line in the beautified code */
+  range: TruncationRange;
+  /** Original positions of the start and end of the range (set by smartRead) */
+  originalRange?: { start: OriginalPosition; end: OriginalPosition };
+  /** Length of the full value */
+  length: number;
+}
+
+/**
+ * Collects truncations and their full values while truncating
+ */
+interface TruncationCollector {
+  truncations: Truncation[];
+  values: Map<string, string>;
+}
+
+/**
+ * Derive the id of a truncated value
+ * The same value always gets the same id, so ids stay valid across reads of
+ * different line ranges and across processes
+ */
+function getTruncationId(kind: TruncationKind, value: string): string {
+  return crypto.createHash('sha1').update(`${kind}\0`).update(value).digest('hex').slice(0, 8);
+}
+
+/**
+ * Record a truncated value and return its id
+ */
+function recordTruncation(
+  collector: TruncationCollector,
+  kind: TruncationKind,
+  value: string,
+  range: TruncationRange
+): string {
+  const id = getTruncationId(kind, value);
+  collector.truncations.push({ id, kind, range, length: value.length });
+  collector.values.set(id, value);
+  return id;
+}
+
+/**
+ * Convert an ESTree node location to a truncation range
+ */
+function getRange(loc: { start: { line: number; column: number }; end: { line: number; column: number } }): TruncationRange {
+  return {
+    startLine: loc.start.line,
+    startColumn: loc.start.column,
+    endLine: loc.end.line,
+    endColumn: loc.end.column,
+  };
+}
+
+/**
+ * Escape sequences and single characters of string or template source text
+ */
+const SOURCE_CHAR_PATTERN = /\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|\r\n|[\s\S])|[\s\S]/g;
+
 /**
  * Create truncated string with preserved newlines
- * Format: "start ...[TRUNCATED {length} CHARS]... \n\n\nend"
+ * Format: "start ...[TRUNCATED {length} CHARS #{id}]... \n\n\nend"
+ *
+ * The previews are cut from the source text between the quotes (escapes
+ * such as `\n` stay escaped and are never split), and only line breaks
+ * present in the source text are kept, so the result is valid code with the
+ * same line count.
+ *
+ * @param sourceText - Source text of the string without its quotes
+ * @param previewLength - Length of start/end preview portions
+ * @param id - Truncation id
+ * @param length - Length of the string value reported in the marker
  */
-function createTruncatedString(original: string, previewLength: number): string {
-  const newlineCount = countNewlines(original);
-  const start = original.slice(0, previewLength);
-  const end = original.slice(-previewLength);
+function createTruncatedString(sourceText: string, previewLength: number, id: string, length: number): string {
+  // Cut at the escape sequence boundaries closest to the preview lengths
+  let startEnd = 0;
+  let endStart = sourceText.length;
+  for (const match of sourceText.matchAll(SOURCE_CHAR_PATTERN)) {
+    const boundary = match.index! + match[0].length;
+    if (boundary <= previewLength) {
+      startEnd = boundary;
+    }
+    if (match.index! >= sourceText.length - previewLength) {
+      endStart = match.index!;
+      break;
+    }
+  }
+  const start = sourceText.slice(0, startEnd);
+  const end = sourceText.slice(Math.max(startEnd, endStart));
   
   // Build the truncation marker with preserved newlines
-  const marker = `...[TRUNCATED ${original.length} CHARS]...`;
+  const marker = `...[TRUNCATED ${length} CHARS #${id}]...`;
   
   // Create newlines to preserve line count
   // We need to account for newlines already in start and end portions
   const startNewlines = countNewlines(start);
   const endNewlines = countNewlines(end);
-  const preservedNewlines = Math.max(0, newlineCount - startNewlines - endNewlines);
+  const preservedNewlines = Math.max(0, countNewlines(sourceText) - startNewlines - endNewlines);
   const newlineStr = '\n'.repeat(preservedNewlines);
   
   return `${start}${marker}${newlineStr}${end}`;
 }
 
+/**
+ * Element of an array literal or property of an object literal
+ */
+type CollectionElement = ESTree.ArrayExpression['elements'][number] | ESTree.ObjectExpression['properties'][number];
+
+/**
+ * Check for a primitive literal value (number, string, boolean, null or a
+ * negated number), the only values collapsed in large literals so that code
+ * (e.g. the functions of a webpack module table) is never hidden
+ */
+function isPrimitiveValue(node: ESTree.Node): boolean {
+  if (node.type === 'Literal') {
+    return !('regex' in node);
+  }
+  return node.type === 'UnaryExpression' && (node.operator === '-' || node.operator === '+') &&
+    node.argument.type === 'Literal' && (typeof node.argument.value === 'number' || typeof node.argument.value === 'bigint');
+}
+
+/**
+ * Check for an array hole, a primitive array element or a property with a
+ * static key and a primitive value
+ */
+function isPrimitiveElement(element: CollectionElement): boolean {
+  if (element === null) return true;
+  if (element.type === 'Property') {
+    return !element.computed && !element.method && isPrimitiveValue(element.value);
+  }
+  return isPrimitiveValue(element);
+}
+
+/**
+ * Create the replacement for the collapsed middle of an array or object literal
+ * Format: ", /* ...[TRUNCATED {count} ELEMENTS #{id}]... *\/\n\n\n  "
+ * The newlines and the indentation before the next kept element are preserved,
+ * so the lines after the literal keep their numbers.
+ */
+function createCollapsedElements(gap: string, count: number, id: string): string {
+  const lastNewline = gap.lastIndexOf('\n');
+  const indentation = lastNewline === -1 ? ' ' : gap.slice(lastNewline);
+  const marker = `/* ...[TRUNCATED ${count} ELEMENTS #${id}]... */`;
+  return `, ${marker}${'\n'.repeat(Math.max(0, countNewlines(gap) - 1))}${indentation}`;
+}
+
 /**
  * Options for truncation operations
  */
@@ -45,6 +193,16 @@ export interface TruncateOptions {
   language?: SupportedLanguage;
   /** Character limit for string truncation (default: 200) */
   charLimit?: number;
+  /**
+   * Array elements or object properties above which the middle of the
+   * literal is collapsed, when it only holds primitive values such as
+   * numbers and strings (default: 100)
+   */
+  maxElements?: number;
+  /** Elements kept at the start and at the end of a collapsed literal (default: 10) */
+  previewElements?: number;
+  /** Generate a source map from the truncated code to the input code (default: false) */
+  sourceMap?: boolean;
   /** Maximum characters per line (default: 500) */
   maxLineChars?: number;
   /** Preview length for truncated content (default: 50) */
@@ -59,6 +217,13 @@ export interface TruncateResult {
   code: string;
   /** Whether fallback mode was used */
   usedFallback: boolean;
+  /** Elided values, in the order their markers appear */
+  truncations: Truncation[];
+  /**
+   * Source map from the truncated code to the input code (with the sourceMap
+   * option; absent when nothing was truncated, the code is then unchanged)
+   */
+  map?: SourceMap;
 }
 
 /**
@@ -69,18 +234,46 @@ interface ASTTruncateResult {
   code: string;
   /** Whether parsing failed and fallback was used */
   parseFailed: boolean;
+  /** Edits made to the source code (absent if parsing failed) */
+  magicString?: MagicString;
+}
+
+/**
+ * Generate the source map of truncation edits
+ * Mappings are recorded at word boundaries so columns keep mapping
+ * precisely after a shortened literal.
+ */
+function generateTruncationMap(magicString: MagicString): SourceMap {
+  const map = magicString.generateMap({ source: 'input', hires: 'boundary' });
+  return {
+    version: map.version,
+    sources: map.sources,
+    names: map.names,
+    mappings: map.mappings,
+  };
 }
 
 /**
  * Truncate long strings in JavaScript/TypeScript code using AST-based processing
  * This function uses meriyah to parse the AST and truncate string literals
+ * and the middle of large array and object literals
  * 
  * @param sourceCode - Source code to process
  * @param limit - Character limit for strings (default 200)
  * @param previewLength - Length of start/end preview portions (default 50)
+ * @param maxElements - Elements above which array and object literals are collapsed (default: no limit)
+ * @param previewElements - Elements kept at the start and end of a collapsed literal (default 10)
+ * @param collector - Receives the truncated values
  * @returns ASTTruncateResult with truncated code and parse failure indicator
  */
-function truncateCodeAST(sourceCode: string, limit: number = 200, previewLength: number = 50): ASTTruncateResult {
+function truncateCodeAST(
+  sourceCode: string,
+  limit: number = 200,
+  previewLength: number = 50,
+  maxElements: number = Infinity,
+  previewElements: number = 10,
+  collector: TruncationCollector = { truncations: [], values: new Map() }
+): ASTTruncateResult {
   // Try to parse the AST
   let ast: ReturnType<typeof parse>;
   try {
@@ -98,21 +291,58 @@ function truncateCodeAST(sourceCode: string, limit: number = 200, previewLength:
   }
 
   const magicString = new MagicString(sourceCode);
+  // Collapsed ranges (their nodes are already replaced by a marker)
+  const collapsed: Array<[number, number]> = [];
   
   // Walk the AST and find string literals to truncate
   walk(ast as unknown as Node, {
     enter(node: Node) {
+      const { start } = node as unknown as ESTree.Node;
+      if (start !== undefined && collapsed.some(([from, to]) => start >= from && start < to)) {
+        this.skip();
+        return;
+      }
+
+      // Handle large array and object literals of primitive values
+      if (node.type === 'ArrayExpression' || node.type === 'ObjectExpression') {
+        const collection = node as unknown as ESTree.ArrayExpression | ESTree.ObjectExpression;
+        const elements: CollectionElement[] =
+          collection.type === 'ArrayExpression' ? collection.elements : collection.properties;
+        const keep = Math.max(1, previewElements);
+        const lastHead = elements[keep - 1];
+        const firstHidden = elements[keep];
+        const lastHidden = elements[elements.length - keep - 1];
+        const firstTail = elements[elements.length - keep];
+        
+        // Holes at the edges of the collapsed range have no position
+        if (elements.length > maxElements && elements.length > keep * 2 &&
+            lastHead && firstHidden && lastHidden && firstTail &&
+            elements.slice(keep, elements.length - keep).every(isPrimitiveElement)) {
+          const count = elements.length - keep * 2;
+          const hidden = sourceCode.slice(firstHidden.start, lastHidden.end);
+          const id = recordTruncation(collector, 'elements', hidden, {
+            startLine: firstHidden.loc!.start.line,
+            startColumn: firstHidden.loc!.start.column,
+            endLine: lastHidden.loc!.end.line,
+            endColumn: lastHidden.loc!.end.column,
+          });
+          const gap = sourceCode.slice(lastHead.end, firstTail.start);
+          magicString.overwrite(lastHead.end!, firstTail.start!, createCollapsedElements(gap, count, id));
+          collapsed.push([lastHead.end!, firstTail.start!]);
+        }
+      }
+
       // Handle regular string literals
       if (node.type === 'Literal' && typeof (node as any).value === 'string') {
         const literal = node as any;
         const value = literal.value as string;
         
         if (value.length > limit && literal.start !== undefined && literal.end !== undefined) {
-          const truncated = createTruncatedString(value, previewLength);
-          // Wrap in quotes matching the original
-          const originalText = sourceCode.slice(literal.start, literal.end);
-          const quote = originalText[0]; // Get the quote character used
-          magicString.overwrite(literal.start, literal.end, `${quote}${truncated}${quote}`);
+          const id = recordTruncation(collector, 'string', value, getRange(literal.loc));
+          // Keep the quotes and replace the source text between them
+          const sourceText = sourceCode.slice(literal.start + 1, literal.end - 1);
+          const truncated = createTruncatedString(sourceText, previewLength, id, value.length);
+          magicString.overwrite(literal.start + 1, literal.end - 1, truncated);
         }
       }
       
@@ -125,7 +355,8 @@ function truncateCodeAST(sourceCode: string, limit: number = 200, previewLength:
           const value = quasi.value.raw as string;
           
           if (value.length > limit && quasi.start !== undefined && quasi.end !== undefined) {
-            const truncated = createTruncatedString(value, previewLength);
+            const id = recordTruncation(collector, 'template', value, getRange(quasi.loc));
+            const truncated = createTruncatedString(value, previewLength, id, value.length);
             // Template literal quasis don't have surrounding quotes
             magicString.overwrite(quasi.start, quasi.end, truncated);
           }
@@ -134,7 +365,7 @@ function truncateCodeAST(sourceCode: string, limit: number = 200, previewLength:
     }
   });
 
-  return { code: magicString.toString(), parseFailed: false };
+  return { code: magicString.toString(), parseFailed: false, magicString };
 }
 
 /**
@@ -145,6 +376,50 @@ export function truncateCodeHighPerf(sourceCode: string, limit: number = 200, pr
   return truncateCodeAST(sourceCode, limit, previewLength).code;
 }
 
+/**
+ * Truncate lines exceeding the character limit, recording each as a truncation
+ *
+ * @param code - Code to process
+ * @param maxLineChars - Maximum characters per line
+ * @param previewLength - Length of start/end preview portions
+ * @param collector - Receives the truncated lines
+ * @param sourceLines - Lines of the code before string truncation (the full
+ *   value recorded for a truncated line; default: the lines of code)
+ * @returns The edits made to the code
+ */
+function truncateLines(
+  code: string,
+  maxLineChars: number,
+  previewLength: number,
+  collector: TruncationCollector,
+  sourceLines?: string[]
+): MagicString {
+  const magicString = new MagicString(code);
+  let lineStart = 0;
+
+  code.split('\n').forEach((line, index) => {
+    const start = lineStart;
+    lineStart += line.length + 1;
+    if (line.length <= maxLineChars || previewLength * 2 >= line.length) {
+      return;
+    }
+
+    const sourceLine = sourceLines?.[index] ?? line;
+    const id = recordTruncation(collector, 'line', sourceLine, {
+      startLine: index + 1,
+      startColumn: 0,
+      endLine: index + 1,
+      endColumn: sourceLine.length,
+    });
+    const truncatedChars = line.length - previewLength * 2;
+    const marker = `...[LINE TRUNCATED ${truncatedChars} CHARS #${id}]...`;
+
+    magicString.overwrite(start + previewLength, start + line.length - previewLength, marker);
+  });
+
+  return magicString;
+}
+
 /**
  * Fallback truncation for unsupported languages
  * Only truncates lines exceeding the character limit, no AST parsing
@@ -164,44 +439,37 @@ export function truncateFallback(
     return code;
   }
 
-  const lines = code.split('\n');
-
-  const processedLines = lines.map((line) => {
-    if (line.length <= maxLineChars) {
-      return line;
-    }
-
-    const start = line.slice(0, previewLength);
-    const end = line.slice(-previewLength);
-    const truncatedChars = line.length - previewLength * 2;
-    const marker = `...[LINE TRUNCATED ${truncatedChars} CHARS]...`;
-
-    return `${start}${marker}${end}`;
-  });
-
-  return processedLines.join('\n');
+  return truncateLines(code, maxLineChars, previewLength, { truncations: [], values: new Map() }).toString();
 }
 
 /**
- * Truncate code based on language type
- * - For JS/TS: Use AST-based truncation for string literals + line truncation
- * - For other languages: Use line-based truncation only (fallback mode)
- * 
- * @param code - Source code to process
- * @param options - Truncation options including language, limits, etc.
- * @returns TruncateResult with truncated code and fallback indicator
+ * Truncate code and collect the elided values
  */
-export function truncateCode(
+function truncateWithCollector(
   code: string,
-  options?: TruncateOptions
-): TruncateResult {
+  options: TruncateOptions | undefined,
+  collector: TruncationCollector
+): Omit<TruncateResult, 'truncations'> {
   const {
     language,
     charLimit = 200,
     maxLineChars = 500,
     previewLength = 50,
+    maxElements = 100,
+    previewElements = 10,
+    sourceMap = false,
   } = options ?? {};
 
+  // Line truncation only, with its own map
+  const truncateLinesOnly = (): Omit<TruncateResult, 'truncations'> => {
+    const lineEdits = truncateLines(code, maxLineChars, previewLength, collector);
+    return {
+      code: lineEdits.toString(),
+      usedFallback: true,
+      ...(sourceMap && collector.truncations.length > 0 && { map: generateTruncationMap(lineEdits) }),
+    };
+  };
+
   // Determine language info
   const langInfo = language ? getLanguageInfo(language) : null;
   
@@ -210,31 +478,80 @@ export function truncateCode(
   
   if (supportsAST && (language === 'javascript' || language === 'typescript')) {
     // Use AST-based truncation for JS/TS
-    const astResult = truncateCodeAST(code, charLimit, previewLength);
+    const astResult = truncateCodeAST(code, charLimit, previewLength, maxElements, previewElements, collector);
     
     // If AST parsing failed, fall back to line-based truncation (Requirement 8.4)
     if (astResult.parseFailed) {
-      const truncatedCode = truncateFallback(code, maxLineChars, previewLength);
-      return {
-        code: truncatedCode,
-        usedFallback: true,
-      };
+      return truncateLinesOnly();
     }
     
     // Also apply line truncation to AST-processed code
-    const truncatedCode = truncateLongLines(astResult.code, maxLineChars, previewLength / maxLineChars);
+    // (string truncation keeps the line count, so lines still line up with the input)
+    const astTruncations = collector.truncations.length;
+    const lineEdits = truncateLines(astResult.code, maxLineChars, previewLength, collector, code.split('\n'));
+    const lineTruncations = collector.truncations.length - astTruncations;
+    let map: SourceMap | undefined;
+    if (sourceMap && astTruncations > 0) {
+      const astMap = generateTruncationMap(astResult.magicString!);
+      map = lineTruncations > 0 ? composeSourceMaps(generateTruncationMap(lineEdits), astMap) : astMap;
+    } else if (sourceMap && lineTruncations > 0) {
+      map = generateTruncationMap(lineEdits);
+    }
     return {
-      code: truncatedCode,
+      code: lineEdits.toString(),
       usedFallback: false,
+      ...(map && { map }),
     };
   }
   
   // Fallback mode: only line-based truncation (Requirement 3.2)
-  const truncatedCode = truncateFallback(code, maxLineChars, previewLength);
-  return {
-    code: truncatedCode,
-    usedFallback: true,
-  };
+  return truncateLinesOnly();
+}
+
+/**
+ * Truncate code based on language type
+ * - For JS/TS: Use AST-based truncation for string literals and large
+ *   array/object literals + line truncation
+ * - For other languages: Use line-based truncation only (fallback mode)
+ * 
+ * Each marker carries the id of the elided value (`...[TRUNCATED 300 CHARS #1a2b3c4d]...`),
+ * listed in `truncations` with its range in the input code.
+ * 
+ * @param code - Source code to process
+ * @param options - Truncation options including language, limits, etc.
+ * @returns TruncateResult with truncated code, fallback indicator and truncations
+ */
+export function truncateCode(
+  code: string,
+  options?: TruncateOptions
+): TruncateResult {
+  const collector: TruncationCollector = { truncations: [], values: new Map() };
+  const result = truncateWithCollector(code, options, collector);
+  return { ...result, truncations: collector.truncations };
+}
+
+/**
+ * Get the full value of a truncation
+ * Markers produced from any line range of the code are found, as long as the
+ * same truncation options are used.
+ * 
+ * @param code - Full code that was (partly) truncated
+ * @param id - Truncation id from a marker or the truncations table
+ * @param options - Truncation options used to truncate the code
+ * @returns The elided value, or null if the code has no truncation with this id
+ */
+export function getTruncatedValue(
+  code: string,
+  id: string,
+  options?: TruncateOptions
+): string | null {
+  const collector: TruncationCollector = { truncations: [], values: new Map() };
+  truncateWithCollector(code, options, collector);
+  if (!collector.values.has(id)) {
+    // A line range that does not parse on its own is truncated line by line
+    truncateLines(code, options?.maxLineChars ?? 500, options?.previewLength ?? 50, collector);
+  }
+  return collector.values.get(id) ?? null;
 }
 
 /**
@@ -243,7 +560,7 @@ export function truncateCode(
  * @param filePath - Path to the file (used for language detection)
  * @param code - Source code to process
  * @param options - Truncation options (language override, limits, etc.)
- * @returns TruncateResult with truncated code and fallback indicator
+ * @returns TruncateResult with truncated code, fallback indicator and truncations
  */
 export function truncateCodeFromFile(
   filePath: string,
@@ -275,21 +592,6 @@ export function truncateLongLines(
     return code;
   }
 
-  const lines = code.split('\n');
   const previewLength = Math.floor(maxLineChars * previewRatio);
-
-  const processedLines = lines.map((line) => {
-    if (line.length <= maxLineChars) {
-      return line;
-    }
-
-    const start = line.slice(0, previewLength);
-    const end = line.slice(-previewLength);
-    const truncatedChars = line.length - previewLength * 2;
-    const marker = `...[LINE TRUNCATED ${truncatedChars} CHARS]...`;
-
-    return `${start}${marker}${end}`;
-  });
-
-  return processedLines.join('\n');
+  return truncateLines(code, maxLineChars, previewLength, { truncations: [], values: new Map() }).toString();
 }
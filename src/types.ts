@@ -4,12 +4,15 @@
  */
 
 import type { SupportedLanguage } from './languageDetector.js';
-import type { SourceMap } from './beautifier.js';
+import type { SourceMap, LocalOutputOptions } from './beautifier.js';
+import type { SearchOptions } from './searcher.js';
+import type { ProjectAnalyzeOptions } from './projectAnalyzer.js';
+import type { Truncation } from './truncator.js';
 
 /**
  * Options for processing files with smart-fs
  */
-export interface ProcessingOptions {
+export interface ProcessingOptions extends LocalOutputOptions {
   /** Override auto-detected language */
   language?: SupportedLanguage;
   /** Character limit for string truncation (default: 300) */
@@ -18,8 +21,26 @@ export interface ProcessingOptions {
   maxLineChars?: number;
   /** Preview length for truncated content (default: 50) */
   previewLength?: number;
-  /** Save beautified file locally */
+  /**
+   * Array elements or object properties above which the middle of the
+   * literal is collapsed, keeping line numbers; only literals holding
+   * primitive values such as numbers and strings are collapsed (default: 100)
+   */
+  maxElements?: number;
+  /** Elements kept at the start and at the end of a collapsed literal (default: 10) */
+  previewElements?: number;
+  /** Save beautified file locally (default: true) */
   saveLocal?: boolean;
+  /**
+   * Follow the file's sourceMappingURL (or sibling .map) and report authored
+   * source positions in search and analysis results (default: false)
+   */
+  followSourceMap?: boolean;
+  /**
+   * Operate on one module of a webpack, browserify or scope-hoisted bundle (see unpackBundle);
+   * line numbers are then relative to the module
+   */
+  moduleId?: string;
 }
 
 /**
@@ -28,7 +49,11 @@ export interface ProcessingOptions {
 export interface ProcessingResult {
   /** Processed code */
   code: string;
-  /** Source map (null for unsupported languages) */
+  /**
+   * Source map from the processed code to the original file (null for
+   * unsupported languages); lines are numbered as in the whole beautified
+   * file, so line 1 of a range starting at startLine is line startLine
+   */
   sourceMap: SourceMap | null;
   /** Detected or specified language */
   language: SupportedLanguage;
@@ -36,10 +61,29 @@ export interface ProcessingResult {
   usedFallback: boolean;
   /** Local file path if saved */
   localPath?: string;
+  /**
+   * Elided values (lines refer to the whole beautified file); pass an id to
+   * expandTruncation to read the full value
+   */
+  truncations?: Truncation[];
+  /**
+   * Truncation limits used when they were tightened to fit maxOutputChars
+   * (pass them to expandTruncation)
+   */
+  truncateLimits?: TruncateLimits;
+  /** Number of lines of the beautified file (or bundle module) */
+  totalLines?: number;
+  /** First line after the returned range (absent when the range reaches the end) */
+  nextStartLine?: number;
   /** Error message if any */
   error?: string;
 }
 
+/**
+ * Truncation limits applied by smartRead
+ */
+export type TruncateLimits = Required<Pick<ProcessingOptions, 'charLimit' | 'maxLineChars' | 'previewLength'>>;
+
 /**
  * Options for smartRead function
  */
@@ -48,6 +92,74 @@ export interface SmartReadOptions extends ProcessingOptions {
   startLine?: number;
   /** Ending line number (1-based, inclusive) */
   endLine?: number;
+  /**
+   * Maximum characters of returned code (about 4 characters per token).
+   * Lines are returned from startLine until the budget or endLine is reached
+   * (continue at nextStartLine); when not even one line fits, charLimit,
+   * maxLineChars and previewLength are tightened
+   */
+  maxOutputChars?: number;
+}
+
+/**
+ * Options for expandTruncation (the options the content was read with)
+ */
+export type ExpandTruncationOptions = Omit<SmartReadOptions, 'startLine' | 'endLine' | 'maxOutputChars' | 'followSourceMap'>;
+
+/**
+ * Part of the full value of a truncation
+ */
+export interface ExpandTruncationResult {
+  /** Truncation id */
+  id: string;
+  /** Requested part of the value */
+  content: string;
+  /** Offset of the part in the value */
+  offset: number;
+  /** Length of the full value */
+  totalLength: number;
+  /** Offset of the next part (absent when the part reaches the end) */
+  nextOffset?: number;
+  /** Error message if any */
+  error?: string;
+}
+
+/**
+ * Options for smartSearchFiles
+ */
+export interface MultiFileSearchOptions
+  extends Omit<SearchOptions, 'query' | 'authoredMap'>,
+    Pick<ProcessingOptions, 'saveLocal' | 'outputDir' | 'workspaceRoot' | 'followSourceMap'> {
+  /** Maximum matches to return across all files (default 50) */
+  maxMatches?: number;
+  /** Number of files beautified and searched at the same time (default 4) */
+  concurrency?: number;
+}
+
+/**
+ * Options for smartSearchDir
+ */
+export interface DirSearchOptions extends MultiFileSearchOptions {
+  /**
+   * Glob patterns of files to search, relative to the root directory
+   * (default: every file with source map support)
+   */
+  include?: string[];
+  /**
+   * Glob patterns of files and directories to skip (default: node_modules
+   * and .git); beautified output and source maps are always skipped
+   */
+  exclude?: string[];
+}
+
+/**
+ * Options for findUsageInFiles
+ */
+export interface MultiFileAnalyzeOptions
+  extends ProjectAnalyzeOptions,
+    Pick<ProcessingOptions, 'saveLocal' | 'outputDir' | 'workspaceRoot'> {
+  /** Number of files beautified at the same time (default 4) */
+  concurrency?: number;
 }
 
 /**